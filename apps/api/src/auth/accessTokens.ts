@@ -0,0 +1,183 @@
+/**
+ * Access token validation
+ *
+ * In jwt mode (the default) access tokens must be JWTs, verified locally against the
+ * authorization server's JWKS. In introspection mode every token is sent to the authorization
+ * server's RFC 7662 introspection endpoint instead, authenticating as a resource server client,
+ * so opaque tokens work and a JWT stops working as soon as its grant is revoked. Introspection
+ * responses are cached for a few seconds to save a round trip per request.
+ */
+
+import { createHash } from "crypto";
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from "jose";
+import { z } from "zod";
+import { getRequiredEnv, getRequiredEnvNumber } from "@apps/shared";
+import { formatZodError } from "@apps/shared/validation";
+
+export const TOKEN_VALIDATION_MODES = [ "jwt", "introspection" ] as const;
+
+export type TokenValidationMode = typeof TOKEN_VALIDATION_MODES[number];
+
+// Validates an access token and returns its claims, or throws when it isn't valid for the API
+export type AccessTokenValidator = ( token: string ) => Promise<JWTPayload>;
+
+export interface TokenValidatorOptions {
+	issuer: string;
+	audience: string;
+	algorithms?: string[];  // JWS algorithms JWT access tokens may be signed with; any the JWKS allows by default
+}
+
+export interface IntrospectionOptions {
+	endpoint: string;
+	clientId: string;
+	clientSecret: string;
+	cacheTtlMs: number;  // How long an introspection response is reused; never past the token's expiry
+	cacheMaxEntries: number;
+	timeoutMs: number;
+}
+
+/**
+ * The token couldn't be validated because the authorization server didn't answer,
+ * which says nothing about whether the token is valid
+ */
+export class TokenValidationUnavailableError extends Error {
+	constructor( message: string, options?: ErrorOptions ) {
+		super( message, options );
+		this.name = "TokenValidationUnavailableError";
+	}
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+const CACHE_MAX_ENTRIES = 10000;
+
+// RFC 7662 section 2.2. Further claims, such as consent_id and account_ids, pass through.
+const introspectionResponseSchema = z.looseObject( {
+	active: z.boolean(),
+	scope: z.string().optional(),
+	client_id: z.string().optional(),
+	token_type: z.string().optional(),
+	exp: z.number().optional(),
+	iat: z.number().optional(),
+	sub: z.string().optional(),
+	aud: z.union( [ z.string(), z.array( z.string() ) ] ).optional(),
+	iss: z.string().optional(),
+	jti: z.string().optional()
+} );
+
+/**
+ * Read the introspection settings from the API_INTROSPECTION_* environment variables
+ */
+export function getIntrospectionOptions( issuer: string ): IntrospectionOptions {
+	const cacheSeconds = getRequiredEnvNumber( "API_INTROSPECTION_CACHE_SECONDS", 30 );
+	if ( cacheSeconds < 0 ) {
+		throw new Error( "API_INTROSPECTION_CACHE_SECONDS must not be negative" );
+	}
+
+	return {
+		endpoint: getRequiredEnv( "API_INTROSPECTION_ENDPOINT", `${ issuer }/token/introspection` ),
+		clientId: getRequiredEnv( "API_INTROSPECTION_CLIENT_ID", "api-introspection" ),
+		clientSecret: getRequiredEnv( "API_INTROSPECTION_CLIENT_SECRET" ),
+		cacheTtlMs: cacheSeconds * 1000,
+		cacheMaxEntries: CACHE_MAX_ENTRIES,
+		timeoutMs: REQUEST_TIMEOUT_MS
+	};
+}
+
+/**
+ * Create a validator that verifies JWT access tokens against the authorization server's JWKS
+ */
+export function createJwtValidator( options: TokenValidatorOptions ): AccessTokenValidator {
+	const jwks = createRemoteJWKSet( new URL( `${ options.issuer }/jwks` ) );
+
+	return async ( token ) => {
+		const { payload } = await jwtVerify( token, jwks, {
+			issuer: options.issuer,
+			audience: options.audience,
+			algorithms: options.algorithms
+		} );
+		return payload;
+	};
+}
+
+/**
+ * Create a validator that asks the authorization server's introspection endpoint about every token.
+ * Inactive tokens are cached like active ones, so a rejected token doesn't cost a round trip either.
+ */
+export function createIntrospectionValidator( options: TokenValidatorOptions & IntrospectionOptions ): AccessTokenValidator {
+	const cache = new Map<string, { claims: JWTPayload | null; expiresAt: number }>();
+	const credentials = Buffer.from(
+		`${ encodeURIComponent( options.clientId ) }:${ encodeURIComponent( options.clientSecret ) }`
+	).toString( "base64" );
+
+	async function introspect( token: string ): Promise<JWTPayload | null> {
+		let body: unknown;
+		try {
+			const response = await fetch( options.endpoint, {
+				method: "POST",
+				headers: {
+					Authorization: `Basic ${ credentials }`,
+					"Content-Type": "application/x-www-form-urlencoded",
+					Accept: "application/json"
+				},
+				body: new URLSearchParams( { token, token_type_hint: "access_token" } ),
+				signal: AbortSignal.timeout( options.timeoutMs )
+			} );
+			if ( !response.ok ) {
+				await response.body?.cancel();
+				throw new Error( `Introspection endpoint responded with HTTP ${ response.status }` );
+			}
+			body = await response.json();
+		} catch ( error ) {
+			throw new TokenValidationUnavailableError( "Token introspection failed", { cause: error } );
+		}
+
+		const result = introspectionResponseSchema.safeParse( body );
+		if ( !result.success ) {
+			throw new TokenValidationUnavailableError( `Invalid introspection response: ${ formatZodError( result.error ) }` );
+		}
+		const { active, token_type, ...claims } = result.data;
+
+		// Refresh tokens are introspectable too, but only access tokens (which have a token_type) grant access
+		if ( !active || !token_type ) return null;
+		const audiences = typeof claims.aud === "string" ? [ claims.aud ] : claims.aud ?? [];
+		if ( claims.iss !== options.issuer || !audiences.includes( options.audience ) ) return null;
+		return claims;
+	}
+
+	function remember( key: string, claims: JWTPayload | null ): void {
+		let expiresAt = Date.now() + options.cacheTtlMs;
+		if ( claims?.exp ) {
+			expiresAt = Math.min( expiresAt, claims.exp * 1000 );
+		}
+		if ( expiresAt <= Date.now() ) return;
+
+		// Maps iterate in insertion order, so the first key is the oldest entry
+		if ( cache.size >= options.cacheMaxEntries ) {
+			const oldest = cache.keys().next().value;
+			if ( oldest !== undefined ) cache.delete( oldest );
+		}
+		cache.set( key, { claims, expiresAt } );
+	}
+
+	return async ( token ) => {
+		// Key the cache by a hash so the tokens themselves aren't kept in memory
+		const key = createHash( "sha256" ).update( token ).digest( "base64url" );
+		const cached = cache.get( key );
+		let claims: JWTPayload | null;
+		if ( cached && cached.expiresAt > Date.now() ) {
+			claims = cached.claims;
+		} else {
+			cache.delete( key );
+			claims = await introspect( token );
+			remember( key, claims );
+		}
+
+		if ( !claims ) {
+			throw new Error( "Access token is not active" );
+		}
+		if ( claims.exp && claims.exp * 1000 <= Date.now() ) {
+			throw new Error( "Access token has expired" );
+		}
+		return claims;
+	};
+}
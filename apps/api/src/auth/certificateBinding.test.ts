@@ -0,0 +1,91 @@
+import { describe, it, before, after } from "node:test";
+import assert from "assert/strict";
+import { execFileSync } from "child_process";
+import { createHash } from "crypto";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getCertificateThumbprint, parseClientCertificate } from "@apps/shared/clientCertificates";
+import { verifyCertificateBinding, CertificateBindingError } from "./certificateBinding.js";
+
+interface TestCertificate {
+	pem: string;
+	der: Buffer;
+	thumbprint: string;  // Computed from the DER openssl wrote, independently of the code under test
+}
+
+let dir: string;
+let client: TestCertificate;
+let other: TestCertificate;
+
+// A self-signed P-256 certificate made with openssl, like the README's examples
+function generateCertificate( name: string ): TestCertificate {
+	const pemFile = join( dir, `${ name }.pem` );
+	const derFile = join( dir, `${ name }.der` );
+	execFileSync( "openssl", [
+		"req", "-x509", "-newkey", "ec", "-pkeyopt", "ec_paramgen_curve:P-256", "-nodes", "-days", "1",
+		"-subj", `/CN=${ name }`, "-keyout", join( dir, `${ name }.key` ), "-out", pemFile
+	], { stdio: "ignore" } );
+	execFileSync( "openssl", [ "x509", "-in", pemFile, "-outform", "DER", "-out", derFile ], { stdio: "ignore" } );
+	const der = readFileSync( derFile );
+	return {
+		pem: readFileSync( pemFile, "utf-8" ),
+		der,
+		thumbprint: createHash( "sha256" ).update( der ).digest( "base64url" )
+	};
+}
+
+const boundTo = ( certificate: TestCertificate ) => ( { sub: "user", cnf: { "x5t#S256": certificate.thumbprint } } );
+
+before( () => {
+	dir = mkdtempSync( join( tmpdir(), "certificate-binding-" ) );
+	client = generateCertificate( "client" );
+	other = generateCertificate( "other" );
+} );
+
+after( () => {
+	rmSync( dir, { recursive: true, force: true } );
+} );
+
+describe( "parseClientCertificate", () => {
+	it( "reads base64 DER, as Caddy forwards it", () => {
+		const certificate = parseClientCertificate( client.der.toString( "base64" ) );
+		assert.ok( certificate );
+		assert.equal( getCertificateThumbprint( certificate ), client.thumbprint );
+	} );
+
+	it( "reads URL-encoded PEM, as nginx forwards it", () => {
+		const certificate = parseClientCertificate( encodeURIComponent( client.pem ) );
+		assert.ok( certificate );
+		assert.equal( getCertificateThumbprint( certificate ), client.thumbprint );
+	} );
+
+	it( "returns undefined without a usable certificate", () => {
+		assert.equal( parseClientCertificate( undefined ), undefined );
+		assert.equal( parseClientCertificate( "" ), undefined );
+		assert.equal( parseClientCertificate( "not a certificate" ), undefined );
+		assert.equal( parseClientCertificate( [ client.der.toString( "base64" ) ] ), undefined );
+	} );
+} );
+
+describe( "verifyCertificateBinding", () => {
+	it( "accepts a bound token with its certificate", () => {
+		assert.doesNotThrow( () => verifyCertificateBinding( boundTo( client ), client.der.toString( "base64" ) ) );
+	} );
+
+	it( "accepts an unbound token without a certificate", () => {
+		assert.doesNotThrow( () => verifyCertificateBinding( { sub: "user" }, undefined ) );
+	} );
+
+	it( "rejects a bound token without a certificate", () => {
+		assert.throws( () => verifyCertificateBinding( boundTo( client ), undefined ), CertificateBindingError );
+		assert.throws( () => verifyCertificateBinding( boundTo( client ), "garbage" ), CertificateBindingError );
+	} );
+
+	it( "rejects a bound token with another certificate", () => {
+		assert.throws(
+			() => verifyCertificateBinding( boundTo( client ), other.der.toString( "base64" ) ),
+			{ name: "CertificateBindingError", message: "The access token is not bound to the presented client certificate" }
+		);
+	} );
+} );
@@ -0,0 +1,45 @@
+/**
+ * Certificate-bound access tokens (RFC 8705 section 3)
+ *
+ * An access token issued to a client that authenticated with mutual TLS can be bound to the
+ * client's certificate, whose SHA-256 thumbprint it carries in cnf.x5t#S256. It is only accepted
+ * on requests made with that certificate, which the reverse proxy forwards in a header.
+ */
+
+import type { JWTPayload } from "jose";
+import { getCertificateThumbprint, parseClientCertificate } from "@apps/shared/clientCertificates";
+
+/**
+ * The request wasn't made with the certificate its access token is bound to
+ */
+export class CertificateBindingError extends Error {
+	constructor( message: string ) {
+		super( message );
+		this.name = "CertificateBindingError";
+	}
+}
+
+/**
+ * Get the certificate thumbprint a validated access token is bound to, if any
+ */
+export function getBoundCertificateThumbprint( claims: JWTPayload ): string | undefined {
+	const cnf = claims.cnf as { "x5t#S256"?: unknown } | undefined;
+	return typeof cnf?.["x5t#S256"] === "string" ? cnf["x5t#S256"] : undefined;
+}
+
+/**
+ * Check a certificate-bound access token was presented with its certificate, given the value of the
+ * header the reverse proxy forwards the client certificate in. Unbound tokens pass.
+ */
+export function verifyCertificateBinding( claims: JWTPayload, certificateHeader: string | string[] | undefined ): void {
+	const expected = getBoundCertificateThumbprint( claims );
+	if ( !expected ) return;
+
+	const certificate = parseClientCertificate( certificateHeader );
+	if ( !certificate ) {
+		throw new CertificateBindingError( "The access token is bound to a client certificate, but none was presented" );
+	}
+	if ( getCertificateThumbprint( certificate ) !== expected ) {
+		throw new CertificateBindingError( "The access token is not bound to the presented client certificate" );
+	}
+}
@@ -0,0 +1,134 @@
+import { describe, it, before } from "node:test";
+import assert from "assert/strict";
+import { createHash, randomUUID } from "crypto";
+import { calculateJwkThumbprint, exportJWK, generateKeyPair, SignJWT, type CryptoKey, type JWK, type JWTPayload } from "jose";
+import { createDPoPVerifier, DPoPError, type DPoPOptions, type DPoPRequest } from "./dpop.js";
+
+const OPTIONS: DPoPOptions = {
+	required: false,
+	algorithms: [ "ES256" ],
+	proofMaxAgeSeconds: 60,
+	clockToleranceSeconds: 5,
+	replayCacheMaxEntries: 100
+};
+
+const ACCESS_TOKEN = "access-token";
+const REQUEST_URL = "https://api.example.test/api/fdx/v6/accounts";
+
+interface ProofKey {
+	privateKey: CryptoKey;
+	jwk: JWK;
+}
+
+let key: ProofKey;
+let otherKey: ProofKey;
+
+async function generateProofKey(): Promise<ProofKey> {
+	const { privateKey, publicKey } = await generateKeyPair( "ES256" );
+	return { privateKey, jwk: await exportJWK( publicKey ) };
+}
+
+// A proof for a GET of REQUEST_URL with ACCESS_TOKEN, signed with the given key, with any claims overridden
+function createProof( signer: ProofKey, claims: JWTPayload = {} ): Promise<string> {
+	return new SignJWT( {
+		jti: randomUUID(),
+		htm: "GET",
+		htu: REQUEST_URL,
+		ath: createHash( "sha256" ).update( ACCESS_TOKEN ).digest( "base64url" ),
+		...claims
+	} )
+		.setProtectedHeader( { alg: "ES256", typ: "dpop+jwt", jwk: signer.jwk } )
+		.setIssuedAt( typeof claims.iat === "number" ? claims.iat : undefined )
+		.sign( signer.privateKey );
+}
+
+async function request( proofs: string[], overrides: Partial<DPoPRequest> = {} ): Promise<DPoPRequest> {
+	return {
+		scheme: "DPoP",
+		proofs,
+		method: "GET",
+		url: `${ REQUEST_URL }?limit=10`,
+		accessToken: ACCESS_TOKEN,
+		claims: { sub: "user", cnf: { jkt: await calculateJwkThumbprint( key.jwk ) } },
+		...overrides
+	};
+}
+
+// Expect the verifier to reject the request with the given error code and message
+async function assertRejected( promise: Promise<void>, error: DPoPError["error"], message: string | RegExp ): Promise<void> {
+	await assert.rejects( promise, ( thrown: unknown ) => {
+		assert.ok( thrown instanceof DPoPError );
+		assert.equal( thrown.error, error );
+		assert.match( thrown.message, typeof message === "string" ? new RegExp( message ) : message );
+		return true;
+	} );
+}
+
+before( async () => {
+	key = await generateProofKey();
+	otherKey = await generateProofKey();
+} );
+
+describe( "createDPoPVerifier", () => {
+	it( "accepts a proof for the request, its access token and the bound key", async () => {
+		const verify = createDPoPVerifier( OPTIONS );
+		await verify( await request( [ await createProof( key ) ] ) );
+	} );
+
+	it( "rejects a proof for another method", async () => {
+		const verify = createDPoPVerifier( OPTIONS );
+		await assertRejected( verify( await request( [ await createProof( key, { htm: "POST" } ) ] ) ), "invalid_dpop_proof", "htm" );
+	} );
+
+	it( "rejects a proof for another URL", async () => {
+		const verify = createDPoPVerifier( OPTIONS );
+		const proof = await createProof( key, { htu: "https://api.example.test/api/fdx/v6/customers/current" } );
+		await assertRejected( verify( await request( [ proof ] ) ), "invalid_dpop_proof", "htu" );
+	} );
+
+	it( "rejects a proof for another access token", async () => {
+		const verify = createDPoPVerifier( OPTIONS );
+		const proof = await createProof( key, { ath: createHash( "sha256" ).update( "other-token" ).digest( "base64url" ) } );
+		await assertRejected( verify( await request( [ proof ] ) ), "invalid_dpop_proof", "ath" );
+	} );
+
+	it( "rejects a proof signed with a key the access token isn't bound to", async () => {
+		const verify = createDPoPVerifier( OPTIONS );
+		await assertRejected( verify( await request( [ await createProof( otherKey ) ] ) ), "invalid_token", "not bound to the DPoP proof key" );
+	} );
+
+	it( "rejects a proof that was used before", async () => {
+		const verify = createDPoPVerifier( OPTIONS );
+		const proof = await createProof( key );
+		await verify( await request( [ proof ] ) );
+		await assertRejected( verify( await request( [ proof ] ) ), "invalid_dpop_proof", "already been used" );
+	} );
+
+	it( "rejects a proof that is too old", async () => {
+		const verify = createDPoPVerifier( OPTIONS );
+		const proof = await createProof( key, { iat: Math.floor( Date.now() / 1000 ) - 120 } );
+		await assertRejected( verify( await request( [ proof ] ) ), "invalid_dpop_proof", "Invalid DPoP proof" );
+	} );
+
+	it( "rejects a bound access token sent as a bearer token", async () => {
+		const verify = createDPoPVerifier( OPTIONS );
+		await assertRejected( verify( await request( [], { scheme: "Bearer" } ) ), "invalid_token", "DPoP authorization scheme" );
+	} );
+
+	it( "rejects a bound access token without exactly one proof", async () => {
+		const verify = createDPoPVerifier( OPTIONS );
+		await assertRejected( verify( await request( [] ) ), "invalid_dpop_proof", "Exactly one" );
+		const proofs = [ await createProof( key ), await createProof( key ) ];
+		await assertRejected( verify( await request( proofs ) ), "invalid_dpop_proof", "Exactly one" );
+	} );
+
+	it( "accepts unbound bearer tokens unless DPoP is required", async () => {
+		const unbound = { scheme: "Bearer", claims: { sub: "user" } };
+		await createDPoPVerifier( OPTIONS )( await request( [], unbound ) );
+		await assertRejected(
+			createDPoPVerifier( { ...OPTIONS, required: true } )( await request( [], unbound ) ),
+			"invalid_token",
+			"DPoP-bound access token is required"
+		);
+	} );
+} );
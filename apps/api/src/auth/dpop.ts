@@ -0,0 +1,174 @@
+/**
+ * DPoP proof validation (RFC 9449)
+ *
+ * A DPoP-bound access token carries the thumbprint of the client's key in cnf.jkt, and is only
+ * accepted with the "DPoP" authorization scheme and a proof: a JWT signed with that key for this
+ * request's method and URL (htm, htu) and this access token (ath). Proofs are single use; their jtis
+ * are remembered for as long as the proof is fresh enough to be accepted.
+ */
+
+import { createHash } from "crypto";
+import { calculateJwkThumbprint, EmbeddedJWK, jwtVerify, type JWK, type JWTPayload } from "jose";
+import { getEnvBoolean, getRequiredEnvNumber } from "@apps/shared";
+import { getSecurityProfile, FAPI2_SIGNING_ALGORITHMS } from "@apps/shared/securityProfiles";
+
+// The algorithms the authorization server accepts DPoP proofs with, unless in FAPI 2.0 mode
+export const DPOP_SIGNING_ALGORITHMS = [ "ES256", "Ed25519", "EdDSA" ];
+
+export interface DPoPOptions {
+	required: boolean;  // Reject access tokens that aren't DPoP-bound, so bearer tokens can't be used at all
+	algorithms: string[];  // JWS algorithms proofs may be signed with
+	proofMaxAgeSeconds: number;
+	clockToleranceSeconds: number;
+	replayCacheMaxEntries: number;
+}
+
+export interface DPoPRequest {
+	scheme: string;  // Authorization scheme the access token was presented with
+	proofs: string[];  // Values of the DPoP header
+	method: string;
+	url: string;  // The URL the client sent the request to
+	accessToken: string;
+	claims: JWTPayload;  // The validated access token's claims
+}
+
+// Checks the request proves possession of the key the access token is bound to, or throws a DPoPError
+export type DPoPVerifier = ( request: DPoPRequest ) => Promise<void>;
+
+/**
+ * The request didn't prove possession of the key its access token is bound to. The error code
+ * goes in the WWW-Authenticate challenge (RFC 9449 section 7.1).
+ */
+export class DPoPError extends Error {
+	readonly error: "invalid_token" | "invalid_dpop_proof";
+
+	constructor( error: DPoPError["error"], message: string, options?: ErrorOptions ) {
+		super( message, options );
+		this.name = "DPoPError";
+		this.error = error;
+	}
+}
+
+const CLOCK_TOLERANCE_SECONDS = 5;
+const REPLAY_CACHE_MAX_ENTRIES = 10000;
+
+/**
+ * Read the DPoP settings from the API_DPOP_* environment variables
+ */
+export function getDPoPOptions(): DPoPOptions {
+	const proofMaxAgeSeconds = getRequiredEnvNumber( "API_DPOP_PROOF_MAX_AGE_SECONDS", 60 );
+	if ( proofMaxAgeSeconds <= 0 ) {
+		throw new Error( "API_DPOP_PROOF_MAX_AGE_SECONDS must be positive" );
+	}
+
+	return {
+		required: getEnvBoolean( "API_DPOP_REQUIRED", false ),
+		algorithms: getSecurityProfile() === "fapi2" ? FAPI2_SIGNING_ALGORITHMS : DPOP_SIGNING_ALGORITHMS,
+		proofMaxAgeSeconds,
+		clockToleranceSeconds: CLOCK_TOLERANCE_SECONDS,
+		replayCacheMaxEntries: REPLAY_CACHE_MAX_ENTRIES
+	};
+}
+
+/**
+ * The WWW-Authenticate challenge for a request rejected by the verifier
+ */
+export function getDPoPChallenge( error: DPoPError, options: DPoPOptions ): string {
+	const description = error.message.replace( /["\\]/g, "" );
+	return `DPoP error="${ error.error }", error_description="${ description }", algs="${ options.algorithms.join( " " ) }"`;
+}
+
+/**
+ * Get the key thumbprint a validated access token is bound to, if any
+ */
+export function getBoundKeyThumbprint( claims: JWTPayload ): string | undefined {
+	const cnf = claims.cnf as { jkt?: unknown } | undefined;
+	return typeof cnf?.jkt === "string" ? cnf.jkt : undefined;
+}
+
+// htu is compared without the query and fragment (RFC 9449 section 4.3)
+function normalizeUrl( url: string ): string | undefined {
+	try {
+		const parsed = new URL( url );
+		return `${ parsed.origin }${ parsed.pathname }`;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Create a verifier that checks DPoP proofs for bound access tokens. Unbound tokens pass as bearer
+ * tokens unless DPoP is required.
+ */
+export function createDPoPVerifier( options: DPoPOptions ): DPoPVerifier {
+	// jtis of the proofs accepted recently, with when the proof stops being fresh enough to accept (ms since the epoch)
+	const seenProofs = new Map<string, number>();
+
+	function remember( jti: string, iat: number ): boolean {
+		const now = Date.now();
+		const seen = seenProofs.get( jti );
+		if ( seen !== undefined && seen > now ) return false;
+
+		// Maps iterate in insertion order, so expired entries and the oldest ones come first
+		for ( const [ key, expiresAt ] of seenProofs ) {
+			if ( expiresAt > now && seenProofs.size < options.replayCacheMaxEntries ) break;
+			seenProofs.delete( key );
+		}
+		seenProofs.set( jti, ( iat + options.proofMaxAgeSeconds + options.clockToleranceSeconds ) * 1000 );
+		return true;
+	}
+
+	return async ( request ) => {
+		const scheme = request.scheme.toLowerCase();
+		const jkt = getBoundKeyThumbprint( request.claims );
+
+		if ( !jkt ) {
+			if ( scheme === "dpop" ) {
+				throw new DPoPError( "invalid_token", "The access token is not DPoP-bound" );
+			}
+			if ( options.required ) {
+				throw new DPoPError( "invalid_token", "A DPoP-bound access token is required" );
+			}
+			return;
+		}
+
+		if ( scheme !== "dpop" ) {
+			throw new DPoPError( "invalid_token", "DPoP-bound access tokens must be sent with the DPoP authorization scheme" );
+		}
+		if ( request.proofs.length !== 1 ) {
+			throw new DPoPError( "invalid_dpop_proof", "Exactly one DPoP proof is required" );
+		}
+
+		let payload: JWTPayload;
+		let jwk: JWK | undefined;
+		try {
+			( { payload, protectedHeader: { jwk } } = await jwtVerify( request.proofs[0], EmbeddedJWK, {
+				typ: "dpop+jwt",
+				algorithms: options.algorithms,
+				maxTokenAge: options.proofMaxAgeSeconds,
+				clockTolerance: options.clockToleranceSeconds,
+				requiredClaims: [ "jti", "htm", "htu", "iat" ]
+			} ) );
+		} catch ( error ) {
+			throw new DPoPError( "invalid_dpop_proof", "Invalid DPoP proof", { cause: error } );
+		}
+
+		if ( payload.htm !== request.method ) {
+			throw new DPoPError( "invalid_dpop_proof", "DPoP proof htm does not match the request method" );
+		}
+		if ( typeof payload.htu !== "string" || normalizeUrl( payload.htu ) !== normalizeUrl( request.url ) ) {
+			throw new DPoPError( "invalid_dpop_proof", "DPoP proof htu does not match the request URL" );
+		}
+		const ath = createHash( "sha256" ).update( request.accessToken ).digest( "base64url" );
+		if ( payload.ath !== ath ) {
+			throw new DPoPError( "invalid_dpop_proof", "DPoP proof ath does not match the access token" );
+		}
+		if ( !jwk || await calculateJwkThumbprint( jwk ) !== jkt ) {
+			throw new DPoPError( "invalid_token", "The access token is not bound to the DPoP proof key" );
+		}
+		// Checked last, so only proofs that would otherwise be accepted take up room in the cache
+		if ( !remember( String( payload.jti ), payload.iat! ) ) {
+			throw new DPoPError( "invalid_dpop_proof", "DPoP proof has already been used" );
+		}
+	};
+}
@@ -0,0 +1,164 @@
+/**
+ * Deny-list of revoked grants and access tokens
+ *
+ * A JWT access token verifies until it expires, whatever happened to the grant it was issued
+ * under. The authorization server publishes what was revoked at /revocations (grants by ID,
+ * JWT access tokens by jti) and the API polls it, rejecting tokens on the list from then on.
+ * Consents revoked through the API are denied straight away, without waiting for the next poll;
+ * grants revoked on the authorization server alone are reported to the listener given to start().
+ */
+
+import type { JWTPayload } from "jose";
+import { z } from "zod";
+import { getRequiredEnvNumber } from "@apps/shared";
+import { formatZodError } from "@apps/shared/validation";
+import { CONSENT_ID_CLAIM } from "../middleware/consent.js";
+
+export interface RevocationListOptions {
+	issuer: string;
+	secret: string;  // CONSENT_API_SECRET; without it the authorization server isn't polled
+	pollIntervalMs: number;
+	timeoutMs: number;
+}
+export interface RevocationList {
+	isRevoked( claims: JWTPayload ): boolean;
+	revokeGrant( grantId: string ): void;
+	start( onGrantRevoked: ( grantId: string ) => void, onError: ( error: unknown ) => void ): Promise<void>;
+	stop(): void;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// How long a grant revoked through the API stays denied until the authorization server says how long its tokens live
+const LOCAL_GRANT_REVOCATION_MS = 24 * 60 * 60 * 1000;
+
+const revocationsResponseSchema = z.object( {
+	logId: z.string(),
+	sequence: z.number().int(),
+	revocations: z.array( z.object( {
+		sequence: z.number().int(),
+		type: z.enum( [ "grant", "token" ] ),
+		id: z.string(),
+		revokedAt: z.number(),
+		expiresAt: z.number()
+	} ) )
+} );
+
+/**
+ * Read the polling settings from the API_REVOCATION_* environment variables
+ */
+export function getRevocationListOptions( issuer: string, secret: string ): RevocationListOptions {
+	const pollSeconds = getRequiredEnvNumber( "API_REVOCATION_POLL_SECONDS", 5 );
+	if ( pollSeconds <= 0 ) {
+		throw new Error( "API_REVOCATION_POLL_SECONDS must be positive" );
+	}
+
+	return {
+		issuer,
+		secret,
+		pollIntervalMs: pollSeconds * 1000,
+		timeoutMs: REQUEST_TIMEOUT_MS
+	};
+}
+
+/**
+ * Create the deny-list. It only learns about revocations at the authorization server once it's started.
+ */
+export function createRevocationList( options: RevocationListOptions ): RevocationList {
+	// Revoked grant IDs and jtis, each with when the last token it concerns expires (ms since the epoch)
+	const grants = new Map<string, number>();
+	const tokens = new Map<string, number>();
+	let logId: string | undefined;
+	let sequence = 0;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let running = false;
+	let onGrantRevoked: Parameters<RevocationList["start"]>[0] = () => {};
+
+	function prune(): void {
+		const now = Date.now();
+		for ( const entries of [ grants, tokens ] ) {
+			for ( const [ id, expiresAt ] of entries ) {
+				if ( expiresAt <= now ) entries.delete( id );
+			}
+		}
+	}
+
+	async function fetchRevocations( after: number ): Promise<z.infer<typeof revocationsResponseSchema>> {
+		const url = new URL( `${ options.issuer }/revocations` );
+		url.searchParams.set( "after", String( after ) );
+		const response = await fetch( url, {
+			headers: { Authorization: `Bearer ${ options.secret }`, Accept: "application/json" },
+			signal: AbortSignal.timeout( options.timeoutMs )
+		} );
+		if ( !response.ok ) {
+			await response.body?.cancel();
+			throw new Error( `Authorization server responded with HTTP ${ response.status }` );
+		}
+		const result = revocationsResponseSchema.safeParse( await response.json() );
+		if ( !result.success ) {
+			throw new Error( `Invalid revocations from the authorization server: ${ formatZodError( result.error ) }` );
+		}
+		return result.data;
+	}
+
+	async function poll(): Promise<void> {
+		let result = await fetchRevocations( sequence );
+
+		// A different log, e.g. a new database or an authorization server with the memory adapter that
+		// restarted, numbers its revocations from the start; read it from the start, once. The second
+		// answer is taken whichever log it comes from, since it was read from the start as well.
+		if ( logId !== undefined && result.logId !== logId ) {
+			result = await fetchRevocations( 0 );
+		}
+		logId = result.logId;
+
+		prune();
+		const revokedGrants: string[] = [];
+		for ( const revocation of result.revocations ) {
+			// Grants the API revoked itself are denied already and were reported when they were revoked
+			if ( revocation.type === "grant" && !grants.has( revocation.id ) ) revokedGrants.push( revocation.id );
+			( revocation.type === "grant" ? grants : tokens ).set( revocation.id, revocation.expiresAt * 1000 );
+		}
+		sequence = result.sequence;
+		revokedGrants.forEach( ( grantId ) => onGrantRevoked( grantId ) );
+	}
+
+	function schedule( onError: Parameters<RevocationList["start"]>[1] ): void {
+		if ( !running ) return;
+		timer = setTimeout( () => {
+			poll()
+				.catch( onError )
+				.finally( () => schedule( onError ) );
+		}, options.pollIntervalMs );
+		timer.unref();
+	}
+
+	return {
+		isRevoked( claims ) {
+			const now = Date.now();
+			const grantId = claims[CONSENT_ID_CLAIM];
+			if ( typeof grantId === "string" && ( grants.get( grantId ) ?? 0 ) > now ) return true;
+			return typeof claims.jti === "string" && ( tokens.get( claims.jti ) ?? 0 ) > now;
+		},
+
+		revokeGrant( grantId ) {
+			if ( !grants.has( grantId ) ) {
+				grants.set( grantId, Date.now() + LOCAL_GRANT_REVOCATION_MS );
+			}
+		},
+
+		async start( grantListener, onError ) {
+			if ( !options.secret ) return;
+			onGrantRevoked = grantListener;
+			running = true;
+			// A failed first poll doesn't stop the API from starting; the next one tries again
+			await poll().catch( onError );
+			schedule( onError );
+		},
+
+		stop() {
+			running = false;
+			clearTimeout( timer );
+		}
+	};
+}
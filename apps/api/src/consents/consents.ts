@@ -0,0 +1,67 @@
+/**
+ * FDX consents built from the authorization server's grants
+ *
+ * The grant says which scopes and accounts the user agreed to share; the consent says the same
+ * in FDX terms: the parties, and the data clusters the scopes grant for each account and the customer.
+ */
+
+import { getRequiredEnv } from "@apps/shared";
+import { DATA_CLUSTER_DEFINITIONS, getDataClusters } from "@apps/shared/dataClusters";
+import type { ConsentResource, Party, StoredConsent } from "../data/types.js";
+import type { Grant } from "./grants.js";
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// The party holding the data: this API, which also publishes the notifications
+export const DATA_PROVIDER: Party = {
+	name: "Core Exchange",
+	type: "DATA_PROVIDER",
+	homeUri: getRequiredEnv( "API_HOST", "http://localhost" )
+};
+
+/**
+ * Build the consent a grant represents, given to the grant's client by the customer the grant's user signs in as
+ */
+export function toConsent( grant: Grant, customerId: string ): StoredConsent {
+	const clusters = [ ...getDataClusters( grant.scopes ) ];
+	const resources: ConsentResource[] = [];
+	const customerClusters = clusters.filter( ( cluster ) => DATA_CLUSTER_DEFINITIONS[cluster].resourceType === "CUSTOMER" );
+	if ( customerClusters.length > 0 ) {
+		resources.push( { resourceType: "CUSTOMER", resourceId: customerId, dataClusters: customerClusters } );
+	}
+	const accountClusters = clusters.filter( ( cluster ) => DATA_CLUSTER_DEFINITIONS[cluster].resourceType === "ACCOUNT" );
+	if ( accountClusters.length > 0 ) {
+		for ( const accountId of grant.accountIds ) {
+			resources.push( { resourceType: "ACCOUNT", resourceId: accountId, dataClusters: accountClusters } );
+		}
+	}
+
+	return {
+		id: grant.grantId,
+		status: "ACTIVE",
+		parties: [
+			{ name: grant.clientName ?? grant.clientId, type: "DATA_RECIPIENT" },
+			DATA_PROVIDER
+		],
+		createdTime: new Date( grant.iat * 1000 ).toISOString(),
+		...( grant.exp
+			? {
+				expirationTime: new Date( grant.exp * 1000 ).toISOString(),
+				durationType: "TIME_BOUND",
+				durationPeriod: Math.round( ( grant.exp - grant.iat ) / SECONDS_PER_DAY )
+			}
+			: { durationType: "PERSISTENT" } ),
+		resources,
+		clientId: grant.clientId,
+		customerId
+	};
+}
+
+/**
+ * Get the account IDs a consent shares
+ */
+export function getConsentAccountIds( consent: StoredConsent ): string[] {
+	return consent.resources
+		.filter( ( resource ) => resource.resourceType === "ACCOUNT" )
+		.map( ( resource ) => resource.resourceId );
+}
@@ -0,0 +1,77 @@
+/**
+ * Client for the authorization server's grant endpoints
+ *
+ * A grant is what the user agreed to on the consent screen: the client, the scopes and the
+ * accounts. apps/auth serves grants at /grants/{grantId} to callers presenting the shared
+ * CONSENT_API_SECRET, and access tokens carry the grant ID in their consent_id claim.
+ */
+
+import { z } from "zod";
+import { getRequiredEnv, getOptionalEnv } from "@apps/shared";
+import { formatZodError } from "@apps/shared/validation";
+
+const ISSUER = getRequiredEnv( "OP_ISSUER", "https://id.localtest.me" );
+const CONSENT_API_SECRET = getOptionalEnv( "CONSENT_API_SECRET", "" );
+const REQUEST_TIMEOUT_MS = 10000;
+
+const grantSchema = z.object( {
+	grantId: z.string(),
+	clientId: z.string(),
+	clientName: z.string().optional(),
+	accountId: z.string(),  // The user's subject
+	scopes: z.array( z.string() ),  // Scopes granted for the API
+	accountIds: z.array( z.string() ),
+	iat: z.number(),
+	exp: z.number().optional()
+} );
+
+export type Grant = z.infer<typeof grantSchema>;
+
+/**
+ * Check whether CONSENT_API_SECRET is set; without it the authorization server won't serve grants
+ */
+export function isGrantsApiConfigured(): boolean {
+	return CONSENT_API_SECRET !== "";
+}
+
+async function request( method: "GET" | "DELETE", grantId: string ): Promise<Response | null> {
+	if ( !isGrantsApiConfigured() ) {
+		throw new Error( "CONSENT_API_SECRET is not configured" );
+	}
+	const response = await fetch( `${ ISSUER }/grants/${ encodeURIComponent( grantId ) }`, {
+		method,
+		headers: { Authorization: `Bearer ${ CONSENT_API_SECRET }`, Accept: "application/json" },
+		signal: AbortSignal.timeout( REQUEST_TIMEOUT_MS )
+	} );
+	if ( response.status === 404 ) {
+		await response.body?.cancel();
+		return null;
+	}
+	if ( !response.ok ) {
+		await response.body?.cancel();
+		throw new Error( `Authorization server responded with HTTP ${ response.status }` );
+	}
+	return response;
+}
+
+/**
+ * Get a grant from the authorization server. Returns null when it doesn't exist, expired or was revoked.
+ */
+export async function getGrant( grantId: string ): Promise<Grant | null> {
+	const response = await request( "GET", grantId );
+	if ( !response ) return null;
+
+	const result = grantSchema.safeParse( await response.json() );
+	if ( !result.success ) {
+		throw new Error( `Invalid grant from the authorization server: ${ formatZodError( result.error ) }` );
+	}
+	return result.data;
+}
+
+/**
+ * Revoke a grant on the authorization server, with the tokens issued under it.
+ * Returns false when there was no such grant.
+ */
+export async function revokeGrant( grantId: string ): Promise<boolean> {
+	return !!await request( "DELETE", grantId );
+}
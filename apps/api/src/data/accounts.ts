@@ -1,5 +1,7 @@
+import type { Account, AccountContact, Statement, Transaction, Holding, PaymentNetwork, AssetTransferNetwork } from "./types.js";
+
 // Mock data for accounts
-export const accounts = [
+export const accounts: Account[] = [
 	{
 		accountCategory: "DEPOSIT_ACCOUNT",
 		accountId: "account-123",
@@ -11,8 +13,8 @@ export const accounts = [
 			currencyCode: "USD"
 		},
 		accountType: "CHECKING",
-		currentBalance: 2549.75,
-		availableBalance: 2549.75
+		currentBalance: 6549.75,  // Consistent with the posted transactions, so statements never open below zero
+		availableBalance: 6544.00  // Less the pending debit card transaction
 	},
 	{
 		accountCategory: "DEPOSIT_ACCOUNT",
@@ -162,11 +164,47 @@ export const accounts = [
 		originalPrincipal: 32000.00,
 		interestRate: 4.5,  // Required
 		interestRateType: "FIXED"  // Required
+	},
+	{
+		accountCategory: "INVESTMENT_ACCOUNT",
+		accountId: "account-701",
+		accountNumberDisplay: "7701",
+		nickname: "Brokerage",
+		productName: "Self-Directed Brokerage",
+		status: "OPEN",
+		currency: {
+			currencyCode: "USD"
+		},
+		accountType: "BROKERAGE",
+		balanceAsOf: "2025-12-31T21:00:00.000Z",
+		currentValue: 48731.40,  // Market value of holdings plus cash
+		availableCashBalance: 2150.00,
+		margin: true,
+		marginBalance: 0,
+		shortBalance: 0,
+		allowedCheckWriting: false
+	},
+	{
+		accountCategory: "INVESTMENT_ACCOUNT",
+		accountId: "account-702",
+		accountNumberDisplay: "7702",
+		nickname: "Retirement",
+		productName: "Rollover IRA",
+		status: "OPEN",
+		currency: {
+			currencyCode: "USD"
+		},
+		accountType: "ROLLOVER",
+		balanceAsOf: "2025-12-31T21:00:00.000Z",
+		currentValue: 126482.15,
+		availableCashBalance: 1250.00,
+		margin: false,
+		allowedCheckWriting: false
 	}
 ];
 
 // Mock data for account contacts
-export const accountContacts = {
+export const accountContacts: Record<string, AccountContact> = {
 	"account-123": {
 		holders: [
 			{
@@ -566,29 +604,103 @@ export const accountContacts = {
 				network: "CELLULAR"
 			}
 		]
+	},
+	"account-701": {
+		holders: [
+			{
+				relationship: "SOLE_OWNER",
+				name: {
+					first: "Toni",
+					middle: "Chloe",
+					last: "Morrison"
+				}
+			}
+		],
+		emails: [
+			"toni.morrison@domain.tld"
+		],
+		addresses: [
+			{
+				line1: "2245 Elyria Avenue",
+				city: "Lorain",
+				region: "OH",
+				postalCode: "44052",
+				country: "US"
+			}
+		],
+		telephones: [
+			{
+				type: "PERSONAL",
+				country: "1",
+				number: "4405551212",
+				network: "CELLULAR"
+			}
+		]
+	},
+	"account-702": {
+		holders: [
+			{
+				relationship: "SOLE_OWNER",
+				name: {
+					first: "Toni",
+					middle: "Chloe",
+					last: "Morrison"
+				}
+			}
+		],
+		emails: [
+			"toni.morrison@domain.tld"
+		],
+		addresses: [
+			{
+				line1: "2245 Elyria Avenue",
+				city: "Lorain",
+				region: "OH",
+				postalCode: "44052",
+				country: "US"
+			}
+		],
+		telephones: [
+			{
+				type: "PERSONAL",
+				country: "1",
+				number: "4405551212",
+				network: "CELLULAR"
+			}
+		]
 	}
 };
 
 // Mock data for account statements
-export const accountStatements = {
+// Each statement covers the days after the previous statementDate up to its own statementDate
+export const accountStatements: Record<string, Statement[]> = {
 	"account-123": [
 		{
 			accountId: "account-123",
 			statementId: "20001",
-			statementDate: "2024-01-15",
-			description: "January 2024 Monthly Statement",
+			statementDate: "2024-12-31",
+			description: "December 2024 Monthly Statement",
 			links: [
 				{
-					href: "/accounts/10001/statements/20001",
+					href: "/accounts/account-123/statements/20001",
 					rel: "self",
 					action: "GET",
 					types: [
 						"application/pdf"
 					]
-				},
+				}
+			],
+			status: "AVAILABLE"
+		},
+		{
+			accountId: "account-123",
+			statementId: "20002",
+			statementDate: "2025-01-31",
+			description: "January 2025 Monthly Statement",
+			links: [
 				{
-					href: "/accounts/10001/statements/20001/download",
-					rel: "download",
+					href: "/accounts/account-123/statements/20002",
+					rel: "self",
 					action: "GET",
 					types: [
 						"application/pdf"
@@ -598,13 +710,13 @@ export const accountStatements = {
 			status: "AVAILABLE"
 		},
 		{
-			accountId: "10001",
-			statementId: "20002",
-			statementDate: "2024-02-15",
-			description: "February 2024 Monthly Statement",
+			accountId: "account-123",
+			statementId: "20003",
+			statementDate: "2025-02-28",
+			description: "February 2025 Monthly Statement",
 			links: [
 				{
-					href: "/accounts/10001/statements/20002",
+					href: "/accounts/account-123/statements/20003",
 					rel: "self",
 					action: "GET",
 					types: [
@@ -619,7 +731,7 @@ export const accountStatements = {
 
 // Mock data for account transactions
 // Dates spread across multiple months to ensure validator date ranges find results
-export const accountTransactions = {
+export const accountTransactions: Record<string, Transaction[]> = {
 	"account-123": [
 		{
 			accountCategory: "DEPOSIT_ACCOUNT",
@@ -745,13 +857,303 @@ export const accountTransactions = {
 			debitCreditMemo: "CREDIT",
 			status: "POSTED",
 			amount: 500.00
+		},
+		{
+			accountCategory: "DEPOSIT_ACCOUNT",
+			transactionType: "INTEREST",
+			transactionId: "depositTransaction000000012",
+			postedTimestamp: "2025-12-31T00:00:00.000Z",
+			transactionTimestamp: "2025-12-31T00:00:00.000Z",
+			description: "Interest paid",
+			debitCreditMemo: "CREDIT",
+			status: "POSTED",
+			amount: 14.37
+		}
+	],
+	"account-701": [
+		{
+			accountCategory: "INVESTMENT_ACCOUNT",
+			transactionType: "PURCHASED",
+			transactionId: "investmentTransaction000000001",
+			postedTimestamp: "2025-01-08T00:00:00.000Z",
+			transactionTimestamp: "2025-01-06T14:32:00.000Z",
+			description: "Bought 10 AAPL @ 245.10",
+			debitCreditMemo: "DEBIT",
+			status: "POSTED",
+			amount: 2451.00,
+			securityId: "037833100",
+			securityIdType: "CUSIP",
+			securityType: "STOCK",
+			symbol: "AAPL",
+			units: 10,
+			unitPrice: 245.10,
+			commission: 0,
+			fees: 0,
+			subAccountSec: "CASH",
+			subAccountFund: "CASH",
+			positionType: "LONG"
+		},
+		{
+			accountCategory: "INVESTMENT_ACCOUNT",
+			transactionType: "DIVIDEND",
+			transactionId: "investmentTransaction000000002",
+			postedTimestamp: "2025-03-13T00:00:00.000Z",
+			transactionTimestamp: "2025-03-13T00:00:00.000Z",
+			description: "MICROSOFT CORP dividend",
+			debitCreditMemo: "CREDIT",
+			status: "POSTED",
+			amount: 24.90,
+			securityId: "594918104",
+			securityIdType: "CUSIP",
+			securityType: "STOCK",
+			symbol: "MSFT",
+			subAccountSec: "CASH",
+			subAccountFund: "CASH",
+			incomeType: "DIV"
+		},
+		{
+			accountCategory: "INVESTMENT_ACCOUNT",
+			transactionType: "SOLD",
+			transactionId: "investmentTransaction000000003",
+			postedTimestamp: "2025-06-03T00:00:00.000Z",
+			transactionTimestamp: "2025-06-02T15:05:00.000Z",
+			description: "Sold 5 VTI @ 285.30",
+			debitCreditMemo: "CREDIT",
+			status: "POSTED",
+			amount: 1426.47,
+			securityId: "922908769",
+			securityIdType: "CUSIP",
+			securityType: "MUTUALFUND",
+			symbol: "VTI",
+			units: 5,
+			unitPrice: 285.30,
+			commission: 0,
+			fees: 0.03,  // SEC transaction fee
+			subAccountSec: "CASH",
+			subAccountFund: "CASH",
+			positionType: "LONG"
+		},
+		{
+			accountCategory: "INVESTMENT_ACCOUNT",
+			transactionType: "INTEREST",
+			transactionId: "investmentTransaction000000004",
+			postedTimestamp: "2025-12-01T00:00:00.000Z",
+			transactionTimestamp: "2025-12-01T00:00:00.000Z",
+			description: "Interest on cash balance",
+			debitCreditMemo: "CREDIT",
+			status: "POSTED",
+			amount: 6.12,
+			subAccountFund: "CASH",
+			incomeType: "INTEREST"
+		},
+		{
+			accountCategory: "INVESTMENT_ACCOUNT",
+			transactionType: "PURCHASED",
+			transactionId: "investmentTransaction000000005",
+			postedTimestamp: "2025-12-31T00:00:00.000Z",
+			transactionTimestamp: "2025-12-30T16:10:00.000Z",
+			description: "Bought 5 MSFT @ 480.10",
+			debitCreditMemo: "DEBIT",
+			status: "PENDING",
+			amount: 2400.50,
+			securityId: "594918104",
+			securityIdType: "CUSIP",
+			securityType: "STOCK",
+			symbol: "MSFT",
+			units: 5,
+			unitPrice: 480.10,
+			commission: 0,
+			fees: 0,
+			subAccountSec: "CASH",
+			subAccountFund: "CASH",
+			positionType: "LONG"
+		}
+	],
+	"account-702": [
+		{
+			accountCategory: "INVESTMENT_ACCOUNT",
+			transactionType: "CONTRIBUTION",
+			transactionId: "investmentTransaction000000006",
+			postedTimestamp: "2025-01-15T00:00:00.000Z",
+			transactionTimestamp: "2025-01-15T00:00:00.000Z",
+			description: "Rollover contribution",
+			debitCreditMemo: "CREDIT",
+			status: "POSTED",
+			amount: 7000.00,
+			subAccountFund: "CASH"
+		},
+		{
+			accountCategory: "INVESTMENT_ACCOUNT",
+			transactionType: "PURCHASED",
+			transactionId: "investmentTransaction000000007",
+			postedTimestamp: "2025-01-17T00:00:00.000Z",
+			transactionTimestamp: "2025-01-16T21:00:00.000Z",
+			description: "Bought 11.2 VFIAX @ 530.25",
+			debitCreditMemo: "DEBIT",
+			status: "POSTED",
+			amount: 5938.80,
+			securityId: "922908710",
+			securityIdType: "CUSIP",
+			securityType: "MUTUALFUND",
+			symbol: "VFIAX",
+			units: 11.2,
+			unitPrice: 530.25,
+			commission: 0,
+			fees: 0,
+			subAccountSec: "CASH",
+			subAccountFund: "CASH",
+			positionType: "LONG"
+		},
+		{
+			accountCategory: "INVESTMENT_ACCOUNT",
+			transactionType: "REINVESTOFINCOME",
+			transactionId: "investmentTransaction000000008",
+			postedTimestamp: "2025-06-30T00:00:00.000Z",
+			transactionTimestamp: "2025-06-30T00:00:00.000Z",
+			description: "Dividend reinvestment VBTLX",
+			debitCreditMemo: "DEBIT",
+			status: "POSTED",
+			amount: 208.98,
+			securityId: "921937603",
+			securityIdType: "CUSIP",
+			securityType: "MUTUALFUND",
+			symbol: "VBTLX",
+			units: 21.5,
+			unitPrice: 9.72,
+			subAccountSec: "CASH",
+			subAccountFund: "CASH",
+			positionType: "LONG",
+			incomeType: "DIV"
+		}
+	]
+};
+
+// Mock data for investment account holdings (positions)
+// Market values add up to each account's currentValue less its availableCashBalance
+export const accountHoldings: Record<string, Holding[]> = {
+	"account-701": [
+		{
+			holdingId: "holding-701-1",
+			securityIds: [
+				{ id: "037833100", idType: "CUSIP" },
+				{ id: "US0378331005", idType: "ISIN" }
+			],
+			holdingName: "Apple Inc.",
+			holdingType: "STOCK",
+			positionType: "LONG",
+			heldInAccount: "CASH",
+			description: "APPLE INC COM",
+			symbol: "AAPL",
+			originalPurchaseDate: "2019-03-11",
+			purchasedPrice: 44.18,
+			currentUnitPrice: 250.42,
+			currentUnitPriceDate: "2025-12-31",
+			units: 100,
+			marketValue: 25042.00,
+			averageCost: 118.64,
+			currency: {
+				currencyCode: "USD"
+			}
+		},
+		{
+			holdingId: "holding-701-2",
+			securityIds: [
+				{ id: "594918104", idType: "CUSIP" },
+				{ id: "US5949181045", idType: "ISIN" }
+			],
+			holdingName: "Microsoft Corporation",
+			holdingType: "STOCK",
+			positionType: "LONG",
+			heldInAccount: "CASH",
+			description: "MICROSOFT CORP COM",
+			symbol: "MSFT",
+			originalPurchaseDate: "2020-08-24",
+			purchasedPrice: 213.69,
+			currentUnitPrice: 483.62,
+			currentUnitPriceDate: "2025-12-31",
+			units: 30,
+			marketValue: 14508.60,
+			averageCost: 301.15,
+			currency: {
+				currencyCode: "USD"
+			}
+		},
+		{
+			holdingId: "holding-701-3",
+			securityIds: [
+				{ id: "922908769", idType: "CUSIP" },
+				{ id: "US9229087690", idType: "ISIN" }
+			],
+			holdingName: "Vanguard Total Stock Market ETF",
+			holdingType: "MUTUALFUND",
+			holdingSubType: "ETF",
+			positionType: "LONG",
+			heldInAccount: "CASH",
+			description: "VANGUARD TOTAL STOCK MARKET ETF",
+			symbol: "VTI",
+			originalPurchaseDate: "2021-02-01",
+			purchasedPrice: 198.40,
+			currentUnitPrice: 292.95,
+			currentUnitPriceDate: "2025-12-31",
+			units: 24,
+			marketValue: 7030.80,
+			averageCost: 212.77,
+			currency: {
+				currencyCode: "USD"
+			}
+		}
+	],
+	"account-702": [
+		{
+			holdingId: "holding-702-1",
+			securityIds: [
+				{ id: "922908710", idType: "CUSIP" }
+			],
+			holdingName: "Vanguard 500 Index Fund Admiral Shares",
+			holdingType: "MUTUALFUND",
+			positionType: "LONG",
+			heldInAccount: "CASH",
+			description: "VANGUARD 500 INDEX ADMIRAL",
+			symbol: "VFIAX",
+			originalPurchaseDate: "2016-05-02",
+			purchasedPrice: 190.62,
+			currentUnitPrice: 620.40,
+			currentUnitPriceDate: "2025-12-31",
+			units: 150.5,
+			marketValue: 93370.20,
+			averageCost: 312.08,
+			currency: {
+				currencyCode: "USD"
+			}
+		},
+		{
+			holdingId: "holding-702-2",
+			securityIds: [
+				{ id: "921937603", idType: "CUSIP" }
+			],
+			holdingName: "Vanguard Total Bond Market Index Fund Admiral Shares",
+			holdingType: "MUTUALFUND",
+			positionType: "LONG",
+			heldInAccount: "CASH",
+			description: "VANGUARD TOTAL BOND MARKET INDEX ADMIRAL",
+			symbol: "VBTLX",
+			originalPurchaseDate: "2016-05-02",
+			purchasedPrice: 10.78,
+			currentUnitPrice: 9.80,
+			currentUnitPriceDate: "2025-12-31",
+			units: 3250,
+			marketValue: 31850.00,
+			averageCost: 10.21,
+			currency: {
+				currencyCode: "USD"
+			}
 		}
 	]
 };
 
 // Mock data for account payment networks
 // All deposit accounts need at least one payment network per FDX spec (minItems: 1)
-export const accountPaymentNetworks: Record<string, Array<{ bankId: string; identifier: string; type: string; transferIn: boolean; transferOut: boolean }>> = {
+export const accountPaymentNetworks: Record<string, PaymentNetwork[]> = {
 	"account-123": [
 		{
 			bankId: "010088889",
@@ -828,7 +1230,7 @@ export const accountPaymentNetworks: Record<string, Array<{ bankId: string; iden
 
 // Mock data for account asset transfer networks (different schema from payment networks)
 // Only investment accounts typically have asset transfer networks
-export const accountAssetTransferNetworks: Record<string, Array<{ identifier: string; identifierType: string; institutionId: string; institutionName: string; jointAccount: boolean; type: string }>> = {
+export const accountAssetTransferNetworks: Record<string, AssetTransferNetwork[]> = {
 	"account-123": [
 		{
 			identifier: "1111222233335820",
@@ -908,5 +1310,25 @@ export const accountAssetTransferNetworks: Record<string, Array<{ identifier: st
 			jointAccount: false,
 			type: "US_DTC"
 		}
+	],
+	"account-701": [
+		{
+			identifier: "1111222233337701",
+			identifierType: "ACCOUNT_NUMBER",
+			institutionId: "0123",
+			institutionName: "Example Financial",
+			jointAccount: false,
+			type: "US_DTC"
+		}
+	],
+	"account-702": [
+		{
+			identifier: "1111222233337702",
+			identifierType: "ACCOUNT_NUMBER",
+			institutionId: "0123",
+			institutionName: "Example Financial",
+			jointAccount: false,
+			type: "US_DTC"
+		}
 	]
 };
@@ -1,260 +1,54 @@
-import { accounts, accountContacts, accountStatements, accountTransactions, accountPaymentNetworks, accountAssetTransferNetworks } from "./accounts.js";
-
-// Type definitions
-interface Currency {
-	currencyCode: string;
-}
-
-interface Account {
-	accountCategory: string;
-	accountId: string;
-	accountNumberDisplay: string;
-	productName: string;
-	status: string;
-	currency: Currency;
-	accountType: string;
-	currentBalance: number;
-	availableBalance?: number;  // Optional - not present on all account types
-	// Line of Credit fields
-	availableCredit?: number;
-	creditLine?: number;
-	// Loan fields
-	accountNumber?: string;
-	principalBalance?: number;
-	originalPrincipal?: number;
-	interestRate?: number;
-	interestRateType?: string;
-	loanTerm?: number;
-}
-
-interface Name {
-	first: string;
-	middle?: string;
-	last: string;
-	suffix?: string;
-}
-
-interface Holder {
-	relationship: string;
-	name: Name;
-}
-
-interface Address {
-	line1: string;
-	line2?: string;
-	city: string;
-	region: string;
-	postalCode: string;
-	country: string;
-}
-
-interface Telephone {
-	type: string;
-	country: string;
-	number: string;
-}
-
-interface AccountContact {
-	holders: Holder[];
-	emails: string[];
-	addresses: Address[];
-	telephones: Telephone[];
-}
-
-interface Link {
-	href: string;
-	rel: string;
-	action: string;
-	types: string[];
-}
-
-interface Statement {
-	accountId: string;
-	statementId: string;
-	statementDate: string;
-	description: string;
-	links: Link[];
-	status: string;
-}
-
-interface Transaction {
-	accountCategory: string;
-	transactionType: string;
-	checkNumber?: number;
-	payee?: string;
-	transactionId: string;
-	postedTimestamp: string;
-	transactionTimestamp: string;
-	description: string;
-	debitCreditMemo: string;
-	status: string;
-	amount: number;
-}
-
-interface PaymentNetwork {
-	bankId: string;
-	identifier: string;
-	type: string;
-	transferIn: boolean;
-	transferOut: boolean;
-}
-
-interface AssetTransferNetwork {
-	identifier: string;
-	identifierType?: "ACCOUNT_NUMBER" | "TOKENIZED_ACCOUNT_NUMBER";
-	institutionId: string;
-	institutionName?: string;
-	jointAccount?: boolean;
-	type: "CA_ATON" | "US_ACATS" | "US_DTC";
-}
-
-interface PaginatedAccountsResult {
-	accounts: Account[];
-	total: number;
-}
-
-interface PaginatedStatementsResult {
-	statements: Statement[];
-	total: number;
-}
-
-interface PaginatedTransactionsResult {
-	transactions: Transaction[];
-	total: number;
-}
-
-interface PaginatedPaymentNetworksResult {
-	paymentNetworks: PaymentNetwork[];
-	total: number;
-}
-
-interface PaginatedAssetTransferNetworksResult {
-	assetTransferNetworks: AssetTransferNetwork[];
-	total: number;
-}
-
-// Simulating async database operations with promises
+import { getDataStore } from "./stores/index.js";
+import type {
+	Account,
+	AccountContact,
+	Statement,
+	PaginatedAccountsResult,
+	PaginatedStatementsResult,
+	PaginatedHoldingsResult,
+	PaginatedTransactionsResult,
+	TransactionFilters,
+	PaginatedPaymentNetworksResult,
+	PaginatedAssetTransferNetworksResult,
+	PageRequest
+} from "./types.js";
 
 /**
- * Get all accounts with pagination support
+ * Get all accounts held by a customer with pagination support
+ * Optionally restricted to a set of account IDs (e.g. the accounts consented for a token)
  */
-export async function getAccounts( offset = 0, limit = 10 ): Promise<PaginatedAccountsResult> {
-	// Simulate database query delay
-	return new Promise<PaginatedAccountsResult>( ( resolve ) => {
-		setTimeout( () => {
-			const paginatedAccounts = accounts.slice( offset, offset + limit );
-			resolve( {
-				accounts: paginatedAccounts,
-				total: accounts.length
-			} );
-		}, 100 ); // Simulate 100ms delay
-	} );
+export async function getAccounts( customerId: string, page: PageRequest = { limit: 10 }, accountIds?: string[] ): Promise<PaginatedAccountsResult> {
+	return ( await getDataStore() ).getAccounts( customerId, page, accountIds );
 }
 
-export async function getAccountById( accountId: string ): Promise<Account | null> {
-	// Simulate database query delay
-	return new Promise<Account | null>( ( resolve ) => {
-		setTimeout( () => {
-			const account = accounts.find( ( acc: Account ) => acc.accountId === accountId );
-			resolve( account || null );
-		}, 50 ); // Simulate 50ms delay
-	} );
+export async function getAccountById( customerId: string, accountId: string ): Promise<Account | null> {
+	return ( await getDataStore() ).getAccountById( customerId, accountId );
 }
 
-/**
- * Get account contact information by account ID
- */
-export async function getAccountContactById( accountId: string ): Promise<AccountContact | null> {
-	// Simulate database query delay
-	return new Promise<AccountContact | null>( ( resolve ) => {
-		setTimeout( () => {
-			const contactInfo = ( accountContacts as Record<string, AccountContact> )[accountId];
-			resolve( contactInfo || null );
-		}, 50 ); // Simulate 50ms delay
-	} );
+export async function getAccountContactById( customerId: string, accountId: string ): Promise<AccountContact | null> {
+	return ( await getDataStore() ).getAccountContactById( customerId, accountId );
 }
 
-/**
- * Get account statements with pagination and optional time filtering
- */
-export async function getAccountStatements( accountId: string, offset = 0, limit = 100, startTime = "", endTime = "" ): Promise<PaginatedStatementsResult> {
-	return new Promise<PaginatedStatementsResult>( ( resolve ) => {
-		setTimeout( () => {
-			const startDate = startTime ? new Date( startTime ) : new Date( 0 );
-			const endDate = endTime ? new Date( endTime ) : new Date( 8640000000000000 ); // Max date
+export async function getAccountStatements( customerId: string, accountId: string, page: PageRequest = { limit: 100 }, startTime = "", endTime = "" ): Promise<PaginatedStatementsResult> {
+	return ( await getDataStore() ).getAccountStatements( customerId, accountId, page, startTime, endTime );
+}
 
-			// Filter statements by startTime and endTime (assumes validated in route)
-			const statementsForAccount = ( accountStatements as Record<string, Statement[]> )[accountId] || [];
-			const statements = statementsForAccount.filter( ( statement: Statement ) => {
-				const statementDate = new Date( statement.statementDate );
-				return statementDate >= startDate && statementDate <= endDate;
-			} );
-			const paginatedStatements = statements.slice( offset, offset + limit );
-			resolve( {
-				statements: paginatedStatements,
-				total: statements.length
-			} );
-		}, 100 ); // Simulate 100ms delay
-	} );
+export async function getAccountStatementById( customerId: string, accountId: string, statementId: string ): Promise<Statement | null> {
+	return ( await getDataStore() ).getAccountStatementById( customerId, accountId, statementId );
 }
 
-/**
- * Get a single account statement by ID
- */
-export async function getAccountStatementById( accountId: string, statementId: string ): Promise<Statement | null> {
-	return new Promise<Statement | null>( ( resolve ) => {
-		setTimeout( () => {
-			const statementsForAccount = ( accountStatements as Record<string, Statement[]> )[accountId] || [];
-			const statement = statementsForAccount.find( ( s: Statement ) => s.statementId === statementId ) || null;
-			resolve( statement );
-		}, 50 );
-	} );
+export async function getAccountTransactions( customerId: string, accountId: string, page: PageRequest = { limit: 100 }, filters: TransactionFilters = {} ): Promise<PaginatedTransactionsResult> {
+	return ( await getDataStore() ).getAccountTransactions( customerId, accountId, page, filters );
 }
 
-/**
- * Get account transactions with pagination and optional time filtering
- */
-export async function getAccountTransactions( accountId: string, offset = 0, limit = 100, startTime = "", endTime = "" ): Promise<PaginatedTransactionsResult> {
-	return new Promise<PaginatedTransactionsResult>( ( resolve ) => {
-		setTimeout( () => {
-			const startDate = startTime ? new Date( startTime ) : new Date( 0 );
-			const endDate = endTime ? new Date( endTime ) : new Date( 8640000000000000 );
-			const transactionsForAccount = ( accountTransactions as Record<string, Transaction[]> )[accountId] || [];
-			const filtered = transactionsForAccount.filter( ( tx: Transaction ) => {
-				const txDate = new Date( tx.postedTimestamp );
-				return txDate >= startDate && txDate <= endDate;
-			} );
-			const paginated = filtered.slice( offset, offset + limit );
-			resolve( {
-				transactions: paginated,
-				total: filtered.length
-			} );
-		}, 100 );
-	} );
+export async function getAccountHoldings( customerId: string, accountId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedHoldingsResult> {
+	return ( await getDataStore() ).getAccountHoldings( customerId, accountId, page );
 }
 
-/**
- * Get payment networks for an account with pagination
- */
-export async function getPaymentNetworks( accountId: string, offset = 0, limit = 100 ): Promise<PaginatedPaymentNetworksResult> {
-	return new Promise<PaginatedPaymentNetworksResult>( ( resolve ) => {
-		setTimeout( () => {
-			const networks = ( accountPaymentNetworks as Record<string, PaymentNetwork[]> )[accountId] || [];
-			const paginated = networks.slice( offset, offset + limit );
-			resolve( { paymentNetworks: paginated, total: networks.length } );
-		}, 100 );
-	} );
+export async function getPaymentNetworks( customerId: string, accountId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedPaymentNetworksResult> {
+	return ( await getDataStore() ).getPaymentNetworks( customerId, accountId, page );
 }
 
-/**
- * Get asset transfer networks for an account with pagination
- */
-export async function getAssetTransferNetworks( accountId: string, offset = 0, limit = 100 ): Promise<PaginatedAssetTransferNetworksResult> {
-	return new Promise<PaginatedAssetTransferNetworksResult>( ( resolve ) => {
-		setTimeout( () => {
-			const networks = ( accountAssetTransferNetworks as Record<string, AssetTransferNetwork[]> )[accountId] || [];
-			const paginated = networks.slice( offset, offset + limit );
-			resolve( { assetTransferNetworks: paginated, total: networks.length } );
-		}, 100 );
-	} );
+export async function getAssetTransferNetworks( customerId: string, accountId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedAssetTransferNetworksResult> {
+	return ( await getDataStore() ).getAssetTransferNetworks( customerId, accountId, page );
 }
@@ -0,0 +1,16 @@
+import { getDataStore } from "./stores/index.js";
+import type { StoredConsent } from "./types.js";
+
+/**
+ * Get the consent as the API last recorded it, if the client was given one with that ID
+ */
+export async function getRecordedConsent( clientId: string, consentId: string ): Promise<StoredConsent | null> {
+	return ( await getDataStore() ).getConsent( clientId, consentId );
+}
+
+/**
+ * Record a consent. Saving a revoked consent notifies the subscriptions created under it.
+ */
+export async function saveConsent( consent: StoredConsent ): Promise<void> {
+	return ( await getDataStore() ).saveConsent( consent );
+}
@@ -1,5 +1,7 @@
+import type { Customer } from "./types.js";
+
 // Mock customer data
-export const customers = [
+export const customers: Customer[] = [
 	{
 		customerId: "customer-123",
 		name: "Current Customer",
@@ -34,3 +36,30 @@ export const customers = [
 		}
 	}
 ];
+
+// Maps OAuth subject identifiers (the `sub` claim issued by apps/auth) to customers
+export const customerSubjects: Record<string, string> = {
+	"user_123": "customer-123",
+	"user_456": "customer-456"
+};
+
+// Mock data for account ownership - the accounts each customer holds
+export const customerAccounts: Record<string, string[]> = {
+	"customer-123": [
+		"account-123",
+		"account-456",
+		"account-789",
+		"account-101",
+		"account-202",
+		"account-303",
+		"account-404",
+		"account-505",
+		"account-601",
+		"account-602",
+		"account-603",
+		"account-701",
+		"account-702"
+	],
+	"customer-456": [],
+	"customer-789": []
+};
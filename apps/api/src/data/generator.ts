@@ -0,0 +1,868 @@
+/**
+ * Seeded synthetic data generator
+ *
+ * Builds a dataset in the shape of the fixtures: customers with contacts, accounts of every
+ * supported accountType, payment and asset transfer networks, holdings, several years of
+ * transactions and a statement for every month. Customers get paychecks, recurring bills,
+ * card spending at merchants, transfers between their own accounts, loan payments, interest,
+ * and trades and dividends in their investment accounts. Balances are worked forward from
+ * the opening balances, so statements and tax forms derived from the transactions add up.
+ *
+ * The same options always produce the same dataset, and every customer draws from their own
+ * seeded stream, so changing the number of customers doesn't change the others.
+ */
+
+import { z } from "zod";
+import { createRandom, type Random } from "../utils/random.js";
+import type {
+	Account,
+	AccountContact,
+	Customer,
+	Dataset,
+	Holding,
+	Statement,
+	Transaction
+} from "./types.js";
+
+export interface GeneratorOptions {
+	seed: number;
+	customers: number;  // The first two belong to the apps/auth sign-in users user_123 and user_456
+	years: number;  // Years of history, ending at endDate
+	endDate: string;  // Last day of history (YYYY-MM-DD)
+}
+
+// Validates options given on the command line or in the environment, where numbers arrive as strings
+export const generatorOptionsSchema: z.ZodType<GeneratorOptions> = z.object( {
+	seed: z.coerce.number().int(),
+	customers: z.coerce.number().int().min( 1 ).max( 1000 ),
+	years: z.coerce.number().int().min( 1 ).max( 10 ),
+	endDate: z.iso.date()
+} );
+
+export const DEFAULT_GENERATOR_OPTIONS: GeneratorOptions = {
+	seed: 1,
+	customers: 10,
+	years: 2,
+	endDate: "2025-12-31"
+};
+
+// OAuth subjects of the apps/auth users, in the order they're assigned to customers
+const SUBJECTS = [ "user_123", "user_456" ];
+
+// Routing number and institution the accounts are held at, as in the fixtures
+const BANK_ID = "010088889";
+const INSTITUTION_ID = "0123";
+const INSTITUTION_NAME = "Example Financial";
+
+interface AccountProduct {
+	accountCategory: string;
+	accountType: string;
+	productNames: string[];
+	nicknames: string[];
+	interestRate?: number;  // Annual rate paid on the balance
+	// The account the apps/auth consent screen offers user_123 for this type, so the first
+	// customer's accounts can be shared through the real sign-in flow
+	consentAccount: { accountId: string; nickname: string; accountNumberDisplay: string };
+}
+
+// Every accountType the API serves, with the products offered for each
+const ACCOUNT_PRODUCTS: AccountProduct[] = [
+	{
+		accountCategory: "DEPOSIT_ACCOUNT", accountType: "CHECKING",
+		productNames: [ "Everyday Checking", "Premier Checking", "Student Checking" ], nicknames: [ "Checking", "Bills", "Main Account" ],
+		consentAccount: { accountId: "account-123", nickname: "My Checking", accountNumberDisplay: "0123" }
+	},
+	{
+		accountCategory: "DEPOSIT_ACCOUNT", accountType: "HIGHINTERESTSAVINGSACCOUNT", interestRate: 0.042,
+		productNames: [ "High-Yield Savings" ], nicknames: [ "Emergency Fund", "Savings" ],
+		consentAccount: { accountId: "account-456", nickname: "Emergency Fund", accountNumberDisplay: "0456" }
+	},
+	{
+		accountCategory: "DEPOSIT_ACCOUNT", accountType: "CD", interestRate: 0.045,
+		productNames: [ "12-Month CD", "24-Month CD" ], nicknames: [ "CD", "House Down Payment" ],
+		consentAccount: { accountId: "account-789", nickname: "House Down Payment", accountNumberDisplay: "0789" }
+	},
+	{
+		accountCategory: "DEPOSIT_ACCOUNT", accountType: "ESCROW",
+		productNames: [ "Home Purchase Escrow" ], nicknames: [ "Home Escrow", "Escrow" ],
+		consentAccount: { accountId: "account-101", nickname: "Home Escrow", accountNumberDisplay: "0101" }
+	},
+	{
+		accountCategory: "DEPOSIT_ACCOUNT", accountType: "MONEYMARKET", interestRate: 0.035,
+		productNames: [ "Premier Money Market" ], nicknames: [ "Money Market", "Investment Buffer" ],
+		consentAccount: { accountId: "account-202", nickname: "Investment Buffer", accountNumberDisplay: "0202" }
+	},
+	{
+		accountCategory: "DEPOSIT_ACCOUNT", accountType: "SAVINGS", interestRate: 0.005,
+		productNames: [ "Emergency Fund Savings", "Statement Savings" ], nicknames: [ "Rainy Day Fund", "Savings" ],
+		consentAccount: { accountId: "account-303", nickname: "Rainy Day Fund", accountNumberDisplay: "0303" }
+	},
+	{
+		accountCategory: "DEPOSIT_ACCOUNT", accountType: "FIRSTHOMESAVINGSACCOUNT", interestRate: 0.03,
+		productNames: [ "First Home Saver" ], nicknames: [ "Dream Home", "House Fund" ],
+		consentAccount: { accountId: "account-404", nickname: "Dream Home", accountNumberDisplay: "0404" }
+	},
+	{
+		accountCategory: "DEPOSIT_ACCOUNT", accountType: "OTHERDEPOSIT", interestRate: 0.001,
+		productNames: [ "Club Account", "Holiday Club" ], nicknames: [ "Vacation Club", "Holiday Fund" ],
+		consentAccount: { accountId: "account-505", nickname: "Vacation Club", accountNumberDisplay: "0505" }
+	},
+	{
+		accountCategory: "LOC_ACCOUNT", accountType: "CREDITCARD",
+		productNames: [ "Platinum Rewards Credit Card", "Cash Back Credit Card" ], nicknames: [ "Rewards Card", "Credit Card" ],
+		consentAccount: { accountId: "account-601", nickname: "Rewards Card", accountNumberDisplay: "4532" }
+	},
+	{
+		accountCategory: "LOAN_ACCOUNT", accountType: "MORTGAGE",
+		productNames: [ "Home Mortgage Loan" ], nicknames: [ "Home Loan", "Mortgage" ],
+		consentAccount: { accountId: "account-602", nickname: "Home Loan", accountNumberDisplay: "9876" }
+	},
+	{
+		accountCategory: "LOAN_ACCOUNT", accountType: "AUTOLOAN",
+		productNames: [ "Auto Loan" ], nicknames: [ "Car Payment", "Car Loan" ],
+		consentAccount: { accountId: "account-603", nickname: "Car Payment", accountNumberDisplay: "1234" }
+	},
+	{
+		accountCategory: "INVESTMENT_ACCOUNT", accountType: "BROKERAGE",
+		productNames: [ "Self-Directed Brokerage" ], nicknames: [ "Brokerage", "Investments" ],
+		consentAccount: { accountId: "account-701", nickname: "Brokerage", accountNumberDisplay: "7701" }
+	},
+	{
+		accountCategory: "INVESTMENT_ACCOUNT", accountType: "ROLLOVER",
+		productNames: [ "Rollover IRA" ], nicknames: [ "Retirement", "IRA" ],
+		consentAccount: { accountId: "account-702", nickname: "Retirement", accountNumberDisplay: "7702" }
+	}
+];
+
+// Chance that a customer other than the first holds each accountType; everyone has checking
+const ACCOUNT_TYPE_ODDS: Record<string, number> = {
+	CHECKING: 1,
+	HIGHINTERESTSAVINGSACCOUNT: 0.4,
+	CD: 0.15,
+	ESCROW: 0.1,
+	MONEYMARKET: 0.15,
+	SAVINGS: 0.4,
+	FIRSTHOMESAVINGSACCOUNT: 0.1,
+	OTHERDEPOSIT: 0.1,
+	CREDITCARD: 0.7,
+	MORTGAGE: 0.3,
+	AUTOLOAN: 0.3,
+	BROKERAGE: 0.3,
+	ROLLOVER: 0.2
+};
+
+// Deposit accounts that receive a monthly transfer from checking
+const SAVINGS_ACCOUNT_TYPES = new Set( [ "HIGHINTERESTSAVINGSACCOUNT", "MONEYMARKET", "SAVINGS", "FIRSTHOMESAVINGSACCOUNT", "OTHERDEPOSIT" ] );
+
+interface Security {
+	symbol: string;
+	name: string;
+	description: string;
+	cusip: string;
+	isin: string;
+	holdingType: string;
+	holdingSubType?: string;
+	securityType: string;
+	price: number;  // Typical price at the start of the history
+	dividendYield: number;  // Annual, paid quarterly
+}
+
+const SECURITIES: Security[] = [
+	{ symbol: "AAPL", name: "Apple Inc.", description: "APPLE INC COM", cusip: "037833100", isin: "US0378331005", holdingType: "STOCK", securityType: "STOCK", price: 180, dividendYield: 0.005 },
+	{ symbol: "MSFT", name: "Microsoft Corporation", description: "MICROSOFT CORP COM", cusip: "594918104", isin: "US5949181045", holdingType: "STOCK", securityType: "STOCK", price: 370, dividendYield: 0.008 },
+	{ symbol: "AMZN", name: "Amazon.com, Inc.", description: "AMAZON COM INC COM", cusip: "023135106", isin: "US0231351067", holdingType: "STOCK", securityType: "STOCK", price: 150, dividendYield: 0 },
+	{ symbol: "JNJ", name: "Johnson & Johnson", description: "JOHNSON & JOHNSON COM", cusip: "478160104", isin: "US4781601046", holdingType: "STOCK", securityType: "STOCK", price: 155, dividendYield: 0.03 },
+	{ symbol: "KO", name: "The Coca-Cola Company", description: "COCA COLA CO COM", cusip: "191216100", isin: "US1912161007", holdingType: "STOCK", securityType: "STOCK", price: 60, dividendYield: 0.03 },
+	{ symbol: "VTI", name: "Vanguard Total Stock Market ETF", description: "VANGUARD TOTAL STOCK MKT ETF", cusip: "922908769", isin: "US9229087690", holdingType: "MUTUALFUND", holdingSubType: "ETF", securityType: "MUTUALFUND", price: 235, dividendYield: 0.013 },
+	{ symbol: "VXUS", name: "Vanguard Total International Stock ETF", description: "VANGUARD TOTAL INTL STOCK ETF", cusip: "921909768", isin: "US9219097683", holdingType: "MUTUALFUND", holdingSubType: "ETF", securityType: "MUTUALFUND", price: 57, dividendYield: 0.03 },
+	{ symbol: "VFIAX", name: "Vanguard 500 Index Fund Admiral Shares", description: "VANGUARD 500 INDEX ADMIRAL", cusip: "922908710", isin: "US9229087104", holdingType: "MUTUALFUND", securityType: "MUTUALFUND", price: 430, dividendYield: 0.013 },
+	{ symbol: "VBTLX", name: "Vanguard Total Bond Market Index Fund Admiral Shares", description: "VANGUARD TOTAL BOND MKT ADMIRAL", cusip: "921937603", isin: "US9219376036", holdingType: "MUTUALFUND", securityType: "MUTUALFUND", price: 9.7, dividendYield: 0.035 }
+];
+
+interface Merchant {
+	name: string;
+	min: number;
+	max: number;
+}
+
+const MERCHANTS: Merchant[] = [
+	{ name: "GROCERY STORE", min: 25, max: 180 },
+	{ name: "FARMERS MARKET", min: 10, max: 60 },
+	{ name: "COFFEE SHOP", min: 3, max: 12 },
+	{ name: "RESTAURANT", min: 18, max: 120 },
+	{ name: "FAST FOOD", min: 6, max: 25 },
+	{ name: "GAS STATION", min: 25, max: 75 },
+	{ name: "PHARMACY", min: 8, max: 60 },
+	{ name: "ONLINE MARKETPLACE", min: 10, max: 200 },
+	{ name: "HARDWARE STORE", min: 12, max: 150 },
+	{ name: "BOOKSTORE", min: 10, max: 45 },
+	{ name: "MOVIE THEATER", min: 12, max: 40 },
+	{ name: "RIDE SHARE", min: 9, max: 45 },
+	{ name: "DEPARTMENT STORE", min: 30, max: 250 },
+	{ name: "PET SUPPLY", min: 15, max: 90 }
+];
+
+interface Bill {
+	payee: string;
+	day: number;
+	min: number;
+	max: number;  // Equal to min for a fixed amount
+	onCard: boolean;  // Charged to the credit card when the customer has one
+}
+
+// Recurring bills a customer may have, besides rent or a mortgage
+const BILLS: Bill[] = [
+	{ payee: "CITY POWER & LIGHT", day: 12, min: 60, max: 190, onCard: false },
+	{ payee: "CITY WATER DEPT", day: 14, min: 30, max: 70, onCard: false },
+	{ payee: "MOBILE WIRELESS", day: 18, min: 65, max: 65, onCard: true },
+	{ payee: "HOME INTERNET", day: 20, min: 70, max: 70, onCard: true },
+	{ payee: "AUTO INSURANCE", day: 5, min: 110, max: 110, onCard: false },
+	{ payee: "STREAMFLIX", day: 9, min: 15.49, max: 15.49, onCard: true },
+	{ payee: "MUSIC STREAMING", day: 16, min: 10.99, max: 10.99, onCard: true },
+	{ payee: "FITNESS CLUB", day: 3, min: 39.99, max: 39.99, onCard: true }
+];
+
+const CHECK_PAYEES = [ "ACME LLC", "LAWN CARE CO", "CITY TAX COLLECTOR", "PIANO LESSONS", "HOME REPAIR SERVICES" ];
+const EMPLOYERS = [ "ACME CORP", "GLOBEX", "INITECH", "UMBRELLA HEALTH", "STARK INDUSTRIES", "WAYNE ENTERPRISES", "HOOLI" ];
+const LANDLORDS = [ "OAKWOOD APARTMENTS", "RIVERSIDE PROPERTIES", "MAPLE COURT HOMES" ];
+
+const FIRST_NAMES = [ "Ava", "Liam", "Olivia", "Noah", "Emma", "James", "Sophia", "Lucas", "Mia", "Mateo", "Amara", "Kenji", "Priya", "Diego", "Fatima", "Wei" ];
+const LAST_NAMES = [ "Johnson", "Garcia", "Nguyen", "Patel", "Okafor", "Kim", "Rossi", "Schmidt", "Silva", "Cohen", "Tanaka", "Murphy", "Haddad", "Kowalski" ];
+
+const PLACES = [
+	{ street: "N Clark St", city: "Chicago", region: "IL", postalCode: "60614", areaCode: "312" },
+	{ street: "Mission St", city: "San Francisco", region: "CA", postalCode: "94105", areaCode: "415" },
+	{ street: "Peachtree St NE", city: "Atlanta", region: "GA", postalCode: "30308", areaCode: "404" },
+	{ street: "Congress Ave", city: "Austin", region: "TX", postalCode: "78701", areaCode: "512" },
+	{ street: "Pike St", city: "Seattle", region: "WA", postalCode: "98101", areaCode: "206" },
+	{ street: "Boylston St", city: "Boston", region: "MA", postalCode: "02116", areaCode: "617" },
+	{ street: "High St", city: "Columbus", region: "OH", postalCode: "43215", areaCode: "614" },
+	{ street: "Colfax Ave", city: "Denver", region: "CO", postalCode: "80203", areaCode: "303" }
+];
+
+const MONTH_NAMES = [ "January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December" ];
+
+// Average amount spent at a merchant
+const AVERAGE_PURCHASE = MERCHANTS.reduce( ( sum, merchant ) => sum + ( merchant.min + merchant.max ) / 2, 0 ) / MERCHANTS.length;
+
+// Card transactions in the last days of the history are still pending
+const PENDING_DAYS = 2;
+
+// Cash a checking account keeps back before paying for discretionary spending
+const CHECKING_BUFFER = 100;
+
+function roundCents( amount: number ): number {
+	return Math.round( amount * 100 ) / 100;
+}
+
+function addDays( date: string, days: number ): string {
+	const result = new Date( `${ date }T00:00:00.000Z` );
+	result.setUTCDate( result.getUTCDate() + days );
+	return result.toISOString().slice( 0, 10 );
+}
+
+function isLastDayOfMonth( date: string ): boolean {
+	return addDays( date, 1 ).slice( 8 ) === "01";
+}
+
+/**
+ * Derive an independent seed for one customer
+ */
+function customerSeed( seed: number, index: number ): number {
+	return ( seed ^ Math.imul( index + 1, 0x9E3779B1 ) ) >>> 0;
+}
+
+/**
+ * Monthly payment that pays off a loan over the given number of months
+ */
+function amortizedPayment( principal: number, annualRate: number, months: number ): number {
+	const rate = annualRate / 12;
+	return roundCents( principal * rate / ( 1 - Math.pow( 1 + rate, -months ) ) );
+}
+
+/**
+ * Principal a monthly payment pays off over the given number of months
+ */
+function affordablePrincipal( payment: number, annualRate: number, months: number ): number {
+	const rate = annualRate / 12;
+	return payment * ( 1 - Math.pow( 1 + rate, -months ) ) / rate;
+}
+
+/**
+ * Simulate a monthly price for every security over the history, as a random walk with a slight upward drift
+ */
+function generatePrices( random: Random, months: number ): Map<string, number[]> {
+	const prices = new Map<string, number[]>();
+	for ( const security of SECURITIES ) {
+		const path = [ roundCents( security.price * random.between( 0.9, 1.1 ) ) ];
+		for ( let month = 1; month < months; month++ ) {
+			path.push( Math.max( 0.01, roundCents( path[month - 1] * ( 1 + random.between( -0.05, 0.065 ) ) ) ) );
+		}
+		prices.set( security.symbol, path );
+	}
+	return prices;
+}
+
+interface Position {
+	security: Security;
+	units: number;
+	averageCost: number;
+	purchasedPrice: number;
+	originalPurchaseDate: string;
+}
+
+/**
+ * An account while it's being generated, with its running balance
+ */
+interface Ledger {
+	account: Account;
+	product: AccountProduct;
+	number: string;  // Full account number
+	balance: number;  // Cash, or the amount owed on credit cards and loans
+	held: number;  // Pending debits not yet in the balance
+	transactions: Transaction[];
+	positions: Position[];
+	monthlyPayment: number;  // Loans: the monthly payment; savings: the monthly transfer from checking
+	statementBalance: number;  // Credit cards: the amount owed at the last month end
+}
+
+/**
+ * Create the monthly statement of an account for the month that ends on the statement date (YYYY-MM-DD)
+ */
+export function createMonthlyStatement( accountId: string, statementDate: string ): Statement {
+	const accountNumber = accountId.replace( "account-", "" );
+	const statementId = `stmt-${ accountNumber }${ statementDate.slice( 0, 4 ) }${ statementDate.slice( 5, 7 ) }`;
+	return {
+		accountId,
+		statementId,
+		statementDate,
+		description: `${ MONTH_NAMES[Number( statementDate.slice( 5, 7 ) ) - 1] } ${ statementDate.slice( 0, 4 ) } Monthly Statement`,
+		links: [
+			{ href: `/accounts/${ accountId }/statements/${ statementId }`, rel: "self", action: "GET", types: [ "application/pdf" ] }
+		],
+		status: "AVAILABLE"
+	};
+}
+
+/**
+ * Generate a dataset. Every accountType is covered by the first customer.
+ */
+export function generateDataset( options: GeneratorOptions = DEFAULT_GENERATOR_OPTIONS ): Dataset {
+	const endDate = options.endDate;
+	const [ endYear, endMonth ] = endDate.split( "-" ).map( Number );
+	const months = options.years * 12;
+	const startDate = new Date( Date.UTC( endYear, endMonth - months, 1 ) ).toISOString().slice( 0, 10 );
+	const prices = generatePrices( createRandom( options.seed ), months );
+
+	// Index into the monthly price paths
+	const monthIndex = ( date: string ): number => {
+		const [ year, month ] = date.split( "-" ).map( Number );
+		return Math.min( months - 1, Math.max( 0, ( year - endYear ) * 12 + month - endMonth + months - 1 ) );
+	};
+	const priceOn = ( security: Security, date: string ): number => prices.get( security.symbol )![monthIndex( date )];
+
+	const dataset: Dataset = {
+		customers: [],
+		customerSubjects: {},
+		customerAccounts: {},
+		accounts: [],
+		accountContacts: {},
+		accountStatements: {},
+		accountTransactions: {},
+		accountHoldings: {},
+		accountPaymentNetworks: {},
+		accountAssetTransferNetworks: {}
+	};
+
+	for ( let index = 0; index < options.customers; index++ ) {
+		const random = createRandom( customerSeed( options.seed, index ) );
+		const isPrimary = index === 0;
+		const customerNumber = 100000 + index;
+		const customerId = `customer-${ customerNumber }`;
+
+		// Customer and contact details
+		const first = random.pick( FIRST_NAMES );
+		const last = random.pick( LAST_NAMES );
+		const place = random.pick( PLACES );
+		const email = `${ first }.${ last }${ index }@example.com`.toLowerCase();
+		const customer: Customer = {
+			customerId,
+			name: `${ first } ${ last }`,
+			email,
+			status: index < SUBJECTS.length || random.chance( 0.9 ) ? "active" : "inactive",
+			createdDate: `${ random.int( 2012, 2022 ) }-${ String( random.int( 1, 12 ) ).padStart( 2, "0" ) }-${ String( random.int( 1, 28 ) ).padStart( 2, "0" ) }`,
+			preferences: {
+				notifications: random.chance( 0.6 ),
+				twoFactorAuth: random.chance( 0.7 )
+			}
+		};
+		dataset.customers.push( customer );
+		if ( index < SUBJECTS.length ) {
+			dataset.customerSubjects[SUBJECTS[index]] = customerId;
+		}
+
+		const jointHolder = random.chance( 0.2 ) ? random.pick( FIRST_NAMES.filter( ( name ) => name !== first ) ) : null;
+		const contact: AccountContact = {
+			holders: [
+				{ relationship: jointHolder ? "PRIMARY_JOINT" : "PRIMARY", name: { first, last } },
+				...( jointHolder ? [ { relationship: "PRIMARY_JOINT", name: { first: jointHolder, last } } ] : [] )
+			],
+			emails: [ email ],
+			addresses: [
+				{
+					line1: `${ random.int( 10, 4999 ) } ${ place.street }`,
+					...( random.chance( 0.3 ) && { line2: `Apartment ${ random.int( 1, 40 ) }${ random.pick( [ "A", "B", "C" ] ) }` } ),
+					city: place.city,
+					region: place.region,
+					postalCode: place.postalCode,
+					country: "US"
+				}
+			],
+			telephones: [
+				{ type: "PERSONAL", country: "1", number: `${ place.areaCode }${ random.int( 2000000, 9999999 ) }`, network: "CELLULAR" },
+				...( random.chance( 0.3 ) ? [ { type: "HOME", country: "1", number: `${ place.areaCode }${ random.int( 2000000, 9999999 ) }`, network: "LANDLINE" } ] : [] )
+			]
+		};
+
+		// Income and spending habits
+		const paycheck = roundCents( random.between( 1400, 4200 ) );
+		const monthlyIncome = paycheck * 26 / 12;
+		const employer = random.pick( EMPLOYERS );
+		const spendingRate = monthlyIncome * random.between( 0.3, 0.45 ) / ( 30 * AVERAGE_PURCHASE );  // Expected card purchases per day
+		const paysCardInFull = random.chance( 0.7 );
+		const bills = BILLS.filter( () => random.chance( 0.6 ) ).map( ( bill ) => ( { ...bill, amount: roundCents( random.between( bill.min, bill.max ) ) } ) );
+
+		// Accounts
+		const ledgers: Ledger[] = [];
+		let accountSequence = 0;
+		for ( const product of ACCOUNT_PRODUCTS ) {
+			if ( !isPrimary && !random.chance( ACCOUNT_TYPE_ODDS[product.accountType] ) ) continue;
+
+			const accountId = isPrimary ? product.consentAccount.accountId : `account-${ customerNumber * 100 + ++accountSequence }`;
+			const display = isPrimary ? product.consentAccount.accountNumberDisplay : String( random.int( 1000, 9999 ) );
+			const account: Account = {
+				accountCategory: product.accountCategory,
+				accountId,
+				accountNumberDisplay: display,
+				nickname: isPrimary ? product.consentAccount.nickname : random.pick( product.nicknames ),
+				productName: random.pick( product.productNames ),
+				status: "OPEN",
+				currency: { currencyCode: "USD" },
+				accountType: product.accountType
+			};
+			ledgers.push( {
+				account,
+				product,
+				number: `${ random.int( 100000000000, 999999999999 ) }${ display }`,
+				balance: 0,
+				held: 0,
+				transactions: [],
+				positions: [],
+				monthlyPayment: 0,
+				statementBalance: 0
+			} );
+		}
+
+		const byType = ( accountType: string ) => ledgers.find( ( ledger ) => ledger.account.accountType === accountType );
+		const checking = byType( "CHECKING" )!;
+		const card = byType( "CREDITCARD" );
+		const mortgage = byType( "MORTGAGE" );
+		const autoLoan = byType( "AUTOLOAN" );
+		const escrow = byType( "ESCROW" );
+		// Where cash that builds up in checking is moved to
+		const sweepTarget = ledgers.find( ( ledger ) => SAVINGS_ACCOUNT_TYPES.has( ledger.account.accountType ) ) ?? byType( "BROKERAGE" );
+		const rent = mortgage ? 0 : roundCents( monthlyIncome * random.between( 0.2, 0.3 ) );
+		const landlord = random.pick( LANDLORDS );
+		const escrowDeposit = roundCents( random.between( 300, 700 ) );
+		let checkNumber = random.int( 1001, 1500 );
+		// Share of income put aside each month, split across the savings accounts
+		const savingsCount = ledgers.filter( ( ledger ) => SAVINGS_ACCOUNT_TYPES.has( ledger.account.accountType ) ).length;
+		const monthlySavings = monthlyIncome * random.between( 0.05, 0.15 ) / Math.max( 1, savingsCount );
+
+		// Opening balances and account terms
+		for ( const ledger of ledgers ) {
+			const { account } = ledger;
+			switch ( account.accountType ) {
+				case "CHECKING":
+					ledger.balance = roundCents( random.between( 1500, 6000 ) );
+					break;
+				case "CD":
+					ledger.balance = roundCents( random.int( 5, 50 ) * 1000 );
+					break;
+				case "ESCROW":
+					ledger.balance = roundCents( escrowDeposit * random.between( 3, 8 ) );
+					break;
+				case "CREDITCARD":
+					account.creditLine = random.int( 6, 50 ) * 500;
+					ledger.balance = roundCents( random.between( 0, 1500 ) );
+					break;
+				case "MORTGAGE":
+				case "AUTOLOAN": {
+					const isMortgage = account.accountType === "MORTGAGE";
+					const rate = roundCents( random.between( isMortgage ? 3 : 3.5, isMortgage ? 6.5 : 8 ) );
+					const term = isMortgage ? 360 : 60;
+					const payment = monthlyIncome * random.between( isMortgage ? 0.15 : 0.05, isMortgage ? 0.22 : 0.08 );
+					const originalPrincipal = Math.round( affordablePrincipal( payment, rate / 100, term ) / 100 ) * 100;
+					account.accountNumber = `${ isMortgage ? "MORT" : "AUTO" }-${ account.accountNumberDisplay }-${ endYear - random.int( options.years, options.years + 6 ) }`;
+					account.originalPrincipal = originalPrincipal;
+					account.interestRate = rate;
+					account.interestRateType = "FIXED";
+					account.loanTerm = term;
+					ledger.monthlyPayment = amortizedPayment( originalPrincipal, rate / 100, term );
+					ledger.balance = roundCents( originalPrincipal * random.between( 0.5, 0.95 ) );
+					break;
+				}
+				case "BROKERAGE":
+				case "ROLLOVER": {
+					ledger.balance = roundCents( random.between( 500, 5000 ) );
+					for ( const security of SECURITIES.filter( () => random.chance( 0.35 ) ).slice( 0, 4 ) ) {
+						const purchasedPrice = roundCents( priceOn( security, startDate ) * random.between( 0.4, 0.95 ) );
+						ledger.positions.push( {
+							security,
+							units: Math.round( random.between( 5000, 40000 ) / security.price ),
+							averageCost: purchasedPrice,
+							purchasedPrice,
+							originalPurchaseDate: addDays( startDate, -random.int( 200, 2500 ) )
+						} );
+					}
+					break;
+				}
+				default:
+					// Savings accounts get a monthly transfer from checking
+					ledger.balance = roundCents( random.between( 1000, 30000 ) );
+					ledger.monthlyPayment = Math.round( monthlySavings * random.between( 0.8, 1.2 ) );
+			}
+			ledger.statementBalance = ledger.balance;
+		}
+
+		/**
+		 * Record a transaction on a ledger and update its balance. Card transactions in the last
+		 * days are left pending, holding the funds instead.
+		 */
+		const record = ( ledger: Ledger, date: string, fields: Omit<Transaction, "accountCategory" | "transactionId" | "postedTimestamp" | "transactionTimestamp" | "status"> ): void => {
+			const { account } = ledger;
+			const amount = roundCents( fields.amount );
+			const pending = [ "DEBITCARD", "PURCHASE" ].includes( fields.transactionType ) && date > addDays( endDate, -PENDING_DAYS );
+			const transactionTimestamp = `${ date }T${ String( random.int( 8, 21 ) ).padStart( 2, "0" ) }:${ String( random.int( 0, 59 ) ).padStart( 2, "0" ) }:00.000Z`;
+			ledger.transactions.push( {
+				accountCategory: account.accountCategory,
+				transactionId: `${ account.accountId.replace( "account-", "txn-" ) }-${ String( ledger.transactions.length + 1 ).padStart( 6, "0" ) }`,
+				postedTimestamp: pending ? transactionTimestamp : `${ date }T00:00:00.000Z`,
+				transactionTimestamp,
+				status: pending ? "PENDING" : "POSTED",
+				...fields,
+				amount
+			} );
+
+			const owed = account.accountCategory === "LOC_ACCOUNT" || account.accountCategory === "LOAN_ACCOUNT";
+			const change = fields.debitCreditMemo === "DEBIT" ? -amount : amount;
+			if ( pending ) {
+				ledger.held = roundCents( ledger.held + amount );
+			} else {
+				ledger.balance = roundCents( ledger.balance + ( owed ? -change : change ) );
+			}
+		};
+
+		// Funds a debit can use without overdrawing checking or going over the credit line
+		const available = ( ledger: Ledger ): number => ledger.account.accountCategory === "LOC_ACCOUNT"
+			? ( ledger.account.creditLine ?? 0 ) - ledger.balance - ledger.held
+			: ledger.balance - ledger.held;
+
+		const transfer = ( from: Ledger, to: Ledger, date: string, amount: number, description: string ): boolean => {
+			if ( available( from ) < amount + CHECKING_BUFFER ) return false;
+			record( from, date, { transactionType: "TRANSFER", description: `Transfer to ${ to.account.nickname }`, debitCreditMemo: "DEBIT", amount } );
+			record( to, date, { transactionType: to.account.accountCategory === "LOC_ACCOUNT" ? "PAYMENT" : "TRANSFER", description, debitCreditMemo: "CREDIT", amount } );
+			return true;
+		};
+
+		// Spend on the credit card when there's room, otherwise with the debit card
+		const spend = ( date: string, payee: string, amount: number, preferCard: boolean ): void => {
+			if ( card && preferCard && available( card ) >= amount ) {
+				record( card, date, { transactionType: "PURCHASE", description: payee, payee, debitCreditMemo: "DEBIT", amount } );
+			} else if ( available( checking ) >= amount + CHECKING_BUFFER ) {
+				record( checking, date, { transactionType: "DEBITCARD", description: payee, debitCreditMemo: "DEBIT", amount } );
+			}
+		};
+
+		const investmentFields = ( security: Security ) => ( {
+			securityId: security.cusip,
+			securityIdType: "CUSIP",
+			securityType: security.securityType,
+			symbol: security.symbol,
+			subAccountSec: "CASH",
+			subAccountFund: "CASH"
+		} );
+
+		const buy = ( ledger: Ledger, date: string, security: Security, units: number, transactionType = "PURCHASED" ): void => {
+			const unitPrice = priceOn( security, date );
+			const amount = roundCents( units * unitPrice );
+			if ( units <= 0 || amount <= 0 ) return;
+			record( ledger, date, {
+				transactionType,
+				description: transactionType === "PURCHASED" ? `Bought ${ units } ${ security.symbol } @ ${ unitPrice.toFixed( 2 ) }` : `Dividend reinvestment ${ security.symbol }`,
+				debitCreditMemo: "DEBIT",
+				amount,
+				...investmentFields( security ),
+				units,
+				unitPrice,
+				...( transactionType === "PURCHASED" && { commission: 0, fees: 0 } ),
+				positionType: "LONG",
+				...( transactionType === "REINVESTOFINCOME" && { incomeType: "DIV" } )
+			} );
+			const position = ledger.positions.find( ( p ) => p.security === security );
+			if ( position ) {
+				position.averageCost = roundCents( ( position.averageCost * position.units + amount ) / ( position.units + units ) );
+				position.units = Math.round( ( position.units + units ) * 1000 ) / 1000;
+			} else {
+				ledger.positions.push( { security, units, averageCost: unitPrice, purchasedPrice: unitPrice, originalPurchaseDate: date } );
+			}
+		};
+
+		// Every day of the history, in a fixed order so the same seed gives the same result
+		let payday = addDays( startDate, random.int( 0, 13 ) );
+		for ( let date = startDate; date <= endDate; date = addDays( date, 1 ) ) {
+			const day = Number( date.slice( 8 ) );
+			const month = Number( date.slice( 5, 7 ) );
+
+			if ( date === payday ) {
+				record( checking, date, { transactionType: "DIRECTDEPOSIT", description: "Payroll direct deposit", payee: employer, debitCreditMemo: "CREDIT", amount: paycheck * random.between( 0.98, 1.02 ) } );
+				payday = addDays( payday, 14 );
+			}
+
+			if ( day === 1 ) {
+				if ( rent > 0 && available( checking ) >= rent ) {
+					record( checking, date, { transactionType: "BILLPAYMENT", description: "Rent payment", payee: landlord, debitCreditMemo: "DEBIT", amount: rent } );
+				}
+				if ( escrow ) {
+					record( escrow, date, { transactionType: "DEPOSIT", description: "Escrow deposit from mortgage payment", debitCreditMemo: "CREDIT", amount: escrowDeposit } );
+				}
+			}
+
+			// Loan payments from checking; interest accrues first, the payment covers it and some principal
+			for ( const [ loan, dueDay, payee ] of [ [ mortgage, 1, "Mortgage payment" ], [ autoLoan, 10, "Auto loan payment" ] ] as const ) {
+				if ( !loan || day !== dueDay || loan.balance <= 0 ) continue;
+				const interest = roundCents( loan.balance * ( loan.account.interestRate ?? 0 ) / 100 / 12 );
+				const payment = Math.min( loan.monthlyPayment, roundCents( loan.balance + interest ) );
+				if ( available( checking ) < payment ) continue;
+				record( loan, date, { transactionType: "INTEREST", description: "Interest charged", debitCreditMemo: "DEBIT", amount: interest } );
+				record( checking, date, { transactionType: "BILLPAYMENT", description: payee, payee: INSTITUTION_NAME, debitCreditMemo: "DEBIT", amount: payment } );
+				record( loan, date, { transactionType: "PAYMENT", description: "Payment received - thank you", debitCreditMemo: "CREDIT", amount: payment } );
+			}
+
+			if ( day === 2 ) {
+				for ( const savings of ledgers.filter( ( ledger ) => SAVINGS_ACCOUNT_TYPES.has( ledger.account.accountType ) ) ) {
+					transfer( checking, savings, date, savings.monthlyPayment, "Transfer from checking" );
+				}
+			}
+
+			// Move a surplus of more than two months' income out of checking
+			if ( sweepTarget && day === 27 && checking.balance - checking.held > monthlyIncome * 2 ) {
+				transfer( checking, sweepTarget, date, Math.round( checking.balance - checking.held - monthlyIncome ), "Transfer from checking" );
+			}
+
+			for ( const bill of bills ) {
+				if ( day === bill.day ) spend( date, bill.payee, bill.amount, bill.onCard );
+			}
+
+			// The card's statement balance is due on the 22nd
+			if ( card && day === 22 && card.statementBalance > 0 ) {
+				// Pay what checking can spare when it can't cover the intended amount
+				const intended = paysCardInFull
+					? card.statementBalance
+					: Math.min( card.statementBalance, Math.max( 35, card.statementBalance * random.between( 0.2, 0.5 ) ) );
+				const amount = roundCents( Math.min( intended, available( checking ) - CHECKING_BUFFER ) );
+				if ( amount > 0 ) transfer( checking, card, date, amount, "Payment - thank you" );
+			}
+
+			const purchases = ( random.chance( spendingRate / 2 ) ? 1 : 0 ) + ( random.chance( spendingRate / 2 ) ? 1 : 0 );
+			for ( let purchase = 0; purchase < purchases; purchase++ ) {
+				const merchant = random.pick( MERCHANTS );
+				spend( date, merchant.name, random.between( merchant.min, merchant.max ), random.chance( 0.6 ) );
+			}
+
+			if ( random.chance( 0.04 ) ) {
+				const amount = random.int( 2, 15 ) * 20;
+				if ( available( checking ) >= amount + CHECKING_BUFFER ) {
+					record( checking, date, { transactionType: "ATMWITHDRAWAL", description: `ATM withdrawal location #${ random.int( 1000, 9999 ) }`, debitCreditMemo: "DEBIT", amount } );
+				}
+			}
+
+			if ( random.chance( 0.015 ) ) {
+				const amount = roundCents( random.between( 20, 400 ) );
+				if ( available( checking ) >= amount + CHECKING_BUFFER ) {
+					const payee = random.pick( CHECK_PAYEES );
+					record( checking, date, { transactionType: "CHECK", checkNumber: checkNumber++, payee, description: `Check ${ checkNumber - 1 } to ${ payee }`, debitCreditMemo: "DEBIT", amount } );
+				}
+			}
+
+			// Property tax in April and October, homeowners insurance in July
+			if ( escrow && day === 25 && [ 4, 7, 10 ].includes( month ) ) {
+				const amount = Math.min( escrow.balance, roundCents( escrowDeposit * ( month === 7 ? 2 : 5 ) ) );
+				record( escrow, date, { transactionType: "WITHDRAWAL", description: month === 7 ? "Homeowners insurance premium" : "County property tax", debitCreditMemo: "DEBIT", amount } );
+			}
+
+			for ( const ledger of ledgers.filter( ( l ) => l.account.accountCategory === "INVESTMENT_ACCOUNT" ) ) {
+				const isBrokerage = ledger.account.accountType === "BROKERAGE";
+
+				if ( isBrokerage && day === 3 && random.chance( 0.5 ) ) {
+					transfer( checking, ledger, date, Math.round( monthlyIncome * random.between( 0.02, 0.06 ) ), "Transfer from checking" );
+				}
+
+				// Invest most of the spare cash mid-month
+				if ( day === 15 && ledger.balance > 500 ) {
+					const security = random.pick( SECURITIES );
+					buy( ledger, date, security, Math.floor( ledger.balance * random.between( 0.5, 0.9 ) / priceOn( security, date ) * 1000 ) / 1000 );
+				}
+
+				// Occasionally take profits on part of a taxable position
+				if ( isBrokerage && day === 8 && ledger.positions.length > 0 && random.chance( 0.08 ) ) {
+					const position = random.pick( ledger.positions );
+					const units = Math.floor( position.units * random.between( 0.2, 0.5 ) * 1000 ) / 1000;
+					const unitPrice = priceOn( position.security, date );
+					const fees = 0.02;
+					if ( units > 0 ) {
+						record( ledger, date, {
+							transactionType: "SOLD",
+							description: `Sold ${ units } ${ position.security.symbol } @ ${ unitPrice.toFixed( 2 ) }`,
+							debitCreditMemo: "CREDIT",
+							amount: units * unitPrice - fees,
+							...investmentFields( position.security ),
+							units,
+							unitPrice,
+							commission: 0,
+							fees,
+							positionType: "LONG"
+						} );
+						position.units = Math.round( ( position.units - units ) * 1000 ) / 1000;
+					}
+				}
+
+				// Quarterly dividends, reinvested in retirement accounts
+				if ( day === 20 && month % 3 === 0 ) {
+					for ( const position of [ ...ledger.positions ] ) {
+						const amount = roundCents( position.units * priceOn( position.security, date ) * position.security.dividendYield / 4 );
+						if ( amount <= 0 ) continue;
+						record( ledger, date, {
+							transactionType: "DIVIDEND",
+							description: `${ position.security.name.toUpperCase() } dividend`,
+							debitCreditMemo: "CREDIT",
+							amount,
+							...investmentFields( position.security ),
+							incomeType: "DIV"
+						} );
+						if ( !isBrokerage ) {
+							buy( ledger, date, position.security, Math.floor( amount / priceOn( position.security, date ) * 1000 ) / 1000, "REINVESTOFINCOME" );
+						}
+					}
+				}
+
+				if ( isBrokerage && isLastDayOfMonth( date ) && ledger.balance > 0 ) {
+					const amount = roundCents( ledger.balance * 0.005 / 12 );
+					if ( amount > 0 ) {
+						record( ledger, date, { transactionType: "INTEREST", description: "Interest on cash balance", debitCreditMemo: "CREDIT", amount, subAccountFund: "CASH", incomeType: "INTEREST" } );
+					}
+				}
+			}
+
+			if ( isLastDayOfMonth( date ) ) {
+				for ( const ledger of ledgers ) {
+					const rate = ledger.product.interestRate;
+					if ( rate && ledger.balance > 0 ) {
+						const amount = roundCents( ledger.balance * rate / 12 );
+						if ( amount > 0 ) record( ledger, date, { transactionType: "INTEREST", description: "Interest paid", debitCreditMemo: "CREDIT", amount } );
+					}
+				}
+				if ( card ) {
+					// Carried balances are charged interest at 22.99% APR
+					if ( !paysCardInFull && card.balance > 0 ) {
+						record( card, date, { transactionType: "INTEREST", description: "Interest charge on purchases", debitCreditMemo: "DEBIT", amount: card.balance * 0.2299 / 12 } );
+					}
+					card.statementBalance = card.balance;
+				}
+			}
+		}
+
+		// Closing balances, statements, networks and holdings
+		dataset.customerAccounts[customerId] = [];
+		for ( const ledger of ledgers ) {
+			const { account } = ledger;
+			const { accountId } = account;
+			dataset.customerAccounts[customerId].push( accountId );
+			dataset.accountContacts[accountId] = contact;
+			dataset.accountTransactions[accountId] = ledger.transactions;
+
+			switch ( account.accountCategory ) {
+				case "DEPOSIT_ACCOUNT":
+					account.currentBalance = ledger.balance;
+					// CD funds are locked until maturity
+					account.availableBalance = account.accountType === "CD" ? 0 : roundCents( ledger.balance - ledger.held );
+					dataset.accountPaymentNetworks[accountId] = [
+						{ bankId: BANK_ID, identifier: ledger.number, type: "US_ACH", transferIn: true, transferOut: account.accountType !== "CD" }
+					];
+					break;
+				case "LOC_ACCOUNT":
+					account.currentBalance = ledger.balance;
+					account.availableCredit = roundCents( ( account.creditLine ?? 0 ) - ledger.balance - ledger.held );
+					break;
+				case "LOAN_ACCOUNT":
+					account.currentBalance = ledger.balance;
+					account.principalBalance = ledger.balance;
+					break;
+				case "INVESTMENT_ACCOUNT": {
+					const holdings: Holding[] = ledger.positions
+						.filter( ( position ) => position.units > 0 )
+						.map( ( position, i ) => {
+							const currentUnitPrice = priceOn( position.security, endDate );
+							return {
+								holdingId: `holding-${ accountId.replace( "account-", "" ) }-${ i + 1 }`,
+								securityIds: [
+									{ id: position.security.cusip, idType: "CUSIP" },
+									{ id: position.security.isin, idType: "ISIN" }
+								],
+								holdingName: position.security.name,
+								holdingType: position.security.holdingType,
+								...( position.security.holdingSubType && { holdingSubType: position.security.holdingSubType } ),
+								positionType: "LONG",
+								heldInAccount: "CASH",
+								description: position.security.description,
+								symbol: position.security.symbol,
+								originalPurchaseDate: position.originalPurchaseDate,
+								purchasedPrice: position.purchasedPrice,
+								currentUnitPrice,
+								currentUnitPriceDate: endDate,
+								units: position.units,
+								marketValue: roundCents( position.units * currentUnitPrice ),
+								averageCost: position.averageCost,
+								currency: { currencyCode: "USD" }
+							};
+						} );
+					dataset.accountHoldings[accountId] = holdings;
+					account.balanceAsOf = `${ endDate }T21:00:00.000Z`;
+					account.currentValue = roundCents( holdings.reduce( ( sum, holding ) => sum + holding.marketValue, ledger.balance ) );
+					account.availableCashBalance = roundCents( ledger.balance - ledger.held );
+					account.margin = account.accountType === "BROKERAGE";
+					if ( account.margin ) {
+						account.marginBalance = 0;
+						account.shortBalance = 0;
+					}
+					account.allowedCheckWriting = false;
+					dataset.accountAssetTransferNetworks[accountId] = [
+						{ identifier: ledger.number, identifierType: "ACCOUNT_NUMBER", institutionId: INSTITUTION_ID, institutionName: INSTITUTION_NAME, jointAccount: !!jointHolder, type: "US_ACATS" }
+					];
+					break;
+				}
+			}
+
+			// A statement at the end of every month
+			const statements: Statement[] = [];
+			for ( let month = 0; month < months; month++ ) {
+				const statementEnd = new Date( Date.UTC( endYear, endMonth - months + month + 1, 0 ) ).toISOString().slice( 0, 10 );
+				statements.push( createMonthlyStatement( accountId, statementEnd ) );
+			}
+			dataset.accountStatements[accountId] = statements;
+			dataset.accounts.push( account );
+		}
+	}
+
+	return dataset;
+}
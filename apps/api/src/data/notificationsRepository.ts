@@ -0,0 +1,28 @@
+import { getDataStore } from "./stores/index.js";
+import type { StoredNotificationSubscription, PaginatedNotificationDeliveriesResult, PageRequest } from "./types.js";
+
+/**
+ * Get a notification subscription created by the client
+ */
+export async function getNotificationSubscription( clientId: string, subscriptionId: string ): Promise<StoredNotificationSubscription | null> {
+	return ( await getDataStore() ).getNotificationSubscription( clientId, subscriptionId );
+}
+
+export async function saveNotificationSubscription( subscription: StoredNotificationSubscription ): Promise<void> {
+	return ( await getDataStore() ).saveNotificationSubscription( subscription );
+}
+
+/**
+ * Delete a notification subscription created by the client, with its delivery log.
+ * Returns false when the client has no such subscription.
+ */
+export async function deleteNotificationSubscription( clientId: string, subscriptionId: string ): Promise<boolean> {
+	return ( await getDataStore() ).deleteNotificationSubscription( clientId, subscriptionId );
+}
+
+/**
+ * Get the delivery log of a notification subscription, oldest first
+ */
+export async function getNotificationDeliveries( clientId: string, subscriptionId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedNotificationDeliveriesResult> {
+	return ( await getDataStore() ).getNotificationDeliveries( clientId, subscriptionId, page );
+}
@@ -0,0 +1,140 @@
+/**
+ * Sort orders of the paginated lists
+ *
+ * Pages after the first are found by the position of a row in its list rather than by an
+ * offset, so they have to be ordered by values the rows carry. Every order ends with the
+ * row's ID, which keeps positions unique. The SQLite store orders by the same keys in SQL.
+ */
+
+import type {
+	Account,
+	Statement,
+	Transaction,
+	TransactionSort,
+	Holding,
+	PaymentNetwork,
+	AssetTransferNetwork,
+	TaxForm,
+	NotificationDelivery,
+	PagePosition,
+	PageRequest,
+	PaginatedResult
+} from "./types.js";
+
+export interface SortKey<T> {
+	value: ( row: T ) => string | number;
+	descending?: boolean;
+}
+
+export type ListOrder<T> = SortKey<T>[];
+
+/**
+ * Normalize a date or timestamp to an ISO 8601 string so it compares lexically
+ */
+function toIsoTimestamp( value: string ): string {
+	return new Date( value ).toISOString();
+}
+
+export const accountOrder: ListOrder<Account> = [
+	{ value: ( account ) => account.accountId }
+];
+
+export const statementOrder: ListOrder<Statement> = [
+	{ value: ( statement ) => toIsoTimestamp( statement.statementDate ) },
+	{ value: ( statement ) => statement.statementId }
+];
+
+export const holdingOrder: ListOrder<Holding> = [
+	{ value: ( holding ) => holding.holdingId }
+];
+
+// Networks have no ID of their own; the network is identified by its institution, identifier and type
+export const paymentNetworkOrder: ListOrder<PaymentNetwork> = [
+	{ value: ( network ) => network.bankId },
+	{ value: ( network ) => network.identifier },
+	{ value: ( network ) => network.type }
+];
+
+export const assetTransferNetworkOrder: ListOrder<AssetTransferNetwork> = [
+	{ value: ( network ) => network.institutionId },
+	{ value: ( network ) => network.identifier },
+	{ value: ( network ) => network.type }
+];
+
+export const taxFormOrder: ListOrder<TaxForm> = [
+	{ value: ( form ) => form.taxFormId }
+];
+
+// Oldest first; the deliveries of one notification share its sentOn
+export const notificationDeliveryOrder: ListOrder<NotificationDelivery> = [
+	{ value: ( delivery ) => toIsoTimestamp( delivery.notification.sentOn ) },
+	{ value: ( delivery ) => delivery.deliveryId }
+];
+
+/**
+ * Order of a transaction list: by the sort order such as "-amount", or oldest first without one.
+ * Ties are broken by transactionId, ascending whichever way the list is sorted.
+ */
+export function transactionOrder( sort: TransactionSort = "postedTimestamp" ): ListOrder<Transaction> {
+	const descending = sort.startsWith( "-" );
+	return [
+		sort.endsWith( "amount" )
+			? { value: ( tx ) => tx.amount, descending }
+			: { value: ( tx ) => toIsoTimestamp( tx.postedTimestamp ), descending },
+		{ value: ( tx ) => tx.transactionId }
+	];
+}
+
+/**
+ * The position of a row in a list with the given order
+ */
+export function getPosition<T>( order: ListOrder<T>, row: T ): PagePosition {
+	return order.map( ( key ) => key.value( row ) );
+}
+
+/**
+ * Compare two positions in a list with the given order: negative if a sorts first
+ */
+export function comparePositions<T>( order: ListOrder<T>, a: PagePosition, b: PagePosition ): number {
+	for ( let i = 0; i < order.length; i++ ) {
+		if ( a[i] === b[i] ) continue;
+		const ascending = a[i] < b[i] ? -1 : 1;
+		return order[i].descending ? -ascending : ascending;
+	}
+	return 0;
+}
+
+/**
+ * Sort rows held in memory and return the requested page of them
+ */
+export function paginateRows<T>( rows: T[], order: ListOrder<T>, page: PageRequest ): PaginatedResult & { rows: T[] } {
+	const positioned = rows
+		.map( ( row ) => ( { row, position: getPosition( order, row ) } ) )
+		.sort( ( a, b ) => comparePositions( order, a.position, b.position ) );
+	const total = positioned.length;
+
+	// Index of the first row that doesn't sort before the given position
+	const indexOf = ( position: PagePosition, inclusive: boolean ) => {
+		const index = positioned.findIndex( ( entry ) => {
+			const comparison = comparePositions( order, entry.position, position );
+			return inclusive ? comparison >= 0 : comparison > 0;
+		} );
+		return index === -1 ? total : index;
+	};
+
+	let start = page.offset ?? 0;
+	let end = start + page.limit;
+	if ( page.after ) {
+		start = indexOf( page.after, false );
+		end = start + page.limit;
+	} else if ( page.before ) {
+		end = indexOf( page.before, true );
+		start = Math.max( 0, end - page.limit );
+	}
+
+	return {
+		rows: positioned.slice( start, end ).map( ( entry ) => entry.row ),
+		total,
+		offset: Math.min( start, total )
+	};
+}
@@ -0,0 +1,371 @@
+/**
+ * Zod schemas for the FDX entities returned by the API
+ *
+ * These mirror the interfaces in ./types.ts and are registered in `fdxSchemas` under their
+ * FDX name, which is how they end up as components in the OpenAPI document. Each schema is
+ * typed against its interface so the two can't drift apart at compile time, and objects are
+ * strict so response validation also reports fields the interfaces don't declare.
+ */
+
+import { z } from "zod";
+import { DATA_CLUSTERS } from "@apps/shared/dataClusters";
+import type {
+	Account,
+	AccountContact,
+	AssetTransferNetwork,
+	Consent,
+	Customer,
+	Dataset,
+	Holding,
+	Link,
+	Notification,
+	NotificationDelivery,
+	NotificationSubscription,
+	PaymentNetwork,
+	Statement,
+	TaxForm,
+	Transaction
+} from "./types.js";
+
+/**
+ * Registry of the named entity schemas, keyed by FDX entity name
+ */
+export const fdxSchemas = z.registry<{ id: string; description?: string }>();
+
+const isoDateTime = z.iso.datetime( { offset: true } );
+const isoDate = z.iso.date();
+
+export const currencySchema = z.strictObject( {
+	currencyCode: z.string().length( 3 ).describe( "ISO 4217 currency code" )
+} ).register( fdxSchemas, { id: "Currency" } );
+
+export const securityIdSchema = z.strictObject( {
+	id: z.string(),
+	idType: z.string().describe( "CUSIP, ISIN, SEDOL, SICC, VALOR or WKN" )
+} ).register( fdxSchemas, { id: "SecurityId" } );
+
+export const holdingSchema: z.ZodType<Holding> = z.strictObject( {
+	holdingId: z.string(),
+	securityIds: z.array( securityIdSchema ),
+	holdingName: z.string(),
+	holdingType: z.string().describe( "ANNUITY, BOND, CD, DIGITALASSET, MUTUALFUND, OPTION, OTHER or STOCK" ),
+	holdingSubType: z.string().optional().describe( "CASH, MONEYMARKET or ETF" ),
+	positionType: z.enum( [ "LONG", "SHORT" ] ),
+	heldInAccount: z.string().describe( "CASH, MARGIN, SHORT or OTHER" ),
+	description: z.string().optional(),
+	symbol: z.string().optional(),
+	originalPurchaseDate: isoDate.optional(),
+	purchasedPrice: z.number().optional(),
+	currentUnitPrice: z.number(),
+	currentUnitPriceDate: isoDate,
+	units: z.number(),
+	marketValue: z.number(),
+	averageCost: z.number().optional(),
+	currency: currencySchema
+} ).register( fdxSchemas, { id: "Holding", description: "A position held in an investment account" } );
+
+export const accountSchema: z.ZodType<Account> = z.strictObject( {
+	accountCategory: z.enum( [ "DEPOSIT_ACCOUNT", "INVESTMENT_ACCOUNT", "LOAN_ACCOUNT", "LOC_ACCOUNT" ] ),
+	accountId: z.string(),
+	accountNumberDisplay: z.string().describe( "Last digits of the account number for display" ),
+	nickname: z.string().optional().describe( "Name the customer gave the account" ),
+	productName: z.string(),
+	status: z.enum( [ "CLOSED", "DELINQUENT", "NEGATIVECURRENTBALANCE", "OPEN", "PAID", "PENDINGCLOSE", "PENDINGOPEN", "RESTRICTED" ] ),
+	currency: currencySchema,
+	accountType: z.string(),
+	currentBalance: z.number().optional().describe( "Not present on investment accounts, which report currentValue" ),
+	availableBalance: z.number().optional(),
+	availableCredit: z.number().optional(),
+	creditLine: z.number().optional(),
+	accountNumber: z.string().optional(),
+	principalBalance: z.number().optional(),
+	originalPrincipal: z.number().optional(),
+	interestRate: z.number().optional(),
+	interestRateType: z.string().optional(),
+	loanTerm: z.number().optional(),
+	balanceAsOf: isoDateTime.optional(),
+	currentValue: z.number().optional(),
+	availableCashBalance: z.number().optional(),
+	margin: z.boolean().optional(),
+	marginBalance: z.number().optional(),
+	shortBalance: z.number().optional(),
+	allowedCheckWriting: z.boolean().optional(),
+	holdings: z.array( holdingSchema ).optional().describe( "Only included on the detail of investment accounts" )
+} ).register( fdxSchemas, { id: "Account", description: "A deposit, loan, line of credit or investment account" } );
+
+const nameSchema = z.strictObject( {
+	first: z.string(),
+	middle: z.string().optional(),
+	last: z.string(),
+	suffix: z.string().optional()
+} ).register( fdxSchemas, { id: "IndividualName" } );
+
+const addressSchema = z.strictObject( {
+	line1: z.string(),
+	line2: z.string().optional(),
+	city: z.string(),
+	region: z.string(),
+	postalCode: z.string(),
+	country: z.string()
+} ).register( fdxSchemas, { id: "Address" } );
+
+export const accountContactSchema: z.ZodType<AccountContact> = z.strictObject( {
+	holders: z.array( z.strictObject( {
+		relationship: z.string().describe( "e.g. PRIMARY, PRIMARY_JOINT, SECONDARY, SOLE_OWNER" ),
+		name: nameSchema
+	} ) ),
+	emails: z.array( z.string() ),
+	addresses: z.array( addressSchema ),
+	telephones: z.array( z.strictObject( {
+		type: z.string(),
+		country: z.string(),
+		number: z.string(),
+		network: z.string().optional().describe( "CELLULAR, LANDLINE, SATELLITE or OTHER" )
+	} ) )
+} ).register( fdxSchemas, { id: "AccountContact" } );
+
+const linkSchema: z.ZodType<Link> = z.strictObject( {
+	href: z.string(),
+	rel: z.string(),
+	action: z.string(),
+	types: z.array( z.string() )
+} ).register( fdxSchemas, { id: "HateoasLink" } );
+
+export const statementSchema: z.ZodType<Statement> = z.strictObject( {
+	accountId: z.string(),
+	statementId: z.string(),
+	statementDate: isoDate,
+	description: z.string(),
+	links: z.array( linkSchema ),
+	status: z.enum( [ "AVAILABLE", "PROCESSING", "FAILED" ] )
+} ).register( fdxSchemas, { id: "Statement" } );
+
+export const transactionSchema: z.ZodType<Transaction> = z.strictObject( {
+	accountCategory: z.enum( [ "DEPOSIT_ACCOUNT", "INVESTMENT_ACCOUNT", "LOAN_ACCOUNT", "LOC_ACCOUNT" ] ),
+	transactionType: z.string(),
+	checkNumber: z.number().int().optional(),
+	payee: z.string().optional(),
+	transactionId: z.string(),
+	postedTimestamp: isoDateTime,
+	transactionTimestamp: isoDateTime,
+	description: z.string(),
+	debitCreditMemo: z.enum( [ "CREDIT", "DEBIT", "MEMO" ] ),
+	status: z.enum( [ "AUTHORIZATION", "MEMO", "PENDING", "POSTED" ] ),
+	amount: z.number(),
+	securityId: z.string().optional(),
+	securityIdType: z.string().optional(),
+	securityType: z.string().optional(),
+	symbol: z.string().optional(),
+	units: z.number().optional(),
+	unitPrice: z.number().optional(),
+	commission: z.number().optional(),
+	fees: z.number().optional(),
+	subAccountSec: z.string().optional(),
+	subAccountFund: z.string().optional(),
+	positionType: z.string().optional(),
+	incomeType: z.string().optional()
+} ).register( fdxSchemas, { id: "Transaction", description: "A deposit, loan, line of credit or investment transaction" } );
+
+export const paymentNetworkSchema: z.ZodType<PaymentNetwork> = z.strictObject( {
+	bankId: z.string(),
+	identifier: z.string(),
+	type: z.string().describe( "e.g. US_ACH" ),
+	transferIn: z.boolean(),
+	transferOut: z.boolean()
+} ).register( fdxSchemas, { id: "PaymentNetwork" } );
+
+export const assetTransferNetworkSchema: z.ZodType<AssetTransferNetwork> = z.strictObject( {
+	identifier: z.string(),
+	identifierType: z.enum( [ "ACCOUNT_NUMBER", "TOKENIZED_ACCOUNT_NUMBER" ] ).optional(),
+	institutionId: z.string(),
+	institutionName: z.string().optional(),
+	jointAccount: z.boolean().optional(),
+	type: z.enum( [ "CA_ATON", "US_ACATS", "US_DTC" ] )
+} ).register( fdxSchemas, { id: "AssetTransferNetwork" } );
+
+const taxPartySchema = z.strictObject( {
+	tin: z.string().describe( "Masked taxpayer identification number" ),
+	partyType: z.enum( [ "BUSINESS", "INDIVIDUAL" ] ),
+	businessName: z.string().optional(),
+	individualName: nameSchema.optional(),
+	address: addressSchema
+} ).register( fdxSchemas, { id: "TaxParty" } );
+
+export const taxFormSchema: z.ZodType<TaxForm> = z.strictObject( {
+	taxFormId: z.string(),
+	taxYear: z.number().int(),
+	taxFormType: z.enum( [ "Tax1099Int", "Tax1099Div", "Tax1099B" ] ),
+	taxFormDate: isoDate,
+	description: z.string(),
+	accountId: z.string(),
+	issuer: taxPartySchema,
+	recipient: taxPartySchema,
+	tax1099Int: z.strictObject( {
+		accountNumber: z.string(),
+		interestIncome: z.number(),
+		earlyWithdrawalPenalty: z.number(),
+		usBondInterest: z.number(),
+		federalTaxWithheld: z.number(),
+		investmentExpenses: z.number(),
+		foreignTaxPaid: z.number(),
+		taxExemptInterest: z.number()
+	} ).register( fdxSchemas, { id: "Tax1099Int" } ).optional(),
+	tax1099Div: z.strictObject( {
+		accountNumber: z.string(),
+		ordinaryDividends: z.number(),
+		qualifiedDividends: z.number(),
+		totalCapitalGain: z.number(),
+		nonTaxableDistribution: z.number(),
+		federalTaxWithheld: z.number(),
+		foreignTaxPaid: z.number()
+	} ).register( fdxSchemas, { id: "Tax1099Div" } ).optional(),
+	tax1099B: z.strictObject( {
+		accountNumber: z.string(),
+		securityDetails: z.array( z.strictObject( {
+			checkboxOnForm8949: z.enum( [ "A", "D" ] ).describe( "A = short-term covered, D = long-term covered" ),
+			securityName: z.string(),
+			securityId: z.string().optional(),
+			securityIdType: z.string().optional(),
+			numberOfShares: z.number(),
+			saleDate: isoDate,
+			salesPrice: z.number().describe( "Net proceeds" ),
+			acquiredDate: isoDate,
+			costBasis: z.number(),
+			washSaleLossDisallowed: z.number(),
+			longOrShort: z.enum( [ "LONG", "SHORT" ] ).describe( "Holding period" ),
+			federalTaxWithheld: z.number()
+		} ).register( fdxSchemas, { id: "SecurityDetail" } ) )
+	} ).register( fdxSchemas, { id: "Tax1099B" } ).optional(),
+	links: z.array( linkSchema )
+} ).register( fdxSchemas, { id: "TaxData", description: "A tax form with the data of exactly one of tax1099Int, tax1099Div or tax1099B" } );
+
+export const customerSchema: z.ZodType<Customer> = z.strictObject( {
+	customerId: z.string(),
+	name: z.string(),
+	email: z.string(),
+	status: z.string(),
+	createdDate: isoDate,
+	preferences: z.strictObject( {
+		notifications: z.boolean(),
+		twoFactorAuth: z.boolean()
+	} )
+} ).register( fdxSchemas, { id: "Customer" } );
+
+const partyTypeSchema = z.enum( [ "DATA_ACCESS_PLATFORM", "DATA_PROVIDER", "DATA_RECIPIENT", "INDIVIDUAL", "MERCHANT", "VENDOR" ] );
+
+const partySchema = z.strictObject( {
+	name: z.string(),
+	type: partyTypeSchema,
+	homeUri: z.string().optional()
+} ).register( fdxSchemas, { id: "Party" } );
+
+export const consentSchema: z.ZodType<Consent> = z.strictObject( {
+	id: z.string(),
+	status: z.enum( [ "ACTIVE", "EXPIRED", "REVOKED" ] ),
+	parties: z.array( partySchema ),
+	createdTime: isoDateTime,
+	expirationTime: isoDateTime.optional(),
+	updatedTime: isoDateTime.optional(),
+	durationType: z.enum( [ "ONE_TIME", "PERSISTENT", "TIME_BOUND" ] ),
+	durationPeriod: z.number().int().optional().describe( "Days, for TIME_BOUND consents" ),
+	resources: z.array( z.strictObject( {
+		resourceType: z.enum( [ "ACCOUNT", "CUSTOMER" ] ),
+		resourceId: z.string(),
+		dataClusters: z.array( z.enum( DATA_CLUSTERS ) )
+	} ).register( fdxSchemas, { id: "ConsentResource" } ) ),
+	revocation: z.strictObject( {
+		status: z.literal( "REVOKED" ),
+		reason: z.enum( [ "BUSINESS_RULE", "USER_ACTION" ] ),
+		initiator: partyTypeSchema,
+		updatedTime: isoDateTime
+	} ).register( fdxSchemas, { id: "ConsentRevocationRecord" } ).optional()
+} ).register( fdxSchemas, { id: "ConsentGrant", description: "What a customer agreed to share with a data recipient" } );
+
+const notificationTypeSchema = z.enum( [ "BALANCE", "STATEMENT", "CONSENT_REVOKED" ] );
+
+export const notificationSchema: z.ZodType<Notification> = z.strictObject( {
+	notificationId: z.string(),
+	type: notificationTypeSchema,
+	sentOn: isoDateTime,
+	category: z.enum( [ "CONSENT", "NEW_DATA" ] ),
+	severity: z.enum( [ "EMERGENCY", "ALERT", "WARNING", "NOTICE", "INFO" ] ).optional(),
+	priority: z.enum( [ "HIGH", "MEDIUM", "LOW" ] ).optional(),
+	publisher: partySchema,
+	subscriber: partySchema,
+	notificationPayload: z.strictObject( {
+		id: z.string().describe( "ID of the resource the notification is about" ),
+		idType: z.enum( [ "ACCOUNT", "CONSENT", "CUSTOMER", "STATEMENT" ] )
+	} ),
+	url: linkSchema.optional().describe( "Where to fetch the changed resource" )
+} ).register( fdxSchemas, { id: "Notification", description: "Sent to subscription callback URLs as the payload of a JWS" } );
+
+export const notificationSubscriptionSchema: z.ZodType<NotificationSubscription> = z.strictObject( {
+	subscriptionId: z.string(),
+	type: notificationTypeSchema,
+	callbackUrl: z.string(),
+	subscriber: partySchema,
+	effectiveDate: isoDateTime
+} ).register( fdxSchemas, { id: "NotificationSubscription" } );
+
+export const notificationDeliverySchema: z.ZodType<NotificationDelivery> = z.strictObject( {
+	deliveryId: z.string(),
+	subscriptionId: z.string(),
+	clientId: z.string(),
+	callbackUrl: z.string(),
+	notification: notificationSchema,
+	status: z.enum( [ "PENDING", "DELIVERED", "FAILED" ] ),
+	attempts: z.array( z.strictObject( {
+		attemptedAt: isoDateTime,
+		responseStatus: z.number().int().optional().describe( "Not present when no response was received" ),
+		error: z.string().optional()
+	} ) ),
+	nextAttemptAt: isoDateTime.optional().describe( "When the next attempt is due, while PENDING" )
+} ).register( fdxSchemas, { id: "NotificationDelivery", description: "A notification sent to one subscription, with every delivery attempt" } );
+
+export const pageMetadataSchema = z.strictObject( {
+	nextPageKey: z.string().optional().describe( "Pass as pageKey to get the next page" ),
+	prevPageKey: z.string().optional().describe( "Pass as pageKey to get the previous page" ),
+	totalElements: z.number().int().optional()
+} ).register( fdxSchemas, { id: "PageMetadata" } );
+
+export const errorSchema = z.strictObject( {
+	code: z.number().int().describe( "FDX error code" ),
+	message: z.string(),
+	debugMessage: z.string().optional().describe( "Request specific details; not for use in business logic" )
+} ).register( fdxSchemas, { id: "Error" } );
+
+/**
+ * Create the schema of a paginated list response, e.g. { page, accounts: [...] }
+ */
+function listSchema<K extends string>( id: string, key: K, item: z.ZodType ) {
+	return z.strictObject( {
+		page: pageMetadataSchema,
+		[key]: z.array( item )
+	} as { page: typeof pageMetadataSchema } & Record<K, z.ZodArray<z.ZodType>> ).register( fdxSchemas, { id } );
+}
+
+export const accountsResponseSchema = listSchema( "Accounts", "accounts", accountSchema );
+export const statementsResponseSchema = listSchema( "Statements", "statements", statementSchema );
+export const transactionsResponseSchema = listSchema( "Transactions", "transactions", transactionSchema );
+export const holdingsResponseSchema = listSchema( "Holdings", "holdings", holdingSchema );
+export const paymentNetworksResponseSchema = listSchema( "PaymentNetworks", "paymentNetworks", paymentNetworkSchema );
+export const assetTransferNetworksResponseSchema = listSchema( "AssetTransferNetworks", "assetTransferNetworks", assetTransferNetworkSchema );
+export const taxFormsResponseSchema = listSchema( "TaxDataList", "forms", taxFormSchema );
+export const notificationDeliveriesResponseSchema = listSchema( "NotificationDeliveries", "deliveries", notificationDeliverySchema );
+
+/**
+ * Schema of a dataset file served with API_DATA_SOURCE=file, e.g. one written by the data generator.
+ * Not registered, as it's a file format rather than part of the API.
+ */
+export const datasetSchema: z.ZodType<Dataset> = z.strictObject( {
+	customers: z.array( customerSchema ),
+	customerSubjects: z.record( z.string(), z.string() ),
+	customerAccounts: z.record( z.string(), z.array( z.string() ) ),
+	accounts: z.array( accountSchema ),
+	accountContacts: z.record( z.string(), accountContactSchema ),
+	accountStatements: z.record( z.string(), z.array( statementSchema ) ),
+	accountTransactions: z.record( z.string(), z.array( transactionSchema ) ),
+	accountHoldings: z.record( z.string(), z.array( holdingSchema ) ),
+	accountPaymentNetworks: z.record( z.string(), z.array( paymentNetworkSchema ) ),
+	accountAssetTransferNetworks: z.record( z.string(), z.array( assetTransferNetworkSchema ) )
+} );
@@ -0,0 +1,100 @@
+import { getAccountById, getAccountStatements, getAccountStatementById, getAccountTransactions } from "./accountsRepository.js";
+import type { Account, Transaction, StatementPeriod } from "./types.js";
+
+// Large enough to read every record of an account in one call
+const ALL_RECORDS = Number.MAX_SAFE_INTEGER;
+
+// Balances on credit cards and loans are amounts owed, so debits increase them
+const OWED_BALANCE_CATEGORIES = new Set( [ "LOC_ACCOUNT", "LOAN_ACCOUNT" ] );
+
+function toDateOnly( value: string ): string {
+	return new Date( value ).toISOString().slice( 0, 10 );
+}
+
+function addDays( date: string, days: number ): string {
+	const result = new Date( `${ date }T00:00:00.000Z` );
+	result.setUTCDate( result.getUTCDate() + days );
+	return result.toISOString().slice( 0, 10 );
+}
+
+/**
+ * The same day one month earlier, clamped to the end of that month (2025-03-31 -> 2025-02-28)
+ */
+function oneMonthBefore( date: string ): string {
+	const [ year, month, day ] = date.split( "-" ).map( Number );
+	const lastDayOfPreviousMonth = new Date( Date.UTC( year, month - 1, 0 ) ).getUTCDate();
+	return new Date( Date.UTC( year, month - 2, Math.min( day, lastDayOfPreviousMonth ) ) ).toISOString().slice( 0, 10 );
+}
+
+function roundCents( amount: number ): number {
+	return Math.round( amount * 100 ) / 100;
+}
+
+/**
+ * The balance a statement reports: cash for investment accounts, the current balance otherwise
+ */
+function getBalance( account: Account ): number {
+	return account.accountCategory === "INVESTMENT_ACCOUNT"
+		? account.availableCashBalance ?? 0
+		: account.currentBalance ?? 0;
+}
+
+/**
+ * How much a posted transaction changed the account balance
+ */
+function balanceChange( account: Account, transaction: Transaction ): number {
+	const signed = transaction.debitCreditMemo === "DEBIT" ? -transaction.amount : transaction.amount;
+	return OWED_BALANCE_CATEGORIES.has( account.accountCategory ) ? -signed : signed;
+}
+
+/**
+ * Get the period a statement covers, with its opening and closing balances and posted transactions
+ *
+ * The period runs from the day after the previous statementDate (or one month back for the
+ * first statement) through the statementDate. Balances are worked back from the account's
+ * current balance by undoing the transactions posted after the period.
+ */
+export async function getStatementPeriod( customerId: string, accountId: string, statementId: string ): Promise<StatementPeriod | null> {
+	const [ account, statement ] = await Promise.all( [
+		getAccountById( customerId, accountId ),
+		getAccountStatementById( customerId, accountId, statementId )
+	] );
+	if ( !account || !statement ) return null;
+
+	const endDate = toDateOnly( statement.statementDate );
+	const { statements } = await getAccountStatements( customerId, accountId, { limit: ALL_RECORDS } );
+	const previousDate = statements
+		.map( ( s ) => toDateOnly( s.statementDate ) )
+		.filter( ( date ) => date < endDate )
+		.sort()
+		.pop() ?? oneMonthBefore( endDate );
+
+	const { transactions } = await getAccountTransactions( customerId, accountId, { limit: ALL_RECORDS } );
+	const posted = transactions
+		.filter( ( transaction ) => transaction.status === "POSTED" )
+		.sort( ( a, b ) => a.postedTimestamp.localeCompare( b.postedTimestamp ) );
+
+	const inPeriod = posted.filter( ( transaction ) => {
+		const date = toDateOnly( transaction.postedTimestamp );
+		return date > previousDate && date <= endDate;
+	} );
+	const afterPeriod = posted.filter( ( transaction ) => toDateOnly( transaction.postedTimestamp ) > endDate );
+
+	const closingBalance = afterPeriod.reduce( ( balance, transaction ) => balance - balanceChange( account, transaction ), getBalance( account ) );
+	const openingBalance = inPeriod.reduce( ( balance, transaction ) => balance - balanceChange( account, transaction ), closingBalance );
+
+	let runningBalance = openingBalance;
+	const entries = inPeriod.map( ( transaction ) => {
+		runningBalance += balanceChange( account, transaction );
+		return { transaction, balance: roundCents( runningBalance ) };
+	} );
+
+	return {
+		statement,
+		startDate: addDays( previousDate, 1 ),
+		endDate,
+		openingBalance: roundCents( openingBalance ),
+		closingBalance: roundCents( closingBalance ),
+		entries
+	};
+}
@@ -0,0 +1,202 @@
+/**
+ * Pluggable storage backends for the API repositories
+ *
+ * The repositories in ../accountsRepository.ts and ../customersRepository.ts delegate
+ * to the data store selected by API_DATA_STORE, so routes never depend on where the
+ * data lives. API_DATA_SOURCE selects what the store is loaded with: the hand-written
+ * fixtures, a dataset generated at startup, or a dataset file.
+ */
+
+import { readFileSync } from "fs";
+import { getOptionalEnv, getEnvBoolean } from "@apps/shared";
+import { formatZodError } from "@apps/shared/validation";
+import type {
+	Account,
+	AccountContact,
+	Statement,
+	Transaction,
+	Customer,
+	CustomerFilters,
+	Dataset,
+	PaginatedAccountsResult,
+	PaginatedStatementsResult,
+	PaginatedHoldingsResult,
+	PaginatedTransactionsResult,
+	TransactionFilters,
+	PaginatedPaymentNetworksResult,
+	PaginatedAssetTransferNetworksResult,
+	StoredConsent,
+	NotificationType,
+	StoredNotificationSubscription,
+	NotificationDelivery,
+	PaginatedNotificationDeliveriesResult,
+	PageRequest
+} from "../types.js";
+import * as accountFixtures from "../accounts.js";
+import * as customerFixtures from "../customers.js";
+import { DEFAULT_GENERATOR_OPTIONS, generateDataset, generatorOptionsSchema } from "../generator.js";
+import { datasetSchema } from "../schemas.js";
+import { createMemoryStore } from "./memory.js";
+
+/**
+ * Operations every data store implements
+ * All account queries are scoped to the customer that holds the accounts
+ */
+export interface DataStore {
+	readonly name: string;
+	getCustomerIdBySubject( sub: string ): Promise<string | null>;
+	getCustomerById( customerId: string ): Promise<Customer | null>;
+	getCustomers( filters?: CustomerFilters ): Promise<Customer[]>;
+	getAccounts( customerId: string, page?: PageRequest, accountIds?: string[] ): Promise<PaginatedAccountsResult>;
+	getAccountById( customerId: string, accountId: string ): Promise<Account | null>;
+	getAccountContactById( customerId: string, accountId: string ): Promise<AccountContact | null>;
+	getAccountStatements( customerId: string, accountId: string, page?: PageRequest, startTime?: string, endTime?: string ): Promise<PaginatedStatementsResult>;
+	getAccountStatementById( customerId: string, accountId: string, statementId: string ): Promise<Statement | null>;
+	getAccountTransactions( customerId: string, accountId: string, page?: PageRequest, filters?: TransactionFilters ): Promise<PaginatedTransactionsResult>;
+	getAccountHoldings( customerId: string, accountId: string, page?: PageRequest ): Promise<PaginatedHoldingsResult>;
+	getPaymentNetworks( customerId: string, accountId: string, page?: PageRequest ): Promise<PaginatedPaymentNetworksResult>;
+	getAssetTransferNetworks( customerId: string, accountId: string, page?: PageRequest ): Promise<PaginatedAssetTransferNetworksResult>;
+
+	// Unscoped access for background jobs such as the transaction simulation, never for requests
+	listAccounts(): Promise<Account[]>;
+	listTransactions( accountId: string, filters?: TransactionFilters ): Promise<Transaction[]>;
+	saveAccount( account: Account ): Promise<void>;
+	saveTransaction( accountId: string, transaction: Transaction ): Promise<void>;  // Updates in place if the transactionId exists
+	saveStatement( statement: Statement ): Promise<void>;  // Updates in place if the account has the statementId
+	deleteTransaction( accountId: string, transactionId: string ): Promise<void>;
+
+	// Consents as last recorded by the API, scoped to the client they were given to. The authorization
+	// server holds the active ones; the store keeps what it no longer can, such as revocations.
+	getConsent( clientId: string, consentId: string ): Promise<StoredConsent | null>;
+	saveConsent( consent: StoredConsent ): Promise<void>;  // Updates in place if the consent ID exists
+
+	// Notification subscriptions and their delivery log, scoped to the client that created them
+	getNotificationSubscription( clientId: string, subscriptionId: string ): Promise<StoredNotificationSubscription | null>;
+	saveNotificationSubscription( subscription: StoredNotificationSubscription ): Promise<void>;
+	deleteNotificationSubscription( clientId: string, subscriptionId: string ): Promise<boolean>;  // Also deletes its delivery log
+	getNotificationDeliveries( clientId: string, subscriptionId: string, page?: PageRequest ): Promise<PaginatedNotificationDeliveriesResult>;
+
+	// Unscoped access for the notification dispatcher
+	listNotificationSubscriptions( type: NotificationType ): Promise<StoredNotificationSubscription[]>;
+	listPendingNotificationDeliveries(): Promise<NotificationDelivery[]>;
+	saveNotificationDelivery( delivery: NotificationDelivery ): Promise<void>;  // Updates in place if the deliveryId exists
+}
+
+/**
+ * Change made to the data through a data store, reported to the listeners registered with onDataChange
+ */
+export type DataChangeEvent =
+	| { type: "account"; account: Account }  // The account as saved
+	| { type: "statement"; statement: Statement }  // The statement as saved
+	| { type: "consent"; consent: StoredConsent };  // The consent as saved
+
+export type DataChangeListener = ( event: DataChangeEvent ) => void;
+
+export const DATA_STORE_TYPES = [ "memory", "sqlite" ] as const;
+
+export type DataStoreType = typeof DATA_STORE_TYPES[number];
+
+export const DATA_SOURCES = [ "fixtures", "generated", "file" ] as const;
+
+export type DataSource = typeof DATA_SOURCES[number];
+
+let dataStorePromise: Promise<DataStore> | null = null;
+
+const dataChangeListeners: DataChangeListener[] = [];
+
+/**
+ * Register a listener for changes made through the data store, e.g. to send notifications.
+ * Listeners run synchronously after the change is saved, so they should hand off slow work.
+ */
+export function onDataChange( listener: DataChangeListener ): void {
+	dataChangeListeners.push( listener );
+}
+
+/**
+ * Wrap a data store so the writes that change what recipients see are reported to the listeners
+ */
+function withChangeEvents( store: DataStore ): DataStore {
+	return {
+		...store,
+		async saveAccount( account: Account ): Promise<void> {
+			await store.saveAccount( account );
+			for ( const listener of dataChangeListeners ) {
+				listener( { type: "account", account } );
+			}
+		},
+		async saveStatement( statement: Statement ): Promise<void> {
+			await store.saveStatement( statement );
+			for ( const listener of dataChangeListeners ) {
+				listener( { type: "statement", statement } );
+			}
+		},
+		async saveConsent( consent: StoredConsent ): Promise<void> {
+			await store.saveConsent( consent );
+			for ( const listener of dataChangeListeners ) {
+				listener( { type: "consent", consent } );
+			}
+		}
+	};
+}
+
+/**
+ * Load the dataset selected by the API_DATA_SOURCE environment variable
+ */
+function loadDataset(): Dataset {
+	const source = getOptionalEnv( "API_DATA_SOURCE", "fixtures" ) as DataSource;
+	if ( !DATA_SOURCES.includes( source ) ) {
+		throw new Error( `Invalid API_DATA_SOURCE "${ source }": expected one of ${ DATA_SOURCES.join( ", " ) }` );
+	}
+
+	if ( source === "generated" ) {
+		const options = generatorOptionsSchema.safeParse( {
+			seed: getOptionalEnv( "API_GENERATOR_SEED", String( DEFAULT_GENERATOR_OPTIONS.seed ) ),
+			customers: getOptionalEnv( "API_GENERATOR_CUSTOMERS", String( DEFAULT_GENERATOR_OPTIONS.customers ) ),
+			years: getOptionalEnv( "API_GENERATOR_YEARS", String( DEFAULT_GENERATOR_OPTIONS.years ) ),
+			endDate: getOptionalEnv( "API_GENERATOR_END_DATE", DEFAULT_GENERATOR_OPTIONS.endDate )
+		} );
+		if ( !options.success ) {
+			throw new Error( `Invalid API_GENERATOR_* settings: ${ formatZodError( options.error ) }` );
+		}
+		return generateDataset( options.data );
+	}
+
+	if ( source === "file" ) {
+		const path = getOptionalEnv( "API_DATA_FILE", "dataset.json" );
+		const dataset = datasetSchema.safeParse( JSON.parse( readFileSync( path, "utf8" ) ) );
+		if ( !dataset.success ) {
+			throw new Error( `Invalid dataset in API_DATA_FILE "${ path }": ${ formatZodError( dataset.error ) }` );
+		}
+		return dataset.data;
+	}
+
+	return { ...accountFixtures, ...customerFixtures };
+}
+
+/**
+ * Create the data store selected by the API_DATA_STORE environment variable
+ */
+async function createDataStore(): Promise<DataStore> {
+	const type = getOptionalEnv( "API_DATA_STORE", "memory" ) as DataStoreType;
+	if ( !DATA_STORE_TYPES.includes( type ) ) {
+		throw new Error( `Invalid API_DATA_STORE "${ type }": expected one of ${ DATA_STORE_TYPES.join( ", " ) }` );
+	}
+
+	if ( type === "sqlite" ) {
+		// Loaded lazily so the experimental node:sqlite module is only used when selected
+		const { createSqliteStore } = await import( "./sqlite.js" );
+		return createSqliteStore( getOptionalEnv( "API_SQLITE_PATH", "api.sqlite" ), {
+			seed: getEnvBoolean( "API_SQLITE_SEED", true ) ? loadDataset() : undefined
+		} );
+	}
+
+	return createMemoryStore( loadDataset() );
+}
+
+/**
+ * Get the configured data store, creating it on first use
+ */
+export function getDataStore(): Promise<DataStore> {
+	dataStorePromise ??= createDataStore().then( withChangeEvents );
+	return dataStorePromise;
+}
@@ -0,0 +1,434 @@
+/**
+ * In-memory data store backed by a dataset: the hand-written fixtures in ../accounts.ts and
+ * ../customers.ts or a generated one
+ */
+
+import type {
+	Account,
+	AccountContact,
+	Statement,
+	Transaction,
+	Customer,
+	CustomerFilters,
+	PaginatedAccountsResult,
+	PaginatedStatementsResult,
+	PaginatedHoldingsResult,
+	PaginatedTransactionsResult,
+	TransactionFilters,
+	PaginatedPaymentNetworksResult,
+	PaginatedAssetTransferNetworksResult,
+	StoredConsent,
+	NotificationType,
+	StoredNotificationSubscription,
+	NotificationDelivery,
+	PaginatedNotificationDeliveriesResult,
+	PageRequest,
+	Dataset
+} from "../types.js";
+import {
+	accountOrder,
+	statementOrder,
+	transactionOrder,
+	holdingOrder,
+	paymentNetworkOrder,
+	assetTransferNetworkOrder,
+	notificationDeliveryOrder,
+	getPosition,
+	comparePositions,
+	paginateRows
+} from "../ordering.js";
+import type { DataStore } from "./index.js";
+
+// Simulating async database operations with promises
+// Every query is scoped to the customer that owns the accounts, so one
+// customer's account IDs never resolve for another customer's token
+
+/**
+ * Check whether a transaction passes all of the given filters
+ */
+function matchesTransactionFilters( tx: Transaction, filters: TransactionFilters ): boolean {
+	const postedDate = new Date( tx.postedTimestamp );
+	if ( filters.startTime && postedDate < new Date( filters.startTime ) ) return false;
+	if ( filters.endTime && postedDate > new Date( filters.endTime ) ) return false;
+	if ( filters.minAmount !== undefined && tx.amount < filters.minAmount ) return false;
+	if ( filters.maxAmount !== undefined && tx.amount > filters.maxAmount ) return false;
+	if ( filters.debitCreditMemo && tx.debitCreditMemo !== filters.debitCreditMemo ) return false;
+	if ( filters.transactionTypes && !filters.transactionTypes.includes( tx.transactionType ) ) return false;
+	if ( filters.statuses && !filters.statuses.includes( tx.status ) ) return false;
+	if ( filters.search ) {
+		const search = filters.search.toLowerCase();
+		return [ tx.payee, tx.description ].some( ( text ) => text?.toLowerCase().includes( search ) );
+	}
+	return true;
+}
+
+/**
+ * Sort transactions by a sort order such as "-amount", oldest first without one
+ */
+function sortTransactions( transactions: Transaction[], sort: TransactionFilters["sort"] ): Transaction[] {
+	const order = transactionOrder( sort );
+	return [ ...transactions ].sort( ( a, b ) => comparePositions( order, getPosition( order, a ), getPosition( order, b ) ) );
+}
+
+/**
+ * Create the in-memory data store. Background jobs change the dataset in place.
+ */
+export function createMemoryStore( dataset: Dataset ): DataStore {
+	const {
+		customers,
+		customerSubjects,
+		customerAccounts,
+		accounts,
+		accountContacts,
+		accountStatements,
+		accountTransactions,
+		accountHoldings,
+		accountPaymentNetworks,
+		accountAssetTransferNetworks
+	} = dataset;
+
+	// Subscriptions and deliveries aren't part of the dataset, so they start empty on every restart
+	const consents = new Map<string, StoredConsent>();
+	const notificationSubscriptions: StoredNotificationSubscription[] = [];
+	const notificationDeliveries: NotificationDelivery[] = [];
+
+	/**
+	 * Check whether a customer holds the given account
+	 */
+	function ownsAccount( customerId: string, accountId: string ): boolean {
+		return ( customerAccounts[customerId] || [] ).includes( accountId );
+	}
+
+	return {
+		name: "memory",
+
+		/**
+		 * Resolve the customer ID for an OAuth subject (the `sub` claim of the access token)
+		 */
+		async getCustomerIdBySubject( sub: string ): Promise<string | null> {
+			// Simulate database query delay
+			return new Promise<string | null>( ( resolve ) => {
+				setTimeout( () => {
+					resolve( customerSubjects[sub] || null );
+				}, 25 ); // Simulate 25ms delay
+			} );
+		},
+
+		/**
+		 * Get customer by ID
+		 */
+		async getCustomerById( customerId: string ): Promise<Customer | null> {
+			// Simulate database query delay
+			return new Promise<Customer | null>( ( resolve ) => {
+				setTimeout( () => {
+					const customer = customers.find( ( c: Customer ) => c.customerId === customerId );
+					resolve( customer || null );
+				}, 50 ); // Simulate 50ms delay
+			} );
+		},
+
+		/**
+		 * Get all customers with optional filtering
+		 */
+		async getCustomers( filters: CustomerFilters = {} ): Promise<Customer[]> {
+			// Simulate database query delay
+			return new Promise<Customer[]>( ( resolve ) => {
+				setTimeout( () => {
+					let filteredCustomers = [ ...customers ];
+
+					// Apply filters if provided
+					if ( filters.status ) {
+						filteredCustomers = filteredCustomers.filter( ( c: Customer ) => c.status === filters.status );
+					}
+
+					resolve( filteredCustomers );
+				}, 100 ); // Simulate 100ms delay
+			} );
+		},
+
+		/**
+		 * Get all accounts held by a customer with pagination support
+		 * Optionally restricted to a set of account IDs (e.g. the accounts consented for a token)
+		 */
+		async getAccounts( customerId: string, page: PageRequest = { limit: 10 }, accountIds?: string[] ): Promise<PaginatedAccountsResult> {
+			// Simulate database query delay
+			return new Promise<PaginatedAccountsResult>( ( resolve ) => {
+				setTimeout( () => {
+					const ownedAccounts = accounts.filter( ( acc: Account ) =>
+						ownsAccount( customerId, acc.accountId ) && ( !accountIds || accountIds.includes( acc.accountId ) )
+					);
+					const { rows, total, offset } = paginateRows( ownedAccounts, accountOrder, page );
+					resolve( {
+						accounts: rows,
+						total,
+						offset
+					} );
+				}, 100 ); // Simulate 100ms delay
+			} );
+		},
+
+		/**
+		 * Get a single account by ID
+		 */
+		async getAccountById( customerId: string, accountId: string ): Promise<Account | null> {
+			// Simulate database query delay
+			return new Promise<Account | null>( ( resolve ) => {
+				setTimeout( () => {
+					if ( !ownsAccount( customerId, accountId ) ) {
+						resolve( null );
+						return;
+					}
+					const account = accounts.find( ( acc: Account ) => acc.accountId === accountId );
+					resolve( account || null );
+				}, 50 ); // Simulate 50ms delay
+			} );
+		},
+
+		/**
+		 * Get account contact information by account ID
+		 */
+		async getAccountContactById( customerId: string, accountId: string ): Promise<AccountContact | null> {
+			// Simulate database query delay
+			return new Promise<AccountContact | null>( ( resolve ) => {
+				setTimeout( () => {
+					if ( !ownsAccount( customerId, accountId ) ) {
+						resolve( null );
+						return;
+					}
+					const contactInfo = accountContacts[accountId];
+					resolve( contactInfo || null );
+				}, 50 ); // Simulate 50ms delay
+			} );
+		},
+
+		/**
+		 * Get account statements with pagination and optional time filtering
+		 */
+		async getAccountStatements( customerId: string, accountId: string, page: PageRequest = { limit: 100 }, startTime = "", endTime = "" ): Promise<PaginatedStatementsResult> {
+			return new Promise<PaginatedStatementsResult>( ( resolve ) => {
+				setTimeout( () => {
+					if ( !ownsAccount( customerId, accountId ) ) {
+						resolve( { statements: [], total: 0, offset: 0 } );
+						return;
+					}
+					const startDate = startTime ? new Date( startTime ) : new Date( 0 );
+					const endDate = endTime ? new Date( endTime ) : new Date( 8640000000000000 ); // Max date
+
+					// Filter statements by startTime and endTime (assumes validated in route)
+					const statementsForAccount = accountStatements[accountId] || [];
+					const statements = statementsForAccount.filter( ( statement: Statement ) => {
+						const statementDate = new Date( statement.statementDate );
+						return statementDate >= startDate && statementDate <= endDate;
+					} );
+					const { rows, total, offset } = paginateRows( statements, statementOrder, page );
+					resolve( {
+						statements: rows,
+						total,
+						offset
+					} );
+				}, 100 ); // Simulate 100ms delay
+			} );
+		},
+
+		/**
+		 * Get a single account statement by ID
+		 */
+		async getAccountStatementById( customerId: string, accountId: string, statementId: string ): Promise<Statement | null> {
+			return new Promise<Statement | null>( ( resolve ) => {
+				setTimeout( () => {
+					if ( !ownsAccount( customerId, accountId ) ) {
+						resolve( null );
+						return;
+					}
+					const statementsForAccount = accountStatements[accountId] || [];
+					const statement = statementsForAccount.find( ( s: Statement ) => s.statementId === statementId ) || null;
+					resolve( statement );
+				}, 50 );
+			} );
+		},
+
+		/**
+		 * Get account transactions with pagination, filtering and sorting
+		 */
+		async getAccountTransactions( customerId: string, accountId: string, page: PageRequest = { limit: 100 }, filters: TransactionFilters = {} ): Promise<PaginatedTransactionsResult> {
+			return new Promise<PaginatedTransactionsResult>( ( resolve ) => {
+				setTimeout( () => {
+					if ( !ownsAccount( customerId, accountId ) ) {
+						resolve( { transactions: [], total: 0, offset: 0 } );
+						return;
+					}
+					const transactionsForAccount = accountTransactions[accountId] || [];
+					const { rows, total, offset } = paginateRows(
+						transactionsForAccount.filter( ( tx ) => matchesTransactionFilters( tx, filters ) ),
+						transactionOrder( filters.sort ),
+						page
+					);
+					resolve( {
+						transactions: rows,
+						total,
+						offset
+					} );
+				}, 100 );
+			} );
+		},
+
+		/**
+		 * Get the holdings (positions) of an investment account with pagination
+		 */
+		async getAccountHoldings( customerId: string, accountId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedHoldingsResult> {
+			return new Promise<PaginatedHoldingsResult>( ( resolve ) => {
+				setTimeout( () => {
+					if ( !ownsAccount( customerId, accountId ) ) {
+						resolve( { holdings: [], total: 0, offset: 0 } );
+						return;
+					}
+					const { rows, total, offset } = paginateRows( accountHoldings[accountId] || [], holdingOrder, page );
+					resolve( { holdings: rows, total, offset } );
+				}, 100 );
+			} );
+		},
+
+		/**
+		 * Get payment networks for an account with pagination
+		 */
+		async getPaymentNetworks( customerId: string, accountId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedPaymentNetworksResult> {
+			return new Promise<PaginatedPaymentNetworksResult>( ( resolve ) => {
+				setTimeout( () => {
+					if ( !ownsAccount( customerId, accountId ) ) {
+						resolve( { paymentNetworks: [], total: 0, offset: 0 } );
+						return;
+					}
+					const { rows, total, offset } = paginateRows( accountPaymentNetworks[accountId] || [], paymentNetworkOrder, page );
+					resolve( { paymentNetworks: rows, total, offset } );
+				}, 100 );
+			} );
+		},
+
+		/**
+		 * Get asset transfer networks for an account with pagination
+		 */
+		async getAssetTransferNetworks( customerId: string, accountId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedAssetTransferNetworksResult> {
+			return new Promise<PaginatedAssetTransferNetworksResult>( ( resolve ) => {
+				setTimeout( () => {
+					if ( !ownsAccount( customerId, accountId ) ) {
+						resolve( { assetTransferNetworks: [], total: 0, offset: 0 } );
+						return;
+					}
+					const { rows, total, offset } = paginateRows( accountAssetTransferNetworks[accountId] || [], assetTransferNetworkOrder, page );
+					resolve( { assetTransferNetworks: rows, total, offset } );
+				}, 100 );
+			} );
+		},
+
+		// Background jobs don't get a simulated delay
+
+		async listAccounts(): Promise<Account[]> {
+			return [ ...accounts ];
+		},
+
+		async listTransactions( accountId: string, filters: TransactionFilters = {} ): Promise<Transaction[]> {
+			const transactionsForAccount = accountTransactions[accountId] || [];
+			return sortTransactions( transactionsForAccount.filter( ( tx ) => matchesTransactionFilters( tx, filters ) ), filters.sort );
+		},
+
+		async saveAccount( account: Account ): Promise<void> {
+			const index = accounts.findIndex( ( acc: Account ) => acc.accountId === account.accountId );
+			if ( index === -1 ) {
+				accounts.push( account );
+			} else {
+				accounts[index] = account;
+			}
+		},
+
+		async saveTransaction( accountId: string, transaction: Transaction ): Promise<void> {
+			const transactionsForAccount = accountTransactions[accountId] ??= [];
+			const index = transactionsForAccount.findIndex( ( tx ) => tx.transactionId === transaction.transactionId );
+			if ( index === -1 ) {
+				transactionsForAccount.push( transaction );
+			} else {
+				transactionsForAccount[index] = transaction;
+			}
+		},
+
+		async saveStatement( statement: Statement ): Promise<void> {
+			const statementsForAccount = accountStatements[statement.accountId] ??= [];
+			const index = statementsForAccount.findIndex( ( s ) => s.statementId === statement.statementId );
+			if ( index === -1 ) {
+				statementsForAccount.push( statement );
+			} else {
+				statementsForAccount[index] = statement;
+			}
+		},
+
+		async deleteTransaction( accountId: string, transactionId: string ): Promise<void> {
+			const transactionsForAccount = accountTransactions[accountId] || [];
+			const index = transactionsForAccount.findIndex( ( tx ) => tx.transactionId === transactionId );
+			if ( index !== -1 ) {
+				transactionsForAccount.splice( index, 1 );
+			}
+		},
+
+		async getConsent( clientId: string, consentId: string ): Promise<StoredConsent | null> {
+			const consent = consents.get( consentId );
+			return consent?.clientId === clientId ? consent : null;
+		},
+
+		async saveConsent( consent: StoredConsent ): Promise<void> {
+			consents.set( consent.id, consent );
+		},
+
+		async getNotificationSubscription( clientId: string, subscriptionId: string ): Promise<StoredNotificationSubscription | null> {
+			return notificationSubscriptions.find( ( subscription ) =>
+				subscription.clientId === clientId && subscription.subscriptionId === subscriptionId
+			) || null;
+		},
+
+		async saveNotificationSubscription( subscription: StoredNotificationSubscription ): Promise<void> {
+			const index = notificationSubscriptions.findIndex( ( existing ) => existing.subscriptionId === subscription.subscriptionId );
+			if ( index === -1 ) {
+				notificationSubscriptions.push( subscription );
+			} else {
+				notificationSubscriptions[index] = subscription;
+			}
+		},
+
+		async deleteNotificationSubscription( clientId: string, subscriptionId: string ): Promise<boolean> {
+			const index = notificationSubscriptions.findIndex( ( subscription ) =>
+				subscription.clientId === clientId && subscription.subscriptionId === subscriptionId
+			);
+			if ( index === -1 ) return false;
+			notificationSubscriptions.splice( index, 1 );
+			for ( let i = notificationDeliveries.length - 1; i >= 0; i-- ) {
+				if ( notificationDeliveries[i].subscriptionId === subscriptionId ) {
+					notificationDeliveries.splice( i, 1 );
+				}
+			}
+			return true;
+		},
+
+		async getNotificationDeliveries( clientId: string, subscriptionId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedNotificationDeliveriesResult> {
+			const deliveries = notificationDeliveries.filter( ( delivery ) =>
+				delivery.clientId === clientId && delivery.subscriptionId === subscriptionId
+			);
+			const { rows, total, offset } = paginateRows( deliveries, notificationDeliveryOrder, page );
+			return { deliveries: rows, total, offset };
+		},
+
+		async listNotificationSubscriptions( type: NotificationType ): Promise<StoredNotificationSubscription[]> {
+			return notificationSubscriptions.filter( ( subscription ) => subscription.type === type );
+		},
+
+		async listPendingNotificationDeliveries(): Promise<NotificationDelivery[]> {
+			return notificationDeliveries.filter( ( delivery ) => delivery.status === "PENDING" );
+		},
+
+		async saveNotificationDelivery( delivery: NotificationDelivery ): Promise<void> {
+			const index = notificationDeliveries.findIndex( ( existing ) => existing.deliveryId === delivery.deliveryId );
+			if ( index === -1 ) {
+				notificationDeliveries.push( delivery );
+			} else {
+				notificationDeliveries[index] = delivery;
+			}
+		}
+	};
+}
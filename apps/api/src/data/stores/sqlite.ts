@@ -0,0 +1,684 @@
+/**
+ * SQLite data store
+ *
+ * Uses the node:sqlite module built into Node.js 22. Entities are stored as JSON
+ * documents next to the columns used for ownership, filtering and ordering, so new
+ * FDX fields don't need a schema change. Load your own data with any SQLite client;
+ * the configured dataset (fixtures or generated) is only seeded into an empty database.
+ */
+
+import { DatabaseSync } from "node:sqlite";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import type {
+	Account,
+	AccountContact,
+	Statement,
+	Transaction,
+	Holding,
+	PaymentNetwork,
+	AssetTransferNetwork,
+	Customer,
+	CustomerFilters,
+	PaginatedAccountsResult,
+	PaginatedStatementsResult,
+	PaginatedHoldingsResult,
+	PaginatedTransactionsResult,
+	TransactionFilters,
+	PaginatedPaymentNetworksResult,
+	PaginatedAssetTransferNetworksResult,
+	StoredConsent,
+	NotificationType,
+	StoredNotificationSubscription,
+	NotificationDelivery,
+	PaginatedNotificationDeliveriesResult,
+	PagePosition,
+	PageRequest,
+	Dataset
+} from "../types.js";
+import {
+	accountOrder,
+	statementOrder,
+	transactionOrder,
+	holdingOrder,
+	paymentNetworkOrder,
+	assetTransferNetworkOrder,
+	notificationDeliveryOrder,
+	type ListOrder
+} from "../ordering.js";
+import type { DataStore } from "./index.js";
+
+interface Migration {
+	version: number;
+	name: string;
+	sql: string;
+}
+
+/**
+ * Schema migrations, applied in order and recorded in schema_migrations.
+ * Never edit a released migration; append a new one instead.
+ */
+const MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		name: "create_core_tables",
+		sql: `
+			CREATE TABLE customers (
+				customer_id TEXT PRIMARY KEY,
+				status TEXT NOT NULL,
+				data TEXT NOT NULL
+			);
+			CREATE TABLE customer_subjects (
+				sub TEXT PRIMARY KEY,
+				customer_id TEXT NOT NULL REFERENCES customers ( customer_id )
+			);
+			CREATE TABLE accounts (
+				account_id TEXT PRIMARY KEY,
+				data TEXT NOT NULL
+			);
+			CREATE TABLE customer_accounts (
+				customer_id TEXT NOT NULL REFERENCES customers ( customer_id ),
+				account_id TEXT NOT NULL REFERENCES accounts ( account_id ),
+				PRIMARY KEY ( customer_id, account_id )
+			);
+			CREATE TABLE account_contacts (
+				account_id TEXT PRIMARY KEY REFERENCES accounts ( account_id ),
+				data TEXT NOT NULL
+			);
+			CREATE TABLE statements (
+				account_id TEXT NOT NULL REFERENCES accounts ( account_id ),
+				statement_id TEXT NOT NULL,
+				statement_date TEXT NOT NULL,
+				data TEXT NOT NULL,
+				PRIMARY KEY ( account_id, statement_id )
+			);
+			CREATE INDEX statements_date ON statements ( account_id, statement_date );
+			CREATE TABLE transactions (
+				account_id TEXT NOT NULL REFERENCES accounts ( account_id ),
+				transaction_id TEXT NOT NULL,
+				posted_timestamp TEXT NOT NULL,
+				data TEXT NOT NULL,
+				PRIMARY KEY ( account_id, transaction_id )
+			);
+			CREATE INDEX transactions_posted ON transactions ( account_id, posted_timestamp );
+			CREATE TABLE payment_networks (
+				account_id TEXT NOT NULL REFERENCES accounts ( account_id ),
+				data TEXT NOT NULL
+			);
+			CREATE INDEX payment_networks_account ON payment_networks ( account_id );
+			CREATE TABLE asset_transfer_networks (
+				account_id TEXT NOT NULL REFERENCES accounts ( account_id ),
+				data TEXT NOT NULL
+			);
+			CREATE INDEX asset_transfer_networks_account ON asset_transfer_networks ( account_id );
+		`
+	},
+	{
+		version: 2,
+		name: "create_holdings",
+		sql: `
+			CREATE TABLE holdings (
+				account_id TEXT NOT NULL REFERENCES accounts ( account_id ),
+				holding_id TEXT NOT NULL,
+				data TEXT NOT NULL,
+				PRIMARY KEY ( account_id, holding_id )
+			);
+		`
+	},
+	{
+		version: 3,
+		name: "create_notifications",
+		sql: `
+			CREATE TABLE notification_subscriptions (
+				subscription_id TEXT PRIMARY KEY,
+				client_id TEXT NOT NULL,
+				type TEXT NOT NULL,
+				data TEXT NOT NULL
+			);
+			CREATE INDEX notification_subscriptions_type ON notification_subscriptions ( type );
+			CREATE TABLE notification_deliveries (
+				delivery_id TEXT PRIMARY KEY,
+				subscription_id TEXT NOT NULL REFERENCES notification_subscriptions ( subscription_id ) ON DELETE CASCADE,
+				status TEXT NOT NULL,
+				data TEXT NOT NULL
+			);
+			CREATE INDEX notification_deliveries_subscription ON notification_deliveries ( subscription_id );
+			CREATE INDEX notification_deliveries_status ON notification_deliveries ( status );
+		`
+	},
+	{
+		version: 4,
+		name: "create_consents",
+		sql: `
+			CREATE TABLE consents (
+				consent_id TEXT PRIMARY KEY,
+				client_id TEXT NOT NULL,
+				data TEXT NOT NULL
+			);
+		`
+	}
+];
+
+interface DataRow {
+	data: string;
+}
+
+interface CountRow {
+	total: number;
+}
+
+// Query a page of rows is selected from: `from` holds the FROM and WHERE clauses
+interface PageQuery<T> {
+	select: string;
+	from: string;
+	params: ( string | number )[];
+	columns: string[];  // SQL expression of each sort key of the order
+	order: ListOrder<T>;
+}
+
+export interface SqliteStoreOptions {
+	// Dataset to seed when the database has no customers
+	seed?: Dataset;
+}
+
+/**
+ * Normalize a date or timestamp to an ISO 8601 string so SQLite can compare it lexically
+ */
+function toIsoTimestamp( value: string ): string {
+	return new Date( value ).toISOString();
+}
+
+function parseRows<T>( rows: unknown[] ): T[] {
+	return ( rows as DataRow[] ).map( ( row ) => JSON.parse( row.data ) as T );
+}
+
+function parseRow<T>( row: unknown ): T | null {
+	return row ? JSON.parse( ( row as DataRow ).data ) as T : null;
+}
+
+/**
+ * Build the ORDER BY expressions for the sort keys of a list order, or for its reverse
+ */
+function orderBy<T>( columns: string[], order: ListOrder<T>, reverse = false ): string {
+	return columns.map( ( column, i ) => `${ column } ${ !!order[i].descending !== reverse ? "DESC" : "ASC" }` ).join( ", " );
+}
+
+/**
+ * Build the condition matching the rows that sort after (or before) a position, comparing the
+ * sort keys in turn: ( a > ? OR ( a = ? AND ( b > ? ) ) )
+ */
+function seekCondition<T>( columns: string[], order: ListOrder<T>, position: PagePosition, after: boolean ): { sql: string; params: ( string | number )[] } {
+	let sql = "";
+	let params: ( string | number )[] = [];
+	for ( let i = columns.length - 1; i >= 0; i-- ) {
+		const operator = after !== !!order[i].descending ? ">" : "<";
+		if ( sql ) {
+			sql = `${ columns[i] } ${ operator } ? OR ( ${ columns[i] } = ? AND ( ${ sql } ) )`;
+			params = [ position[i], position[i], ...params ];
+		} else {
+			sql = `${ columns[i] } ${ operator } ?`;
+			params = [ position[i] ];
+		}
+	}
+	return { sql, params };
+}
+
+/**
+ * Run a function inside a transaction
+ */
+function inTransaction( db: DatabaseSync, fn: () => void ): void {
+	db.exec( "BEGIN" );
+	try {
+		fn();
+		db.exec( "COMMIT" );
+	} catch ( error ) {
+		db.exec( "ROLLBACK" );
+		throw error;
+	}
+}
+
+/**
+ * Apply pending schema migrations
+ */
+function migrate( db: DatabaseSync ): void {
+	db.exec( `
+		CREATE TABLE IF NOT EXISTS schema_migrations (
+			version INTEGER PRIMARY KEY,
+			name TEXT NOT NULL,
+			applied_at TEXT NOT NULL
+		)
+	` );
+	const applied = new Set(
+		( db.prepare( "SELECT version FROM schema_migrations" ).all() as { version: number }[] ).map( ( row ) => row.version )
+	);
+	const record = db.prepare( "INSERT INTO schema_migrations ( version, name, applied_at ) VALUES ( ?, ?, ? )" );
+
+	for ( const migration of MIGRATIONS ) {
+		if ( applied.has( migration.version ) ) continue;
+		inTransaction( db, () => {
+			db.exec( migration.sql );
+			record.run( migration.version, migration.name, new Date().toISOString() );
+		} );
+	}
+}
+
+/**
+ * Load a dataset into an empty database
+ */
+function seedDataset( db: DatabaseSync, dataset: Dataset ): void {
+	const {
+		customers,
+		customerSubjects,
+		customerAccounts,
+		accounts,
+		accountContacts,
+		accountStatements,
+		accountTransactions,
+		accountHoldings,
+		accountPaymentNetworks,
+		accountAssetTransferNetworks
+	} = dataset;
+
+	const { total } = db.prepare( "SELECT COUNT(*) AS total FROM customers" ).get() as unknown as CountRow;
+	if ( total > 0 ) return;
+
+	inTransaction( db, () => {
+		const insertCustomer = db.prepare( "INSERT INTO customers ( customer_id, status, data ) VALUES ( ?, ?, ? )" );
+		for ( const customer of customers ) {
+			insertCustomer.run( customer.customerId, customer.status, JSON.stringify( customer ) );
+		}
+
+		const insertAccount = db.prepare( "INSERT INTO accounts ( account_id, data ) VALUES ( ?, ? )" );
+		for ( const account of accounts ) {
+			insertAccount.run( account.accountId, JSON.stringify( account ) );
+		}
+
+		const insertSubject = db.prepare( "INSERT INTO customer_subjects ( sub, customer_id ) VALUES ( ?, ? )" );
+		for ( const [ sub, customerId ] of Object.entries( customerSubjects ) ) {
+			insertSubject.run( sub, customerId );
+		}
+
+		const insertOwnership = db.prepare( "INSERT INTO customer_accounts ( customer_id, account_id ) VALUES ( ?, ? )" );
+		for ( const [ customerId, accountIds ] of Object.entries( customerAccounts ) ) {
+			for ( const accountId of accountIds ) {
+				insertOwnership.run( customerId, accountId );
+			}
+		}
+
+		const insertContact = db.prepare( "INSERT INTO account_contacts ( account_id, data ) VALUES ( ?, ? )" );
+		for ( const [ accountId, contact ] of Object.entries( accountContacts ) ) {
+			insertContact.run( accountId, JSON.stringify( contact ) );
+		}
+
+		const insertStatement = db.prepare( "INSERT INTO statements ( account_id, statement_id, statement_date, data ) VALUES ( ?, ?, ?, ? )" );
+		for ( const [ accountId, statements ] of Object.entries( accountStatements ) ) {
+			for ( const statement of statements ) {
+				insertStatement.run( accountId, statement.statementId, toIsoTimestamp( statement.statementDate ), JSON.stringify( statement ) );
+			}
+		}
+
+		const insertTransaction = db.prepare( "INSERT INTO transactions ( account_id, transaction_id, posted_timestamp, data ) VALUES ( ?, ?, ?, ? )" );
+		for ( const [ accountId, transactions ] of Object.entries( accountTransactions ) ) {
+			for ( const transaction of transactions ) {
+				insertTransaction.run( accountId, transaction.transactionId, toIsoTimestamp( transaction.postedTimestamp ), JSON.stringify( transaction ) );
+			}
+		}
+
+		const insertHolding = db.prepare( "INSERT INTO holdings ( account_id, holding_id, data ) VALUES ( ?, ?, ? )" );
+		for ( const [ accountId, holdings ] of Object.entries( accountHoldings ) ) {
+			for ( const holding of holdings ) {
+				insertHolding.run( accountId, holding.holdingId, JSON.stringify( holding ) );
+			}
+		}
+
+		const insertPaymentNetwork = db.prepare( "INSERT INTO payment_networks ( account_id, data ) VALUES ( ?, ? )" );
+		for ( const [ accountId, networks ] of Object.entries( accountPaymentNetworks ) ) {
+			for ( const network of networks ) {
+				insertPaymentNetwork.run( accountId, JSON.stringify( network ) );
+			}
+		}
+
+		const insertAssetTransferNetwork = db.prepare( "INSERT INTO asset_transfer_networks ( account_id, data ) VALUES ( ?, ? )" );
+		for ( const [ accountId, networks ] of Object.entries( accountAssetTransferNetworks ) ) {
+			for ( const network of networks ) {
+				insertAssetTransferNetwork.run( accountId, JSON.stringify( network ) );
+			}
+		}
+	} );
+}
+
+/**
+ * Open (or create) the SQLite database, migrate it and return a data store bound to it
+ */
+export function createSqliteStore( filename: string, options: SqliteStoreOptions = {} ): DataStore {
+	if ( filename !== ":memory:" ) {
+		mkdirSync( dirname( filename ), { recursive: true } );
+	}
+
+	const db = new DatabaseSync( filename );
+	db.exec( "PRAGMA journal_mode = WAL;" );
+	db.exec( "PRAGMA foreign_keys = ON;" );
+	migrate( db );
+	if ( options.seed ) {
+		seedDataset( db, options.seed );
+	}
+
+	const statements = {
+		customerIdBySubject: db.prepare( "SELECT customer_id FROM customer_subjects WHERE sub = ?" ),
+		customerById: db.prepare( "SELECT data FROM customers WHERE customer_id = ?" ),
+		allCustomers: db.prepare( "SELECT data FROM customers ORDER BY rowid" ),
+		customersByStatus: db.prepare( "SELECT data FROM customers WHERE status = ? ORDER BY rowid" ),
+		ownsAccount: db.prepare( "SELECT 1 FROM customer_accounts WHERE customer_id = ? AND account_id = ?" ),
+		accountById: db.prepare( "SELECT data FROM accounts WHERE account_id = ?" ),
+		contactByAccountId: db.prepare( "SELECT data FROM account_contacts WHERE account_id = ?" ),
+		statementById: db.prepare( "SELECT data FROM statements WHERE account_id = ? AND statement_id = ?" ),
+		allAccounts: db.prepare( "SELECT data FROM accounts ORDER BY rowid" ),
+		saveAccount: db.prepare( `
+			INSERT INTO accounts ( account_id, data ) VALUES ( ?, ? )
+			ON CONFLICT ( account_id ) DO UPDATE SET data = excluded.data
+		` ),
+		saveTransaction: db.prepare( `
+			INSERT INTO transactions ( account_id, transaction_id, posted_timestamp, data ) VALUES ( ?, ?, ?, ? )
+			ON CONFLICT ( account_id, transaction_id ) DO UPDATE SET posted_timestamp = excluded.posted_timestamp, data = excluded.data
+		` ),
+		deleteTransaction: db.prepare( "DELETE FROM transactions WHERE account_id = ? AND transaction_id = ?" ),
+		saveStatement: db.prepare( `
+			INSERT INTO statements ( account_id, statement_id, statement_date, data ) VALUES ( ?, ?, ?, ? )
+			ON CONFLICT ( account_id, statement_id ) DO UPDATE SET statement_date = excluded.statement_date, data = excluded.data
+		` ),
+		consent: db.prepare( "SELECT data FROM consents WHERE client_id = ? AND consent_id = ?" ),
+		saveConsent: db.prepare( `
+			INSERT INTO consents ( consent_id, client_id, data ) VALUES ( ?, ?, ? )
+			ON CONFLICT ( consent_id ) DO UPDATE SET data = excluded.data
+		` ),
+		notificationSubscription: db.prepare( "SELECT data FROM notification_subscriptions WHERE client_id = ? AND subscription_id = ?" ),
+		notificationSubscriptionsByType: db.prepare( "SELECT data FROM notification_subscriptions WHERE type = ? ORDER BY rowid" ),
+		saveNotificationSubscription: db.prepare( `
+			INSERT INTO notification_subscriptions ( subscription_id, client_id, type, data ) VALUES ( ?, ?, ?, ? )
+			ON CONFLICT ( subscription_id ) DO UPDATE SET type = excluded.type, data = excluded.data
+		` ),
+		// Deliveries go with it through ON DELETE CASCADE
+		deleteNotificationSubscription: db.prepare( "DELETE FROM notification_subscriptions WHERE client_id = ? AND subscription_id = ?" ),
+		pendingNotificationDeliveries: db.prepare( "SELECT data FROM notification_deliveries WHERE status = 'PENDING' ORDER BY rowid" ),
+		saveNotificationDelivery: db.prepare( `
+			INSERT INTO notification_deliveries ( delivery_id, subscription_id, status, data ) VALUES ( ?, ?, ?, ? )
+			ON CONFLICT ( delivery_id ) DO UPDATE SET status = excluded.status, data = excluded.data
+		` )
+	};
+
+	function ownsAccount( customerId: string, accountId: string ): boolean {
+		return !!statements.ownsAccount.get( customerId, accountId );
+	}
+
+	function count( row: unknown ): number {
+		return ( row as CountRow ).total;
+	}
+
+	// Open-ended date ranges compare against the lowest and highest possible ISO strings
+	function dateBounds( startTime: string, endTime: string ): [ string, string ] {
+		return [
+			startTime ? toIsoTimestamp( startTime ) : "",
+			endTime ? toIsoTimestamp( endTime ) : "9999-12-31T23:59:59.999Z"
+		];
+	}
+
+	// LIKE treats % and _ as wildcards, so escape them to match the search text literally
+	function likePattern( text: string ): string {
+		return `%${ text.replace( /[\\%_]/g, "\\$&" ) }%`;
+	}
+
+	// Build the WHERE clause for a transaction query; filters other than the date range read the JSON document
+	function transactionConditions( accountId: string, filters: TransactionFilters ): { where: string; params: ( string | number )[] } {
+		const [ start, end ] = dateBounds( filters.startTime ?? "", filters.endTime ?? "" );
+		const conditions = [ "account_id = ?", "posted_timestamp >= ?", "posted_timestamp <= ?" ];
+		const params: ( string | number )[] = [ accountId, start, end ];
+		const inList = ( values: string[] ) => values.map( () => "?" ).join( ", " );
+
+		if ( filters.minAmount !== undefined ) {
+			conditions.push( "json_extract( data, '$.amount' ) >= ?" );
+			params.push( filters.minAmount );
+		}
+		if ( filters.maxAmount !== undefined ) {
+			conditions.push( "json_extract( data, '$.amount' ) <= ?" );
+			params.push( filters.maxAmount );
+		}
+		if ( filters.debitCreditMemo ) {
+			conditions.push( "json_extract( data, '$.debitCreditMemo' ) = ?" );
+			params.push( filters.debitCreditMemo );
+		}
+		if ( filters.transactionTypes ) {
+			conditions.push( `json_extract( data, '$.transactionType' ) IN ( ${ inList( filters.transactionTypes ) } )` );
+			params.push( ...filters.transactionTypes );
+		}
+		if ( filters.statuses ) {
+			conditions.push( `json_extract( data, '$.status' ) IN ( ${ inList( filters.statuses ) } )` );
+			params.push( ...filters.statuses );
+		}
+		if ( filters.search ) {
+			conditions.push( "( json_extract( data, '$.payee' ) LIKE ? ESCAPE '\\' OR json_extract( data, '$.description' ) LIKE ? ESCAPE '\\' )" );
+			params.push( likePattern( filters.search ), likePattern( filters.search ) );
+		}
+		return { where: conditions.join( " AND " ), params };
+	}
+
+	// The sort keys of transactionOrder(): the amount or posted_timestamp, then transaction_id
+	function transactionColumns( sort: TransactionFilters["sort"] ): string[] {
+		return [ sort?.endsWith( "amount" ) ? "json_extract( data, '$.amount' )" : "posted_timestamp", "transaction_id" ];
+	}
+
+	/**
+	 * Select the requested page of a query's rows. Pages linked by position seek past it in
+	 * the sort order instead of skipping rows, so they don't move when rows are added before them.
+	 */
+	function selectPage<T>( query: PageQuery<T>, page: PageRequest ): { rows: T[]; total: number; offset: number } {
+		const { select, from, params, columns, order } = query;
+		const total = count( db.prepare( `SELECT COUNT(*) AS total ${ from }` ).get( ...params ) );
+
+		const position = page.after ?? page.before;
+		if ( !position ) {
+			const offset = page.offset ?? 0;
+			const rows = db.prepare( `SELECT ${ select } ${ from } ORDER BY ${ orderBy( columns, order ) } LIMIT ? OFFSET ?` )
+				.all( ...params, page.limit, offset );
+			return { rows: parseRows<T>( rows ), total, offset: Math.min( offset, total ) };
+		}
+
+		// Previous pages are read backwards from the position, then put back in order
+		const after = !!page.after;
+		const seek = seekCondition( columns, order, position, after );
+		const seekFrom = `${ from } AND ( ${ seek.sql } )`;
+		const seekParams = [ ...params, ...seek.params ];
+		const rows = parseRows<T>( db.prepare( `SELECT ${ select } ${ seekFrom } ORDER BY ${ orderBy( columns, order, !after ) } LIMIT ?` )
+			.all( ...seekParams, page.limit ) );
+		const seeked = count( db.prepare( `SELECT COUNT(*) AS total ${ seekFrom }` ).get( ...seekParams ) );
+		return after
+			? { rows, total, offset: total - seeked }
+			: { rows: rows.reverse(), total, offset: seeked - rows.length };
+	}
+
+	return {
+		name: "sqlite",
+
+		async getCustomerIdBySubject( sub: string ): Promise<string | null> {
+			const row = statements.customerIdBySubject.get( sub ) as { customer_id: string } | undefined;
+			return row?.customer_id ?? null;
+		},
+
+		async getCustomerById( customerId: string ): Promise<Customer | null> {
+			return parseRow<Customer>( statements.customerById.get( customerId ) );
+		},
+
+		async getCustomers( filters: CustomerFilters = {} ): Promise<Customer[]> {
+			const rows = filters.status
+				? statements.customersByStatus.all( filters.status )
+				: statements.allCustomers.all();
+			return parseRows<Customer>( rows );
+		},
+
+		async getAccounts( customerId: string, page: PageRequest = { limit: 10 }, accountIds?: string[] ): Promise<PaginatedAccountsResult> {
+			if ( accountIds && accountIds.length === 0 ) {
+				return { accounts: [], total: 0, offset: 0 };
+			}
+
+			// The consented account filter has a variable number of IDs, so it is prepared per call
+			const idFilter = accountIds ? `AND a.account_id IN ( ${ accountIds.map( () => "?" ).join( ", " ) } )` : "";
+			const from = `
+				FROM accounts a
+				JOIN customer_accounts ca ON ca.account_id = a.account_id
+				WHERE ca.customer_id = ? ${ idFilter }
+			`;
+			const params = [ customerId, ...( accountIds ?? [] ) ];
+			const { rows, total, offset } = selectPage( { select: "a.data", from, params, columns: [ "a.account_id" ], order: accountOrder }, page );
+			return { accounts: rows, total, offset };
+		},
+
+		async getAccountById( customerId: string, accountId: string ): Promise<Account | null> {
+			if ( !ownsAccount( customerId, accountId ) ) return null;
+			return parseRow<Account>( statements.accountById.get( accountId ) );
+		},
+
+		async getAccountContactById( customerId: string, accountId: string ): Promise<AccountContact | null> {
+			if ( !ownsAccount( customerId, accountId ) ) return null;
+			return parseRow<AccountContact>( statements.contactByAccountId.get( accountId ) );
+		},
+
+		async getAccountStatements( customerId: string, accountId: string, page: PageRequest = { limit: 100 }, startTime = "", endTime = "" ): Promise<PaginatedStatementsResult> {
+			if ( !ownsAccount( customerId, accountId ) ) return { statements: [], total: 0, offset: 0 };
+			const { rows, total, offset } = selectPage<Statement>( {
+				select: "data",
+				from: "FROM statements WHERE account_id = ? AND statement_date >= ? AND statement_date <= ?",
+				params: [ accountId, ...dateBounds( startTime, endTime ) ],
+				columns: [ "statement_date", "statement_id" ],
+				order: statementOrder
+			}, page );
+			return { statements: rows, total, offset };
+		},
+
+		async getAccountStatementById( customerId: string, accountId: string, statementId: string ): Promise<Statement | null> {
+			if ( !ownsAccount( customerId, accountId ) ) return null;
+			return parseRow<Statement>( statements.statementById.get( accountId, statementId ) );
+		},
+
+		async getAccountTransactions( customerId: string, accountId: string, page: PageRequest = { limit: 100 }, filters: TransactionFilters = {} ): Promise<PaginatedTransactionsResult> {
+			if ( !ownsAccount( customerId, accountId ) ) return { transactions: [], total: 0, offset: 0 };
+
+			const { where, params } = transactionConditions( accountId, filters );
+			const { rows, total, offset } = selectPage<Transaction>( {
+				select: "data",
+				from: `FROM transactions WHERE ${ where }`,
+				params,
+				columns: transactionColumns( filters.sort ),
+				order: transactionOrder( filters.sort )
+			}, page );
+			return { transactions: rows, total, offset };
+		},
+
+		async getAccountHoldings( customerId: string, accountId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedHoldingsResult> {
+			if ( !ownsAccount( customerId, accountId ) ) return { holdings: [], total: 0, offset: 0 };
+			const { rows, total, offset } = selectPage<Holding>( {
+				select: "data",
+				from: "FROM holdings WHERE account_id = ?",
+				params: [ accountId ],
+				columns: [ "holding_id" ],
+				order: holdingOrder
+			}, page );
+			return { holdings: rows, total, offset };
+		},
+
+		async getPaymentNetworks( customerId: string, accountId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedPaymentNetworksResult> {
+			if ( !ownsAccount( customerId, accountId ) ) return { paymentNetworks: [], total: 0, offset: 0 };
+			const { rows, total, offset } = selectPage<PaymentNetwork>( {
+				select: "data",
+				from: "FROM payment_networks WHERE account_id = ?",
+				params: [ accountId ],
+				columns: [ "json_extract( data, '$.bankId' )", "json_extract( data, '$.identifier' )", "json_extract( data, '$.type' )" ],
+				order: paymentNetworkOrder
+			}, page );
+			return { paymentNetworks: rows, total, offset };
+		},
+
+		async getAssetTransferNetworks( customerId: string, accountId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedAssetTransferNetworksResult> {
+			if ( !ownsAccount( customerId, accountId ) ) return { assetTransferNetworks: [], total: 0, offset: 0 };
+			const { rows, total, offset } = selectPage<AssetTransferNetwork>( {
+				select: "data",
+				from: "FROM asset_transfer_networks WHERE account_id = ?",
+				params: [ accountId ],
+				columns: [ "json_extract( data, '$.institutionId' )", "json_extract( data, '$.identifier' )", "json_extract( data, '$.type' )" ],
+				order: assetTransferNetworkOrder
+			}, page );
+			return { assetTransferNetworks: rows, total, offset };
+		},
+
+		async listAccounts(): Promise<Account[]> {
+			return parseRows<Account>( statements.allAccounts.all() );
+		},
+
+		async listTransactions( accountId: string, filters: TransactionFilters = {} ): Promise<Transaction[]> {
+			const { where, params } = transactionConditions( accountId, filters );
+			const order = orderBy( transactionColumns( filters.sort ), transactionOrder( filters.sort ) );
+			return parseRows<Transaction>( db.prepare( `SELECT data FROM transactions WHERE ${ where } ORDER BY ${ order }` ).all( ...params ) );
+		},
+
+		async saveAccount( account: Account ): Promise<void> {
+			statements.saveAccount.run( account.accountId, JSON.stringify( account ) );
+		},
+
+		async saveTransaction( accountId: string, transaction: Transaction ): Promise<void> {
+			statements.saveTransaction.run( accountId, transaction.transactionId, toIsoTimestamp( transaction.postedTimestamp ), JSON.stringify( transaction ) );
+		},
+
+		async saveStatement( statement: Statement ): Promise<void> {
+			statements.saveStatement.run( statement.accountId, statement.statementId, toIsoTimestamp( statement.statementDate ), JSON.stringify( statement ) );
+		},
+
+		async deleteTransaction( accountId: string, transactionId: string ): Promise<void> {
+			statements.deleteTransaction.run( accountId, transactionId );
+		},
+
+		async getConsent( clientId: string, consentId: string ): Promise<StoredConsent | null> {
+			return parseRow<StoredConsent>( statements.consent.get( clientId, consentId ) );
+		},
+
+		async saveConsent( consent: StoredConsent ): Promise<void> {
+			statements.saveConsent.run( consent.id, consent.clientId, JSON.stringify( consent ) );
+		},
+
+		async getNotificationSubscription( clientId: string, subscriptionId: string ): Promise<StoredNotificationSubscription | null> {
+			return parseRow<StoredNotificationSubscription>( statements.notificationSubscription.get( clientId, subscriptionId ) );
+		},
+
+		async saveNotificationSubscription( subscription: StoredNotificationSubscription ): Promise<void> {
+			statements.saveNotificationSubscription.run( subscription.subscriptionId, subscription.clientId, subscription.type, JSON.stringify( subscription ) );
+		},
+
+		async deleteNotificationSubscription( clientId: string, subscriptionId: string ): Promise<boolean> {
+			return Number( statements.deleteNotificationSubscription.run( clientId, subscriptionId ).changes ) > 0;
+		},
+
+		async getNotificationDeliveries( clientId: string, subscriptionId: string, page: PageRequest = { limit: 100 } ): Promise<PaginatedNotificationDeliveriesResult> {
+			const { rows, total, offset } = selectPage<NotificationDelivery>( {
+				select: "d.data",
+				from: `
+					FROM notification_deliveries d
+					JOIN notification_subscriptions s ON s.subscription_id = d.subscription_id
+					WHERE s.client_id = ? AND d.subscription_id = ?
+				`,
+				params: [ clientId, subscriptionId ],
+				columns: [ "json_extract( d.data, '$.notification.sentOn' )", "d.delivery_id" ],
+				order: notificationDeliveryOrder
+			}, page );
+			return { deliveries: rows, total, offset };
+		},
+
+		async listNotificationSubscriptions( type: NotificationType ): Promise<StoredNotificationSubscription[]> {
+			return parseRows<StoredNotificationSubscription>( statements.notificationSubscriptionsByType.all( type ) );
+		},
+
+		async listPendingNotificationDeliveries(): Promise<NotificationDelivery[]> {
+			return parseRows<NotificationDelivery>( statements.pendingNotificationDeliveries.all() );
+		},
+
+		async saveNotificationDelivery( delivery: NotificationDelivery ): Promise<void> {
+			statements.saveNotificationDelivery.run( delivery.deliveryId, delivery.subscriptionId, delivery.status, JSON.stringify( delivery ) );
+		}
+	};
+}
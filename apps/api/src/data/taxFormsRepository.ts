@@ -0,0 +1,264 @@
+import { getAccounts, getAccountContactById, getAccountTransactions, getAccountHoldings } from "./accountsRepository.js";
+import { paginateRows, taxFormOrder } from "./ordering.js";
+import type {
+	Account,
+	AccountContact,
+	Holding,
+	Transaction,
+	TaxForm,
+	TaxFormType,
+	TaxFormFilters,
+	TaxParty,
+	SecurityDetail,
+	PaginatedTaxFormsResult,
+	PageRequest
+} from "./types.js";
+
+// Tax forms are derived from the account data rather than stored:
+// - 1099-INT: posted interest credited to deposit and taxable investment accounts
+// - 1099-DIV: posted dividends (cash or reinvested) in taxable investment accounts
+// - 1099-B: posted sales in taxable investment accounts, with cost basis from the holding
+// A form is only issued once its tax year has ended and only when it has something to report.
+
+// Retirement and education accounts are tax-deferred and don't get 1099s for their activity
+const TAX_DEFERRED_ACCOUNT_TYPES = new Set( [
+	"401A", "401K", "403B", "457", "529", "COVERDELL", "IRA", "KEOGH", "ROLLOVER", "ROTH", "ROTH401K", "SARSEP", "SEPIRA", "SIMPLEIRA", "TDA"
+] );
+
+const INTEREST_TRANSACTION_TYPES = new Set( [ "INTEREST" ] );
+const DIVIDEND_TRANSACTION_TYPES = new Set( [ "DIVIDEND", "DIVIDENDREINVEST", "REINVESTOFINCOME" ] );
+const SALE_TRANSACTION_TYPES = new Set( [ "SOLD", "SOLDTOCLOSE" ] );
+
+const TAX_FORM_DESCRIPTIONS: Record<TaxFormType, string> = {
+	Tax1099Int: "Form 1099-INT Interest Income",
+	Tax1099Div: "Form 1099-DIV Dividends and Distributions",
+	Tax1099B: "Form 1099-B Proceeds From Broker and Barter Exchange Transactions"
+};
+
+// The institution issuing the forms (payer / broker)
+const ISSUER: TaxParty = {
+	tin: "xx-xxx4567",
+	partyType: "BUSINESS",
+	businessName: "Example Financial",
+	address: {
+		line1: "100 Main Street",
+		city: "Columbus",
+		region: "OH",
+		postalCode: "43215",
+		country: "US"
+	}
+};
+
+// Large enough to read every record of an account in one call
+const ALL_RECORDS = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Build a tax form ID: {taxYear}-{lowercase form type}-{accountId}
+ */
+function toTaxFormId( taxYear: number, taxFormType: TaxFormType, accountId: string ): string {
+	return `${ taxYear }-${ taxFormType.toLowerCase() }-${ accountId }`;
+}
+
+/**
+ * Split a tax form ID into its parts, or null if it isn't one
+ */
+function parseTaxFormId( taxFormId: string ): { taxYear: number; taxFormType: TaxFormType; accountId: string } | null {
+	const match = /^([0-9]{4})-(tax1099int|tax1099div|tax1099b)-(.+)$/.exec( taxFormId );
+	if ( !match ) return null;
+	const taxFormType = ( Object.keys( TAX_FORM_DESCRIPTIONS ) as TaxFormType[] ).find( ( type ) => type.toLowerCase() === match[2] );
+	return taxFormType ? { taxYear: parseInt( match[1], 10 ), taxFormType, accountId: match[3] } : null;
+}
+
+function roundCents( amount: number ): number {
+	return Math.round( amount * 100 ) / 100;
+}
+
+function sumAmounts( transactions: Transaction[] ): number {
+	return roundCents( transactions.reduce( ( total, transaction ) => total + transaction.amount, 0 ) );
+}
+
+function toDateOnly( timestamp: string ): string {
+	return new Date( timestamp ).toISOString().slice( 0, 10 );
+}
+
+/**
+ * The recipient is the first account holder at their first address
+ */
+function toRecipient( contact: AccountContact | null ): TaxParty {
+	const holder = contact?.holders[0];
+	const address = contact?.addresses[0];
+	return {
+		tin: "xxx-xx-6789",
+		partyType: "INDIVIDUAL",
+		individualName: holder?.name ?? { first: "", last: "" },
+		address: address ?? { line1: "", city: "", region: "", postalCode: "", country: "US" }
+	};
+}
+
+/**
+ * Build a 1099-B line for a sale, taking the cost basis and acquisition date from the holding
+ */
+function toSecurityDetail( sale: Transaction, holdings: Holding[] ): SecurityDetail {
+	const holding = holdings.find( ( h ) => h.securityIds.some( ( securityId ) => securityId.id === sale.securityId ) );
+	const units = sale.units ?? 0;
+	const acquiredDate = holding?.originalPurchaseDate ?? toDateOnly( sale.transactionTimestamp );
+	const saleDate = toDateOnly( sale.transactionTimestamp );
+
+	// Held for more than one year is long-term
+	const oneYearAfterAcquired = new Date( acquiredDate );
+	oneYearAfterAcquired.setUTCFullYear( oneYearAfterAcquired.getUTCFullYear() + 1 );
+	const longOrShort = new Date( saleDate ) > oneYearAfterAcquired ? "LONG" : "SHORT";
+
+	return {
+		checkboxOnForm8949: longOrShort === "LONG" ? "D" : "A",
+		securityName: holding?.holdingName ?? sale.symbol ?? sale.description,
+		securityId: sale.securityId,
+		securityIdType: sale.securityIdType,
+		numberOfShares: units,
+		saleDate,
+		salesPrice: roundCents( sale.amount ),
+		acquiredDate,
+		costBasis: roundCents( ( holding?.averageCost ?? sale.unitPrice ?? 0 ) * units ),
+		washSaleLossDisallowed: 0,
+		longOrShort,
+		federalTaxWithheld: 0
+	};
+}
+
+/**
+ * Derive every tax form for one account
+ */
+async function buildAccountTaxForms( customerId: string, account: Account ): Promise<TaxForm[]> {
+	const isInvestment = account.accountCategory === "INVESTMENT_ACCOUNT";
+	const isDeposit = account.accountCategory === "DEPOSIT_ACCOUNT";
+	if ( ( !isInvestment && !isDeposit ) || TAX_DEFERRED_ACCOUNT_TYPES.has( account.accountType ) ) {
+		return [];
+	}
+
+	const { transactions } = await getAccountTransactions( customerId, account.accountId, { limit: ALL_RECORDS } );
+	const posted = transactions.filter( ( transaction ) => transaction.status === "POSTED" );
+	if ( posted.length === 0 ) return [];
+
+	const { holdings } = isInvestment
+		? await getAccountHoldings( customerId, account.accountId, { limit: ALL_RECORDS } )
+		: { holdings: [] };
+	const recipient = toRecipient( await getAccountContactById( customerId, account.accountId ) );
+	const currentYear = new Date().getUTCFullYear();
+	const taxYears = [ ...new Set( posted.map( ( transaction ) => new Date( transaction.postedTimestamp ).getUTCFullYear() ) ) ]
+		.filter( ( year ) => year < currentYear )
+		.sort();
+
+	const forms: TaxForm[] = [];
+	for ( const taxYear of taxYears ) {
+		const inYear = posted.filter( ( transaction ) => new Date( transaction.postedTimestamp ).getUTCFullYear() === taxYear );
+
+		const createForm = ( taxFormType: TaxFormType ): TaxForm => {
+			const taxFormId = toTaxFormId( taxYear, taxFormType, account.accountId );
+			return {
+				taxFormId,
+				taxYear,
+				taxFormType,
+				taxFormDate: `${ taxYear + 1 }-01-31`,
+				description: TAX_FORM_DESCRIPTIONS[taxFormType],
+				accountId: account.accountId,
+				issuer: ISSUER,
+				recipient,
+				links: [
+					{
+						href: `/tax-forms/${ taxFormId }`,
+						rel: "self",
+						action: "GET",
+						types: [ "application/json", "application/pdf" ]
+					}
+				]
+			};
+		};
+
+		const interest = inYear.filter( ( transaction ) =>
+			INTEREST_TRANSACTION_TYPES.has( transaction.transactionType ) && transaction.debitCreditMemo === "CREDIT"
+		);
+		if ( interest.length > 0 ) {
+			forms.push( {
+				...createForm( "Tax1099Int" ),
+				tax1099Int: {
+					accountNumber: account.accountNumberDisplay,
+					interestIncome: sumAmounts( interest ),
+					earlyWithdrawalPenalty: 0,
+					usBondInterest: 0,
+					federalTaxWithheld: 0,
+					investmentExpenses: 0,
+					foreignTaxPaid: 0,
+					taxExemptInterest: 0
+				}
+			} );
+		}
+
+		if ( !isInvestment ) continue;
+
+		const dividends = inYear.filter( ( transaction ) => DIVIDEND_TRANSACTION_TYPES.has( transaction.transactionType ) );
+		if ( dividends.length > 0 ) {
+			// Sample data has no holding period information for dividends, so stock dividends are treated as qualified
+			const qualified = dividends.filter( ( transaction ) => transaction.securityType === "STOCK" );
+			forms.push( {
+				...createForm( "Tax1099Div" ),
+				tax1099Div: {
+					accountNumber: account.accountNumberDisplay,
+					ordinaryDividends: sumAmounts( dividends ),
+					qualifiedDividends: sumAmounts( qualified ),
+					totalCapitalGain: 0,
+					nonTaxableDistribution: 0,
+					federalTaxWithheld: 0,
+					foreignTaxPaid: 0
+				}
+			} );
+		}
+
+		const sales = inYear.filter( ( transaction ) => SALE_TRANSACTION_TYPES.has( transaction.transactionType ) );
+		if ( sales.length > 0 ) {
+			forms.push( {
+				...createForm( "Tax1099B" ),
+				tax1099B: {
+					accountNumber: account.accountNumberDisplay,
+					securityDetails: sales.map( ( sale ) => toSecurityDetail( sale, holdings ) )
+				}
+			} );
+		}
+	}
+
+	return forms;
+}
+
+/**
+ * Get the tax forms for a customer's accounts with pagination support
+ * Restricted to the given account IDs (the accounts consented for the token)
+ */
+export async function getTaxForms( customerId: string, accountIds: string[], filters: TaxFormFilters = {}, page: PageRequest = { limit: 100 } ): Promise<PaginatedTaxFormsResult> {
+	const { accounts } = await getAccounts( customerId, { limit: ALL_RECORDS }, accountIds );
+
+	const forms: TaxForm[] = [];
+	for ( const account of accounts ) {
+		forms.push( ...await buildAccountTaxForms( customerId, account ) );
+	}
+
+	const filtered = forms.filter( ( form ) =>
+		( !filters.taxYear || form.taxYear === filters.taxYear ) &&
+		( !filters.taxForms || filters.taxForms.includes( form.taxFormType ) )
+	);
+
+	const { rows, total, offset } = paginateRows( filtered, taxFormOrder, page );
+	return { forms: rows, total, offset };
+}
+
+/**
+ * Get a single tax form by ID
+ */
+export async function getTaxFormById( customerId: string, accountIds: string[], taxFormId: string ): Promise<TaxForm | null> {
+	const parsed = parseTaxFormId( taxFormId );
+	if ( !parsed || !accountIds.includes( parsed.accountId ) ) return null;
+
+	const { accounts } = await getAccounts( customerId, { limit: ALL_RECORDS }, [ parsed.accountId ] );
+	if ( accounts.length === 0 ) return null;
+
+	const forms = await buildAccountTaxForms( customerId, accounts[0] );
+	return forms.find( ( form ) => form.taxFormId === taxFormId ) ?? null;
+}
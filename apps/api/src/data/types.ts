@@ -0,0 +1,442 @@
+/**
+ * FDX entity and repository result types shared by the data stores
+ */
+
+import type { DataCluster } from "@apps/shared/dataClusters";
+
+// Account types
+export interface Currency {
+	currencyCode: string;
+}
+
+export interface Account {
+	accountCategory: string;
+	accountId: string;
+	accountNumberDisplay: string;
+	nickname?: string;
+	productName: string;
+	status: string;
+	currency: Currency;
+	accountType: string;
+	currentBalance?: number;  // Not present on investment accounts, which report currentValue
+	availableBalance?: number;  // Optional - not present on all account types
+	// Line of Credit fields
+	availableCredit?: number;
+	creditLine?: number;
+	// Loan fields
+	accountNumber?: string;
+	principalBalance?: number;
+	originalPrincipal?: number;
+	interestRate?: number;
+	interestRateType?: string;
+	loanTerm?: number;
+	// Investment fields
+	balanceAsOf?: string;
+	currentValue?: number;
+	availableCashBalance?: number;
+	margin?: boolean;
+	marginBalance?: number;
+	shortBalance?: number;
+	allowedCheckWriting?: boolean;
+	holdings?: Holding[];  // Only included on the account detail
+}
+
+export interface SecurityId {
+	id: string;
+	idType: string;  // CUSIP, ISIN, SEDOL, SICC, VALOR, WKN
+}
+
+export interface Holding {
+	holdingId: string;
+	securityIds: SecurityId[];
+	holdingName: string;
+	holdingType: string;  // ANNUITY, BOND, CD, DIGITALASSET, MUTUALFUND, OPTION, OTHER, STOCK
+	holdingSubType?: string;  // CASH, MONEYMARKET, ETF
+	positionType: "LONG" | "SHORT";
+	heldInAccount: string;  // CASH, MARGIN, SHORT, OTHER
+	description?: string;
+	symbol?: string;
+	originalPurchaseDate?: string;
+	purchasedPrice?: number;
+	currentUnitPrice: number;
+	currentUnitPriceDate: string;
+	units: number;
+	marketValue: number;
+	averageCost?: number;
+	currency: Currency;
+}
+
+export interface Name {
+	first: string;
+	middle?: string;
+	last: string;
+	suffix?: string;
+}
+
+export interface Holder {
+	relationship: string;
+	name: Name;
+}
+
+export interface Address {
+	line1: string;
+	line2?: string;
+	city: string;
+	region: string;
+	postalCode: string;
+	country: string;
+}
+
+export interface Telephone {
+	type: string;
+	country: string;
+	number: string;
+	network?: string;  // CELLULAR, LANDLINE, SATELLITE, OTHER
+}
+
+export interface AccountContact {
+	holders: Holder[];
+	emails: string[];
+	addresses: Address[];
+	telephones: Telephone[];
+}
+
+export interface Link {
+	href: string;
+	rel: string;
+	action: string;
+	types: string[];
+}
+
+export interface Statement {
+	accountId: string;
+	statementId: string;
+	statementDate: string;
+	description: string;
+	links: Link[];
+	status: string;
+}
+
+export interface StatementPeriod {
+	statement: Statement;
+	startDate: string;  // First day covered (YYYY-MM-DD), the day after the previous statementDate
+	endDate: string;  // The statementDate
+	openingBalance: number;
+	closingBalance: number;
+	entries: StatementEntry[];  // Posted transactions in the period, oldest first
+}
+
+export interface StatementEntry {
+	transaction: Transaction;
+	balance: number;  // Running balance after the transaction
+}
+
+export interface Transaction {
+	accountCategory: string;
+	transactionType: string;
+	checkNumber?: number;
+	payee?: string;
+	transactionId: string;
+	postedTimestamp: string;
+	transactionTimestamp: string;
+	description: string;
+	debitCreditMemo: string;
+	status: string;
+	amount: number;
+	// Investment transaction fields
+	securityId?: string;
+	securityIdType?: string;
+	securityType?: string;
+	symbol?: string;
+	units?: number;
+	unitPrice?: number;
+	commission?: number;
+	fees?: number;
+	subAccountSec?: string;
+	subAccountFund?: string;
+	positionType?: string;
+	incomeType?: string;
+}
+
+export type TransactionSort = "postedTimestamp" | "-postedTimestamp" | "amount" | "-amount";
+
+export interface TransactionFilters {
+	startTime?: string;  // postedTimestamp range, inclusive
+	endTime?: string;
+	minAmount?: number;
+	maxAmount?: number;
+	debitCreditMemo?: string;
+	transactionTypes?: string[];
+	statuses?: string[];
+	search?: string;  // Case-insensitive text matched against payee and description
+	sort?: TransactionSort;  // Defaults to postedTimestamp, oldest first
+}
+
+export interface PaymentNetwork {
+	bankId: string;
+	identifier: string;
+	type: string;
+	transferIn: boolean;
+	transferOut: boolean;
+}
+
+export interface AssetTransferNetwork {
+	identifier: string;
+	identifierType?: "ACCOUNT_NUMBER" | "TOKENIZED_ACCOUNT_NUMBER";
+	institutionId: string;
+	institutionName?: string;
+	jointAccount?: boolean;
+	type: "CA_ATON" | "US_ACATS" | "US_DTC";
+}
+
+// Sort key values of a row within its list, ending with the row's ID so no two rows share a position
+export type PagePosition = ( string | number )[];
+
+/**
+ * Page of a list to return: the first page starts at an offset, the pages linked from it start
+ * next to the position of a row, so rows added or removed elsewhere in the list don't shift them
+ */
+export interface PageRequest {
+	limit: number;
+	offset?: number;
+	after?: PagePosition;  // The rows that sort after this position
+	before?: PagePosition;  // The last rows that sort before this position
+}
+
+export interface PaginatedResult {
+	total: number;
+	offset: number;  // Number of rows that sort before the returned page
+}
+
+export interface PaginatedAccountsResult extends PaginatedResult {
+	accounts: Account[];
+}
+
+export interface PaginatedStatementsResult extends PaginatedResult {
+	statements: Statement[];
+}
+
+export interface PaginatedHoldingsResult extends PaginatedResult {
+	holdings: Holding[];
+}
+
+export interface PaginatedTransactionsResult extends PaginatedResult {
+	transactions: Transaction[];
+}
+
+export interface PaginatedPaymentNetworksResult extends PaginatedResult {
+	paymentNetworks: PaymentNetwork[];
+}
+
+export interface PaginatedAssetTransferNetworksResult extends PaginatedResult {
+	assetTransferNetworks: AssetTransferNetwork[];
+}
+
+// Tax form types
+export type TaxFormType = "Tax1099Int" | "Tax1099Div" | "Tax1099B";
+
+export interface TaxParty {
+	tin: string;  // Masked taxpayer identification number
+	partyType: "BUSINESS" | "INDIVIDUAL";
+	businessName?: string;
+	individualName?: Name;
+	address: Address;
+}
+
+export interface Tax1099Int {
+	accountNumber: string;
+	interestIncome: number;  // Box 1
+	earlyWithdrawalPenalty: number;  // Box 2
+	usBondInterest: number;  // Box 3
+	federalTaxWithheld: number;  // Box 4
+	investmentExpenses: number;  // Box 5
+	foreignTaxPaid: number;  // Box 6
+	taxExemptInterest: number;  // Box 8
+}
+
+export interface Tax1099Div {
+	accountNumber: string;
+	ordinaryDividends: number;  // Box 1a
+	qualifiedDividends: number;  // Box 1b
+	totalCapitalGain: number;  // Box 2a
+	nonTaxableDistribution: number;  // Box 3
+	federalTaxWithheld: number;  // Box 4
+	foreignTaxPaid: number;  // Box 7
+}
+
+export interface SecurityDetail {
+	checkboxOnForm8949: "A" | "D";  // A = short-term covered, D = long-term covered
+	securityName: string;
+	securityId?: string;
+	securityIdType?: string;
+	numberOfShares: number;
+	saleDate: string;
+	salesPrice: number;  // Net proceeds
+	acquiredDate: string;
+	costBasis: number;
+	washSaleLossDisallowed: number;
+	longOrShort: "LONG" | "SHORT";  // Holding period
+	federalTaxWithheld: number;
+}
+
+export interface Tax1099B {
+	accountNumber: string;
+	securityDetails: SecurityDetail[];
+}
+
+export interface TaxForm {
+	taxFormId: string;
+	taxYear: number;
+	taxFormType: TaxFormType;
+	taxFormDate: string;
+	description: string;
+	accountId: string;
+	issuer: TaxParty;
+	recipient: TaxParty;
+	tax1099Int?: Tax1099Int;
+	tax1099Div?: Tax1099Div;
+	tax1099B?: Tax1099B;
+	links: Link[];
+}
+
+export interface TaxFormFilters {
+	taxYear?: number;
+	taxForms?: TaxFormType[];
+}
+
+export interface PaginatedTaxFormsResult extends PaginatedResult {
+	forms: TaxForm[];
+}
+
+// Customer types
+export interface CustomerPreferences {
+	notifications: boolean;
+	twoFactorAuth: boolean;
+}
+
+export interface Customer {
+	customerId: string;
+	name: string;
+	email: string;
+	status: string;
+	createdDate: string;
+	preferences: CustomerPreferences;
+}
+
+export interface CustomerFilters {
+	status?: string;
+}
+
+// Party types
+export interface Party {
+	name: string;
+	type: "DATA_ACCESS_PLATFORM" | "DATA_PROVIDER" | "DATA_RECIPIENT" | "INDIVIDUAL" | "MERCHANT" | "VENDOR";
+	homeUri?: string;
+}
+
+// Consent types
+// Something a consent shares, and which of its data
+export interface ConsentResource {
+	resourceType: "ACCOUNT" | "CUSTOMER";
+	resourceId: string;
+	dataClusters: DataCluster[];
+}
+
+export interface ConsentRevocation {
+	status: "REVOKED";
+	reason: "BUSINESS_RULE" | "USER_ACTION";
+	initiator: Party["type"];
+	updatedTime: string;
+}
+
+export interface Consent {
+	id: string;
+	status: "ACTIVE" | "EXPIRED" | "REVOKED";
+	parties: Party[];
+	createdTime: string;
+	expirationTime?: string;
+	updatedTime?: string;
+	durationType: "ONE_TIME" | "PERSISTENT" | "TIME_BOUND";
+	durationPeriod?: number;  // Days, for TIME_BOUND consents
+	resources: ConsentResource[];
+	revocation?: ConsentRevocation;
+}
+
+// A consent with the client and customer it was given to and by, which decide who may read it
+export interface StoredConsent extends Consent {
+	clientId: string;
+	customerId: string;
+}
+
+// Notification types
+export type NotificationType = "BALANCE" | "STATEMENT" | "CONSENT_REVOKED";
+
+export interface Notification {
+	notificationId: string;
+	type: NotificationType;
+	sentOn: string;
+	category: "CONSENT" | "NEW_DATA";
+	severity?: "EMERGENCY" | "ALERT" | "WARNING" | "NOTICE" | "INFO";
+	priority?: "HIGH" | "MEDIUM" | "LOW";
+	publisher: Party;
+	subscriber: Party;
+	notificationPayload: {
+		id: string;  // ID of the resource the notification is about
+		idType: "ACCOUNT" | "CONSENT" | "CUSTOMER" | "STATEMENT";
+	};
+	url?: Link;  // Where to fetch the changed resource
+}
+
+export interface NotificationSubscription {
+	subscriptionId: string;
+	type: NotificationType;
+	callbackUrl: string;
+	subscriber: Party;
+	effectiveDate: string;
+}
+
+// A subscription with the client and consent it was created under, which decide what it's sent
+export interface StoredNotificationSubscription extends NotificationSubscription {
+	clientId: string;
+	customerId: string;
+	consentId?: string;  // Consent the access token that created the subscription was issued under
+	accountIds: string[];  // Accounts consented to that access token; emptied when the consent is revoked
+}
+
+export type NotificationDeliveryStatus = "PENDING" | "DELIVERED" | "FAILED";
+
+export interface NotificationDeliveryAttempt {
+	attemptedAt: string;
+	responseStatus?: number;  // Not present when no response was received
+	error?: string;
+}
+
+// Delivery log entry: one notification sent to one subscription, with every attempt made
+export interface NotificationDelivery {
+	deliveryId: string;
+	subscriptionId: string;
+	clientId: string;
+	callbackUrl: string;
+	notification: Notification;
+	status: NotificationDeliveryStatus;
+	attempts: NotificationDeliveryAttempt[];
+	nextAttemptAt?: string;  // Set while PENDING
+}
+
+export interface PaginatedNotificationDeliveriesResult extends PaginatedResult {
+	deliveries: NotificationDelivery[];
+}
+
+// Everything a data store serves, keyed the way the fixtures in accounts.ts and customers.ts are
+export interface Dataset {
+	customers: Customer[];
+	customerSubjects: Record<string, string>;  // OAuth subject to customer ID
+	customerAccounts: Record<string, string[]>;  // Customer ID to the account IDs they hold
+	accounts: Account[];
+	accountContacts: Record<string, AccountContact>;
+	accountStatements: Record<string, Statement[]>;
+	accountTransactions: Record<string, Transaction[]>;
+	accountHoldings: Record<string, Holding[]>;
+	accountPaymentNetworks: Record<string, PaymentNetwork[]>;
+	accountAssetTransferNetworks: Record<string, AssetTransferNetwork[]>;
+}
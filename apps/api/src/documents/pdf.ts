@@ -0,0 +1,218 @@
+/**
+ * Minimal PDF writer for generated documents (statements, tax forms)
+ *
+ * Produces PDF 1.4 files with the standard Helvetica fonts, text, rules and
+ * shaded boxes on US Letter pages. That's all the documents need, so there's
+ * no dependency on a full PDF library.
+ */
+
+import { deflateSync } from "zlib";
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export interface TextOptions {
+	size?: number;
+	bold?: boolean;
+	align?: "left" | "right" | "center";
+}
+
+export interface DocumentInfo {
+	title: string;
+	creationDate?: Date;
+}
+
+// Helvetica advance widths for printable ASCII (32-126) in 1/1000 em, from the Adobe AFM.
+// Helvetica-Bold is slightly wider; these are close enough for aligning columns.
+const HELVETICA_WIDTHS = [
+	278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+	556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+	1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+	667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+	333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+	556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const currencyFormatter = new Intl.NumberFormat( "en-US", { style: "currency", currency: "USD" } );
+
+/**
+ * Format an amount as US dollars, e.g. 1234.5 -> "$1,234.50"
+ */
+export function formatCurrency( amount: number ): string {
+	return currencyFormatter.format( amount );
+}
+
+/**
+ * Reduce text to printable ASCII so it is safe in a WinAnsi-encoded string
+ */
+function toPrintableAscii( value: string ): string {
+	return value
+		.normalize( "NFKD" )
+		.replace( /[‘’]/g, "'" )
+		.replace( /[“”]/g, "\"" )
+		.replace( /[–—]/g, "-" )
+		.replace( /[^\x20-\x7E]/g, "" );
+}
+
+/**
+ * Escape a string for use inside a PDF literal string
+ */
+function escapePdfString( value: string ): string {
+	return value.replace( /[\\()]/g, ( char ) => `\\${ char }` );
+}
+
+/**
+ * Format a date as a PDF date string (D:YYYYMMDDHHmmSSZ)
+ */
+function toPdfDate( date: Date ): string {
+	return `D:${ date.toISOString().replace( /[-:T]/g, "" ).slice( 0, 14 ) }Z`;
+}
+
+/**
+ * Round a coordinate to two decimals to keep content streams compact
+ */
+function num( value: number ): string {
+	return String( Math.round( value * 100 ) / 100 );
+}
+
+/**
+ * A PDF document built page by page.
+ * Coordinates are in points with the origin at the top-left corner of the page.
+ */
+export class PdfDocument {
+	private readonly pages: string[][] = [];
+	private currentPage = -1;
+
+	get pageCount(): number {
+		return this.pages.length;
+	}
+
+	/**
+	 * Start a new page; subsequent drawing goes to it
+	 */
+	addPage(): void {
+		this.pages.push( [] );
+		this.currentPage = this.pages.length - 1;
+	}
+
+	/**
+	 * Go back to an earlier page (zero-based), e.g. to add "page x of y" footers once all pages exist
+	 */
+	goToPage( index: number ): void {
+		if ( index < 0 || index >= this.pages.length ) {
+			throw new RangeError( `Page ${ index } does not exist` );
+		}
+		this.currentPage = index;
+	}
+
+	/**
+	 * Width of a string in points at the given font size
+	 */
+	textWidth( value: string, size: number ): number {
+		let units = 0;
+		for ( const char of toPrintableAscii( value ) ) {
+			units += HELVETICA_WIDTHS[char.charCodeAt( 0 ) - 32] ?? 556;
+		}
+		return units * size / 1000;
+	}
+
+	/**
+	 * Draw a line of text. With align "right" or "center", x is the right edge or the center.
+	 */
+	text( x: number, y: number, value: string, options: TextOptions = {} ): void {
+		const size = options.size ?? 10;
+		const printable = toPrintableAscii( value );
+		let left = x;
+		if ( options.align === "right" ) {
+			left = x - this.textWidth( printable, size );
+		} else if ( options.align === "center" ) {
+			left = x - this.textWidth( printable, size ) / 2;
+		}
+		const font = options.bold ? "F2" : "F1";
+		this.draw( `BT /${ font } ${ num( size ) } Tf ${ num( left ) } ${ num( PAGE_HEIGHT - y ) } Td (${ escapePdfString( printable ) }) Tj ET` );
+	}
+
+	/**
+	 * Draw a straight line
+	 */
+	line( x1: number, y1: number, x2: number, y2: number, width = 0.5 ): void {
+		this.draw( `${ num( width ) } w ${ num( x1 ) } ${ num( PAGE_HEIGHT - y1 ) } m ${ num( x2 ) } ${ num( PAGE_HEIGHT - y2 ) } l S` );
+	}
+
+	/**
+	 * Fill a rectangle with a shade of gray (0 = black, 1 = white)
+	 */
+	fillRect( x: number, y: number, width: number, height: number, gray = 0.92 ): void {
+		this.draw( `${ num( gray ) } g ${ num( x ) } ${ num( PAGE_HEIGHT - y - height ) } ${ num( width ) } ${ num( height ) } re f 0 g` );
+	}
+
+	/**
+	 * Serialize the document
+	 */
+	toBuffer( info: DocumentInfo ): Buffer {
+		if ( this.pages.length === 0 ) {
+			this.addPage();
+		}
+
+		// Fixed objects: 1 catalog, 2 page tree, 3-4 fonts, 5 document info; then a page and its content per page
+		const objects: Buffer[] = [];
+		const pageRefs = this.pages.map( ( _, index ) => `${ 6 + index * 2 } 0 R` );
+		objects.push( Buffer.from( "<< /Type /Catalog /Pages 2 0 R >>", "latin1" ) );
+		objects.push( Buffer.from( `<< /Type /Pages /Kids [ ${ pageRefs.join( " " ) } ] /Count ${ this.pages.length } >>`, "latin1" ) );
+		objects.push( Buffer.from( "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>", "latin1" ) );
+		objects.push( Buffer.from( "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>", "latin1" ) );
+		objects.push( Buffer.from( `<< /Title (${ escapePdfString( toPrintableAscii( info.title ) ) }) /Producer (Core Exchange API) /CreationDate (${ toPdfDate( info.creationDate ?? new Date() ) }) >>`, "latin1" ) );
+
+		this.pages.forEach( ( operations, index ) => {
+			const contentRef = 7 + index * 2;
+			objects.push( Buffer.from(
+				`<< /Type /Page /Parent 2 0 R /MediaBox [ 0 0 ${ PAGE_WIDTH } ${ PAGE_HEIGHT } ] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${ contentRef } 0 R >>`,
+				"latin1"
+			) );
+			const stream = deflateSync( Buffer.from( operations.join( "\n" ), "latin1" ) );
+			objects.push( Buffer.concat( [
+				Buffer.from( `<< /Length ${ stream.length } /Filter /FlateDecode >>\nstream\n`, "latin1" ),
+				stream,
+				Buffer.from( "\nendstream", "latin1" )
+			] ) );
+		} );
+
+		// The binary comment line marks the file as binary for transfer tools
+		const chunks: Buffer[] = [ Buffer.from( "%PDF-1.4\n%\xE2\xE3\xCF\xD3\n", "latin1" ) ];
+		let offset = chunks[0].length;
+		const offsets: number[] = [];
+		objects.forEach( ( body, index ) => {
+			offsets.push( offset );
+			const chunk = Buffer.concat( [
+				Buffer.from( `${ index + 1 } 0 obj\n`, "latin1" ),
+				body,
+				Buffer.from( "\nendobj\n", "latin1" )
+			] );
+			chunks.push( chunk );
+			offset += chunk.length;
+		} );
+
+		const xref = [
+			"xref",
+			`0 ${ objects.length + 1 }`,
+			"0000000000 65535 f ",
+			...offsets.map( ( value ) => `${ String( value ).padStart( 10, "0" ) } 00000 n ` ),
+			"trailer",
+			`<< /Size ${ objects.length + 1 } /Root 1 0 R /Info 5 0 R >>`,
+			"startxref",
+			String( offset ),
+			"%%EOF",
+			""
+		].join( "\n" );
+		chunks.push( Buffer.from( xref, "latin1" ) );
+
+		return Buffer.concat( chunks );
+	}
+
+	private draw( operation: string ): void {
+		if ( this.pages.length === 0 ) {
+			this.addPage();
+		}
+		this.pages[this.currentPage].push( operation );
+	}
+}
@@ -0,0 +1,177 @@
+/**
+ * Account statement PDFs
+ *
+ * Renders the account header, a balance summary and the transactions posted in the
+ * statement period, flowing onto as many pages as the transactions need. Rendered
+ * statements are cached, since a statement's period is closed once it is issued.
+ */
+
+import { PdfDocument, PAGE_WIDTH, PAGE_HEIGHT, formatCurrency } from "./pdf.js";
+import { getAccountContactById } from "../data/accountsRepository.js";
+import { getStatementPeriod } from "../data/statementsRepository.js";
+import type { Account, AccountContact, StatementPeriod } from "../data/types.js";
+
+const MARGIN = 54;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const BOTTOM_LIMIT = PAGE_HEIGHT - MARGIN;
+const ROW_HEIGHT = 16;
+
+// Transaction table columns; amounts are right-aligned on their x position
+const COLUMNS = {
+	date: MARGIN,
+	description: 120,
+	debits: 400,
+	credits: 475,
+	balance: CONTENT_RIGHT
+};
+const DESCRIPTION_WIDTH = 200;
+
+// Rendered statements by account and statement ID, oldest first so the first key is evicted first
+const MAX_CACHED_STATEMENTS = 100;
+const statementCache = new Map<string, Buffer>();
+
+const dateFormatter = new Intl.DateTimeFormat( "en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" } );
+
+function formatDate( value: string ): string {
+	return dateFormatter.format( new Date( value ) );
+}
+
+/**
+ * Shorten text with an ellipsis until it fits the given width
+ */
+function fitText( pdf: PdfDocument, value: string, width: number, size: number ): string {
+	if ( pdf.textWidth( value, size ) <= width ) return value;
+	let fitted = value;
+	while ( fitted.length > 0 && pdf.textWidth( `${ fitted }...`, size ) > width ) {
+		fitted = fitted.slice( 0, -1 );
+	}
+	return `${ fitted.trimEnd() }...`;
+}
+
+/**
+ * Render a statement as a PDF
+ */
+export function renderStatementPdf( account: Account, contact: AccountContact | null, period: StatementPeriod ): Buffer {
+	const pdf = new PdfDocument();
+	const periodLabel = `${ formatDate( period.startDate ) } - ${ formatDate( period.endDate ) }`;
+	let y = 0;
+
+	const drawColumnHeaders = () => {
+		pdf.fillRect( MARGIN, y - 12, CONTENT_RIGHT - MARGIN, 18 );
+		pdf.text( COLUMNS.date + 4, y, "Date", { size: 9, bold: true } );
+		pdf.text( COLUMNS.description, y, "Description", { size: 9, bold: true } );
+		pdf.text( COLUMNS.debits, y, "Debits", { size: 9, bold: true, align: "right" } );
+		pdf.text( COLUMNS.credits, y, "Credits", { size: 9, bold: true, align: "right" } );
+		pdf.text( COLUMNS.balance - 4, y, "Balance", { size: 9, bold: true, align: "right" } );
+		y += ROW_HEIGHT + 4;
+	};
+
+	// First page: institution, account holder and account details
+	pdf.addPage();
+	pdf.text( MARGIN, MARGIN + 10, "Example Financial", { size: 18, bold: true } );
+	pdf.text( CONTENT_RIGHT, MARGIN + 10, "Account Statement", { size: 14, align: "right" } );
+	pdf.line( MARGIN, MARGIN + 22, CONTENT_RIGHT, MARGIN + 22, 1 );
+
+	y = MARGIN + 50;
+	const holderLines = [
+		...( contact?.holders ?? [] ).map( ( holder ) =>
+			[ holder.name.first, holder.name.middle, holder.name.last, holder.name.suffix ].filter( Boolean ).join( " " )
+		),
+		...( contact?.addresses.slice( 0, 1 ).flatMap( ( address ) => [
+			address.line1,
+			address.line2 ?? "",
+			`${ address.city }, ${ address.region } ${ address.postalCode }`
+		] ) ?? [] )
+	].filter( Boolean );
+	holderLines.forEach( ( line, index ) => pdf.text( MARGIN, y + index * 14, line, { bold: index === 0 } ) );
+
+	const details: [ string, string ][] = [
+		[ "Account", account.productName ],
+		[ "Account number", `...${ account.accountNumberDisplay }` ],
+		[ "Statement period", periodLabel ],
+		[ "Statement ID", period.statement.statementId ]
+	];
+	details.forEach( ( [ label, value ], index ) => {
+		pdf.text( 330, y + index * 14, label, { size: 9 } );
+		pdf.text( CONTENT_RIGHT, y + index * 14, value, { size: 9, bold: true, align: "right" } );
+	} );
+	y += Math.max( holderLines.length, details.length ) * 14 + 20;
+
+	// Balance summary
+	const credits = period.entries.filter( ( entry ) => entry.transaction.debitCreditMemo === "CREDIT" );
+	const debits = period.entries.filter( ( entry ) => entry.transaction.debitCreditMemo === "DEBIT" );
+	const total = ( entries: typeof credits ) => entries.reduce( ( sum, entry ) => sum + entry.transaction.amount, 0 );
+	const summary: [ string, string ][] = [
+		[ `Opening balance on ${ formatDate( period.startDate ) }`, formatCurrency( period.openingBalance ) ],
+		[ `Credits (${ credits.length })`, formatCurrency( total( credits ) ) ],
+		[ `Debits (${ debits.length })`, formatCurrency( total( debits ) ) ],
+		[ `Closing balance on ${ formatDate( period.endDate ) }`, formatCurrency( period.closingBalance ) ]
+	];
+	pdf.text( MARGIN, y, "Summary", { size: 12, bold: true } );
+	y += 8;
+	pdf.fillRect( MARGIN, y, CONTENT_RIGHT - MARGIN, summary.length * ROW_HEIGHT + 10, 0.95 );
+	y += ROW_HEIGHT;
+	summary.forEach( ( [ label, value ], index ) => {
+		const bold = index === 0 || index === summary.length - 1;
+		pdf.text( MARGIN + 10, y, label, { bold } );
+		pdf.text( CONTENT_RIGHT - 10, y, value, { bold, align: "right" } );
+		y += ROW_HEIGHT;
+	} );
+	y += 24;
+
+	// Transactions, continued on further pages as needed
+	pdf.text( MARGIN, y, "Transactions", { size: 12, bold: true } );
+	y += 20;
+	drawColumnHeaders();
+
+	if ( period.entries.length === 0 ) {
+		pdf.text( MARGIN + 4, y, "No transactions posted in this period.", { size: 9 } );
+	}
+
+	for ( const { transaction, balance } of period.entries ) {
+		if ( y + ROW_HEIGHT > BOTTOM_LIMIT ) {
+			pdf.addPage();
+			pdf.text( MARGIN, MARGIN + 10, "Example Financial", { size: 12, bold: true } );
+			pdf.text( CONTENT_RIGHT, MARGIN + 10, `...${ account.accountNumberDisplay }  |  ${ periodLabel }`, { size: 9, align: "right" } );
+			pdf.line( MARGIN, MARGIN + 18, CONTENT_RIGHT, MARGIN + 18 );
+			y = MARGIN + 44;
+			drawColumnHeaders();
+		}
+		const amount = formatCurrency( transaction.amount );
+		pdf.text( COLUMNS.date + 4, y, formatDate( transaction.postedTimestamp ), { size: 9 } );
+		pdf.text( COLUMNS.description, y, fitText( pdf, transaction.description, DESCRIPTION_WIDTH, 9 ), { size: 9 } );
+		pdf.text( transaction.debitCreditMemo === "DEBIT" ? COLUMNS.debits : COLUMNS.credits, y, amount, { size: 9, align: "right" } );
+		pdf.text( COLUMNS.balance - 4, y, formatCurrency( balance ), { size: 9, align: "right" } );
+		pdf.line( MARGIN, y + 5, CONTENT_RIGHT, y + 5, 0.25 );
+		y += ROW_HEIGHT;
+	}
+
+	// Footers go on last, once the page count is known
+	for ( let index = 0; index < pdf.pageCount; index++ ) {
+		pdf.goToPage( index );
+		pdf.text( MARGIN, PAGE_HEIGHT - 30, period.statement.description, { size: 8 } );
+		pdf.text( CONTENT_RIGHT, PAGE_HEIGHT - 30, `Page ${ index + 1 } of ${ pdf.pageCount }`, { size: 8, align: "right" } );
+	}
+
+	return pdf.toBuffer( { title: `${ period.statement.description } - ${ account.productName }` } );
+}
+
+/**
+ * Get the PDF for a statement, rendering it on first request.
+ * Returns null if the statement doesn't exist for the customer's account.
+ */
+export async function getStatementPdf( customerId: string, account: Account, statementId: string ): Promise<Buffer | null> {
+	const cacheKey = `${ account.accountId }/${ statementId }`;
+	const cached = statementCache.get( cacheKey );
+	if ( cached ) return cached;
+
+	const period = await getStatementPeriod( customerId, account.accountId, statementId );
+	if ( !period ) return null;
+
+	const pdf = renderStatementPdf( account, await getAccountContactById( customerId, account.accountId ), period );
+	if ( statementCache.size >= MAX_CACHED_STATEMENTS ) {
+		statementCache.delete( statementCache.keys().next().value as string );
+	}
+	statementCache.set( cacheKey, pdf );
+	return pdf;
+}
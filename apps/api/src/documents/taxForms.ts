@@ -0,0 +1,149 @@
+/**
+ * PDF rendition of a tax form
+ *
+ * Lays out the payer, recipient and the boxes of the form. This is a readable
+ * copy of the data, not the official IRS layout.
+ */
+
+import { PdfDocument, PAGE_WIDTH, PAGE_HEIGHT, formatCurrency } from "./pdf.js";
+import type { TaxForm, TaxParty } from "../data/types.js";
+
+const MARGIN = 54;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const BOTTOM_LIMIT = PAGE_HEIGHT - MARGIN;
+
+const FORM_NAMES: Record<TaxForm["taxFormType"], string> = {
+	Tax1099Int: "1099-INT",
+	Tax1099Div: "1099-DIV",
+	Tax1099B: "1099-B"
+};
+
+function partyName( party: TaxParty ): string {
+	if ( party.businessName ) return party.businessName;
+	const name = party.individualName;
+	return name ? [ name.first, name.middle, name.last, name.suffix ].filter( Boolean ).join( " " ) : "";
+}
+
+/**
+ * Draw a party block (name, address, TIN) and return the y position below it
+ */
+function drawParty( pdf: PdfDocument, x: number, y: number, label: string, party: TaxParty ): number {
+	pdf.text( x, y, label, { size: 8, bold: true } );
+	const { address } = party;
+	const lines = [
+		partyName( party ),
+		address.line1,
+		address.line2 ?? "",
+		`${ address.city }, ${ address.region } ${ address.postalCode }`,
+		`TIN: ${ party.tin }`
+	].filter( Boolean );
+	lines.forEach( ( line, index ) => pdf.text( x, y + 14 + index * 13, line ) );
+	return y + 14 + lines.length * 13;
+}
+
+/**
+ * Draw the numbered boxes of a form as label/amount rows and return the y position below them
+ */
+function drawBoxes( pdf: PdfDocument, y: number, boxes: [ string, number ][] ): number {
+	for ( const [ label, amount ] of boxes ) {
+		pdf.text( MARGIN, y, label );
+		pdf.text( CONTENT_RIGHT, y, formatCurrency( amount ), { align: "right" } );
+		pdf.line( MARGIN, y + 5, CONTENT_RIGHT, y + 5, 0.25 );
+		y += 20;
+	}
+	return y;
+}
+
+/**
+ * Render a tax form as a PDF
+ */
+export function renderTaxFormPdf( form: TaxForm ): Buffer {
+	const pdf = new PdfDocument();
+	const formName = FORM_NAMES[form.taxFormType];
+
+	const drawHeader = () => {
+		pdf.addPage();
+		pdf.fillRect( MARGIN, MARGIN, CONTENT_RIGHT - MARGIN, 44 );
+		pdf.text( MARGIN + 10, MARGIN + 19, `Form ${ formName }`, { size: 16, bold: true } );
+		pdf.text( MARGIN + 10, MARGIN + 35, form.description, { size: 9 } );
+		pdf.text( CONTENT_RIGHT - 10, MARGIN + 19, `Tax year ${ form.taxYear }`, { size: 12, bold: true, align: "right" } );
+		pdf.text( CONTENT_RIGHT - 10, MARGIN + 35, `Form ID ${ form.taxFormId }`, { size: 8, align: "right" } );
+	};
+
+	drawHeader();
+	const partiesBottom = Math.max(
+		drawParty( pdf, MARGIN, 130, form.taxFormType === "Tax1099B" ? "PAYER / BROKER" : "PAYER", form.issuer ),
+		drawParty( pdf, PAGE_WIDTH / 2, 130, "RECIPIENT", form.recipient )
+	);
+
+	let y = partiesBottom + 24;
+	const accountNumber = form.tax1099Int?.accountNumber ?? form.tax1099Div?.accountNumber ?? form.tax1099B?.accountNumber ?? "";
+	pdf.text( MARGIN, y, `Account number: ...${ accountNumber }` );
+	pdf.text( CONTENT_RIGHT, y, `Date issued: ${ form.taxFormDate }`, { align: "right" } );
+	y += 30;
+
+	if ( form.tax1099Int ) {
+		const data = form.tax1099Int;
+		y = drawBoxes( pdf, y, [
+			[ "1  Interest income", data.interestIncome ],
+			[ "2  Early withdrawal penalty", data.earlyWithdrawalPenalty ],
+			[ "3  Interest on U.S. Savings Bonds and Treasury obligations", data.usBondInterest ],
+			[ "4  Federal income tax withheld", data.federalTaxWithheld ],
+			[ "5  Investment expenses", data.investmentExpenses ],
+			[ "6  Foreign tax paid", data.foreignTaxPaid ],
+			[ "8  Tax-exempt interest", data.taxExemptInterest ]
+		] );
+	}
+
+	if ( form.tax1099Div ) {
+		const data = form.tax1099Div;
+		y = drawBoxes( pdf, y, [
+			[ "1a  Total ordinary dividends", data.ordinaryDividends ],
+			[ "1b  Qualified dividends", data.qualifiedDividends ],
+			[ "2a  Total capital gain distributions", data.totalCapitalGain ],
+			[ "3  Nondividend distributions", data.nonTaxableDistribution ],
+			[ "4  Federal income tax withheld", data.federalTaxWithheld ],
+			[ "7  Foreign tax paid", data.foreignTaxPaid ]
+		] );
+	}
+
+	if ( form.tax1099B ) {
+		const columns = [
+			{ label: "Description", x: MARGIN, align: "left" as const },
+			{ label: "Acquired", x: 270, align: "left" as const },
+			{ label: "Sold", x: 330, align: "left" as const },
+			{ label: "Proceeds", x: 450, align: "right" as const },
+			{ label: "Cost basis", x: 510, align: "right" as const },
+			{ label: "Gain/loss", x: CONTENT_RIGHT, align: "right" as const }
+		];
+		const drawColumnHeaders = () => {
+			columns.forEach( ( column ) => pdf.text( column.x, y, column.label, { size: 8, bold: true, align: column.align } ) );
+			pdf.line( MARGIN, y + 5, CONTENT_RIGHT, y + 5 );
+			y += 18;
+		};
+
+		drawColumnHeaders();
+		for ( const detail of form.tax1099B.securityDetails ) {
+			if ( y + 30 > BOTTOM_LIMIT ) {
+				drawHeader();
+				y = 130;
+				drawColumnHeaders();
+			}
+			const term = detail.longOrShort === "LONG" ? "Long-term" : "Short-term";
+			pdf.text( MARGIN, y, `${ detail.numberOfShares } sh ${ detail.securityName }`.slice( 0, 44 ), { size: 8 } );
+			pdf.text( MARGIN, y + 11, `${ term }, Form 8949 box ${ detail.checkboxOnForm8949 }`, { size: 7 } );
+			pdf.text( 270, y, detail.acquiredDate, { size: 8 } );
+			pdf.text( 330, y, detail.saleDate, { size: 8 } );
+			pdf.text( 450, y, formatCurrency( detail.salesPrice ), { size: 8, align: "right" } );
+			pdf.text( 510, y, formatCurrency( detail.costBasis ), { size: 8, align: "right" } );
+			pdf.text( CONTENT_RIGHT, y, formatCurrency( detail.salesPrice - detail.costBasis ), { size: 8, align: "right" } );
+			pdf.line( MARGIN, y + 17, CONTENT_RIGHT, y + 17, 0.25 );
+			y += 26;
+		}
+	}
+
+	// Footer sits in the bottom margin, below anything the table can reach
+	pdf.text( MARGIN, PAGE_HEIGHT - 30, "Generated from sample data. Not an official IRS form.", { size: 7 } );
+
+	return pdf.toBuffer( { title: `Form ${ formName } ${ form.taxYear } - ${ form.accountId }` } );
+}
@@ -0,0 +1,67 @@
+/**
+ * FDX error model
+ *
+ * Every error response from the API uses the FDX `Error` shape: a numeric `code`,
+ * a fixed `message` for that code and an optional `debugMessage` with request
+ * specific details. The HTTP status is determined by the code, so routes pick an
+ * entry from the catalog instead of choosing a status themselves.
+ */
+
+import type { Response } from "express";
+
+/**
+ * FDX Error entity
+ */
+export interface FdxError {
+	code: number;
+	message: string;
+	debugMessage?: string;
+}
+
+export interface FdxErrorDefinition {
+	code: number;
+	status: number;
+	message: string;
+}
+
+/**
+ * Catalog of the error codes the API returns.
+ * FDX numbers server errors 5xx, customer errors 6xx and account errors 7xx. Request level
+ * problems FDX leaves unnumbered (bad input, unknown route, unsupported media type) reuse
+ * their HTTP status as the code.
+ */
+export const FDX_ERRORS = {
+	INVALID_INPUT: { code: 400, status: 400, message: "Invalid input" },
+	NOT_AUTHENTICATED: { code: 401, status: 401, message: "Missing or invalid access token" },
+	RESOURCE_NOT_FOUND: { code: 404, status: 404, message: "Requested resource not found" },
+	NOT_ACCEPTABLE: { code: 406, status: 406, message: "Requested content type is not supported" },
+	INTERNAL_SERVER_ERROR: { code: 500, status: 500, message: "Internal server error" },
+	SUBSYSTEM_UNAVAILABLE: { code: 501, status: 503, message: "Subsystem unavailable" },
+	SCHEDULED_MAINTENANCE: { code: 502, status: 503, message: "Scheduled maintenance" },
+	CUSTOMER_NOT_FOUND: { code: 601, status: 404, message: "Customer not found" },
+	CUSTOMER_NOT_AUTHORIZED: { code: 602, status: 403, message: "Customer not authorized" },
+	ACCOUNT_NOT_FOUND: { code: 701, status: 404, message: "Account not found" },
+	INVALID_START_OR_END_DATE: { code: 702, status: 400, message: "Invalid start or end date" },
+	INVALID_DATE_RANGE: { code: 703, status: 400, message: "Invalid date range" },
+	ACCOUNT_TYPE_NOT_SUPPORTED: { code: 704, status: 400, message: "Account type not supported" },
+	STATEMENT_NOT_FOUND: { code: 1107, status: 404, message: "Statement not found" },
+	TAX_FORM_NOT_FOUND: { code: 1203, status: 404, message: "Tax form not found" }
+} as const satisfies Record<string, FdxErrorDefinition>;
+
+/**
+ * Build the FDX error body for a catalog entry
+ */
+export function createFdxError( definition: FdxErrorDefinition, debugMessage?: string ): FdxError {
+	return {
+		code: definition.code,
+		message: definition.message,
+		...( debugMessage && { debugMessage } )
+	};
+}
+
+/**
+ * Send an FDX error response with the HTTP status of the catalog entry
+ */
+export function sendFdxError( res: Response, definition: FdxErrorDefinition, debugMessage?: string ): Response {
+	return res.status( definition.status ).json( createFdxError( definition, debugMessage ) );
+}
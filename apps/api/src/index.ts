@@ -1,6 +1,5 @@
 import "dotenv/config";
 import express, { Request, Response, NextFunction } from "express";
-import { createRemoteJWKSet, jwtVerify, JWTPayload } from "jose";
 import { webcrypto } from "crypto";
 
 // Polyfill for crypto global in Node.js
@@ -8,23 +7,41 @@ if ( !globalThis.crypto ) {
 	globalThis.crypto = webcrypto;
 }
 
-import customersRouter from "./routes/customers.js";
-import accountsRouter from "./routes/accounts.js";
+import { fdxRouters } from "./routes/index.js";
+import { resolveCustomer } from "./middleware/customer.js";
+import {
+	createIntrospectionValidator,
+	createJwtValidator,
+	getIntrospectionOptions,
+	TokenValidationUnavailableError,
+	TOKEN_VALIDATION_MODES,
+	type TokenValidationMode
+} from "./auth/accessTokens.js";
+import { createRevocationList, getRevocationListOptions } from "./auth/revocations.js";
+import { createDPoPVerifier, getBoundKeyThumbprint, getDPoPChallenge, getDPoPOptions, DPoPError } from "./auth/dpop.js";
+import { getBoundCertificateThumbprint, verifyCertificateBinding, CertificateBindingError } from "./auth/certificateBinding.js";
+import { validateResponses, RESPONSE_VALIDATION_MODES, type ResponseValidationMode } from "./middleware/responseValidation.js";
+import { getDataStore, onDataChange } from "./data/stores/index.js";
+import { createTransactionSimulation, getSimulationOptions } from "./simulation/transactionLifecycle.js";
+import { DATA_PROVIDER } from "./consents/consents.js";
+import { createNotificationSigner } from "./notifications/signing.js";
+import { createNotificationDispatcher, getNotificationDispatcherOptions, toNotificationEvent } from "./notifications/dispatcher.js";
+import { FDX_ERRORS, sendFdxError } from "./errors.js";
+import { buildOpenApiDocument, findUndocumentedRoutes, FDX_BASE_PATH } from "./openapi.js";
+import type { AuthenticatedRequest } from "./types.js";
 import {
 	sanitizeError,
 	logError,
-	AuthenticationError,
 	getRequiredEnv,
 	getRequiredEnvNumber,
+	getOptionalEnv,
+	getEnvBoolean,
 	createLogger,
 	createApiSecurityHeaders,
 	setupBasicExpress
 } from "@apps/shared";
-
-// Extend Request interface to include user payload
-interface AuthenticatedRequest extends Request {
-	user?: JWTPayload;
-}
+import { DEFAULT_CLIENT_CERT_HEADER } from "@apps/shared/clientCertificates";
+import { assertFapi2Compliance, getSecurityProfile, isHttpsUrl, FAPI2_SIGNING_ALGORITHMS } from "@apps/shared/securityProfiles";
 
 // Create logger for API service
 const logger = createLogger( "api" );
@@ -33,8 +50,105 @@ const ISSUER = getRequiredEnv( "OP_ISSUER", "https://id.localtest.me" );
 const AUDIENCE = getRequiredEnv( "API_AUDIENCE", "api://my-api" );
 const PORT = getRequiredEnvNumber( "API_PORT", 3003 );
 const HOST = getRequiredEnv( "API_HOST", "http://localhost" );
+const CONSENT_API_SECRET = getOptionalEnv( "CONSENT_API_SECRET", "" );
+// Header the reverse proxy forwards the client's TLS certificate in, for certificate-bound access tokens
+const MTLS_CLIENT_CERT_HEADER = getOptionalEnv( "MTLS_CLIENT_CERT_HEADER", DEFAULT_CLIENT_CERT_HEADER ).toLowerCase();
+// Anyone who reaches the API around the proxy can set that header, so it's only read once the deployment confirms they can't
+const MTLS_TRUST_PROXY_HEADER = getEnvBoolean( "MTLS_TRUST_PROXY_HEADER", false );
+const RESPONSE_VALIDATION = getOptionalEnv( "API_RESPONSE_VALIDATION", "off" ) as ResponseValidationMode;
+if ( !RESPONSE_VALIDATION_MODES.includes( RESPONSE_VALIDATION ) ) {
+	throw new Error( `Invalid API_RESPONSE_VALIDATION "${ RESPONSE_VALIDATION }": expected one of ${ RESPONSE_VALIDATION_MODES.join( ", " ) }` );
+}
+const TOKEN_VALIDATION = getOptionalEnv( "API_TOKEN_VALIDATION", "jwt" ) as TokenValidationMode;
+if ( !TOKEN_VALIDATION_MODES.includes( TOKEN_VALIDATION ) ) {
+	throw new Error( `Invalid API_TOKEN_VALIDATION "${ TOKEN_VALIDATION }": expected one of ${ TOKEN_VALIDATION_MODES.join( ", " ) }` );
+}
+
+// FAPI 2.0 Security Profile, switched on for the OP, the API and the app together with SECURITY_PROFILE=fapi2:
+// only sender-constrained access tokens and PS256 or ES256 signatures are accepted
+const FAPI2 = getSecurityProfile() === "fapi2";
+if ( FAPI2 ) {
+	assertFapi2Compliance( "API", [
+		...( isHttpsUrl( ISSUER ) ? [] : [ `OP_ISSUER must be an https URL, got ${ ISSUER }` ] ),
+		...( isHttpsUrl( HOST ) ? [] : [ `API_HOST must be an https URL, got ${ HOST }` ] )
+	] );
+	logger.info( "FAPI 2.0 Security Profile enabled - only sender-constrained access tokens are accepted" );
+}
+
+// Open the data store up front so a misconfigured backend fails at startup
+const dataStore = await getDataStore();
+logger.info( `Using "${ dataStore.name }" data store` );
+
+// Send notifications to the subscribed callback URLs when data changes. Started before the
+// simulation so its first balance changes are delivered too.
+const notificationSigner = await createNotificationSigner();
+if ( notificationSigner.ephemeral ) {
+	logger.warn( "JWKS not configured - notifications are signed with an ephemeral key that changes on restart" );
+}
+const notificationDispatcher = createNotificationDispatcher(
+	dataStore,
+	notificationSigner,
+	getNotificationDispatcherOptions( DATA_PROVIDER )
+);
+await notificationDispatcher.start(
+	( delivery ) => logger.info( {
+		deliveryId: delivery.deliveryId,
+		subscriptionId: delivery.subscriptionId,
+		status: delivery.status,
+		attempts: delivery.attempts.length,
+		nextAttemptAt: delivery.nextAttemptAt
+	}, "Notification delivery attempted" ),
+	( error ) => logError( logger, error, { context: "Notification delivery" } )
+);
+onDataChange( ( change ) => {
+	const event = toNotificationEvent( change, `${ HOST }${ FDX_BASE_PATH }` );
+	if ( !event ) return;
+	notificationDispatcher.publish( event )
+		.catch( ( error ) => logError( logger, error, { context: "Notification publishing" } ) );
+} );
+
+// Deny the access tokens of revoked grants and revoked JWTs, which would verify until they expire otherwise.
+// Consents revoked here are denied at once; everything else is learned by polling the authorization server,
+// and grants it revoked on its own end their consent's notification subscriptions like a revocation here.
+const revocationList = createRevocationList( getRevocationListOptions( ISSUER, CONSENT_API_SECRET ) );
+onDataChange( ( change ) => {
+	if ( change.type === "consent" && change.consent.status === "REVOKED" ) {
+		revocationList.revokeGrant( change.consent.id );
+	}
+} );
+await revocationList.start(
+	( grantId ) => notificationDispatcher.revokeConsent( grantId )
+		.catch( ( error ) => logError( logger, error, { context: "Notification publishing" } ) ),
+	( error ) => logError( logger, error, { context: "Revocation polling" } )
+);
+if ( !CONSENT_API_SECRET ) {
+	logger.warn( "CONSENT_API_SECRET not configured - only consents revoked through the API are denied" );
+}
+
+// Move transactions from pending to posted on a timer, for testing how recipients handle settlement
+if ( getEnvBoolean( "API_SIMULATION_ENABLED", false ) ) {
+	const simulationOptions = getSimulationOptions();
+	const simulation = createTransactionSimulation( dataStore, simulationOptions );
+	await simulation.start(
+		( events ) => logger.info( { events }, "Simulated transaction changes" ),
+		( error ) => logError( logger, error, { context: "Transaction simulation" } )
+	);
+	logger.info( { seed: simulationOptions.seed, accountIds: simulationOptions.accountIds }, "Transaction simulation enabled" );
+}
+
+// Verify JWT access tokens locally, or ask the authorization server about every token, which also
+// accepts opaque tokens and rejects JWTs whose grant was revoked
+const validateAccessToken = TOKEN_VALIDATION === "introspection"
+	? createIntrospectionValidator( { issuer: ISSUER, audience: AUDIENCE, ...getIntrospectionOptions( ISSUER ) } )
+	: createJwtValidator( { issuer: ISSUER, audience: AUDIENCE, algorithms: FAPI2 ? FAPI2_SIGNING_ALGORITHMS : undefined } );
+logger.info( `Validating access tokens with ${ TOKEN_VALIDATION === "introspection" ? "token introspection" : "the authorization server's JWKS" }` );
 
-const JWKS = createRemoteJWKSet( new URL( `${ ISSUER }/jwks` ) );
+// Require a proof of possession of the client's key with DPoP-bound access tokens (RFC 9449)
+const dpopOptions = getDPoPOptions();
+const verifyDPoP = createDPoPVerifier( dpopOptions );
+if ( dpopOptions.required ) {
+	logger.info( "DPoP required - bearer access tokens are rejected" );
+}
 
 const app = express();
 setupBasicExpress( app );
@@ -44,6 +158,13 @@ app.use( createApiSecurityHeaders() );
 
 app.use( express.json() );
 
+// Strict mode checks every JSON response against its schema: a violation is a 500 in
+// development so drift gets noticed, while production only logs it
+if ( RESPONSE_VALIDATION === "strict" ) {
+	app.use( validateResponses( { logger, failOnViolation: process.env.NODE_ENV !== "production" } ) );
+	logger.info( "Response schema validation enabled" );
+}
+
 // Auth middleware
 app.use( async ( req: Request, res: Response, next: NextFunction ) => {
 	if ( req.path.startsWith( "/public" ) ) return next();
@@ -56,16 +177,15 @@ app.use( async ( req: Request, res: Response, next: NextFunction ) => {
 	}, "API request received" );
 
 	const auth = req.headers["authorization"] || "";
-	const token =
-		typeof auth === "string" && auth.startsWith( "Bearer " ) ? auth.slice( 7 ) : "";
+	// Bearer for plain access tokens, DPoP for sender-constrained ones
+	const [ , scheme = "", token = "" ] = /^(Bearer|DPoP) +(\S+)$/i.exec( auth ) ?? [];
 
 	if ( !token ) {
 		logger.debug( {
 			path: req.path,
 			authHeader: auth ? "present but invalid format" : "missing"
-		}, "Token validation failed - No bearer token" );
-		const error = new AuthenticationError( "Missing access token" );
-		return res.status( 401 ).json( sanitizeError( error, "Authentication required" ) );
+		}, "Token validation failed - No access token" );
+		return sendFdxError( res, FDX_ERRORS.NOT_AUTHENTICATED, "Missing access token" );
 	}
 
 	// Log token structure (first/last 10 chars for debugging without exposing full token)
@@ -77,17 +197,33 @@ app.use( async ( req: Request, res: Response, next: NextFunction ) => {
 	}, "Token received, attempting validation" );
 
 	try {
+		// Opaque tokens are expected when introspecting
 		const parts = token.split( "." );
-		if ( parts.length !== 3 ) {
+		if ( parts.length !== 3 && TOKEN_VALIDATION === "jwt" ) {
 			logger.warn( {
 				parts: parts.length,
 				tokenLength: token.length
 			}, "Access token not a compact JWS" );
 		}
-		const { payload } = await jwtVerify( token, JWKS, {
-			issuer: ISSUER,
-			audience: AUDIENCE
+		const payload = await validateAccessToken( token );
+		if ( revocationList.isRevoked( payload ) ) {
+			logger.debug( { path: req.path, jti: payload.jti, clientId: payload.client_id }, "Token validation failed - Access token revoked" );
+			return sendFdxError( res, FDX_ERRORS.NOT_AUTHENTICATED, "Access token has been revoked" );
+		}
+		const dpopHeader = req.headers["dpop"];
+		await verifyDPoP( {
+			scheme,
+			proofs: dpopHeader === undefined ? [] : [ dpopHeader ].flat(),
+			method: req.method,
+			url: `${ HOST }${ req.originalUrl }`,
+			accessToken: token,
+			claims: payload
 		} );
+		verifyCertificateBinding( payload, MTLS_TRUST_PROXY_HEADER ? req.headers[MTLS_CLIENT_CERT_HEADER] : undefined );
+		// Bound to a DPoP key or a client certificate, whose possession was just checked
+		if ( FAPI2 && !getBoundKeyThumbprint( payload ) && !getBoundCertificateThumbprint( payload ) ) {
+			throw new DPoPError( "invalid_token", "A sender-constrained access token is required" );
+		}
 
 		logger.debug( {
 			path: req.path,
@@ -108,9 +244,19 @@ app.use( async ( req: Request, res: Response, next: NextFunction ) => {
 			errorName: e instanceof Error ? e.name : "unknown",
 			errorMessage: e instanceof Error ? e.message : "unknown"
 		}, "Token validation failed" );
-		logError( logger, e, { context: "JWT verification" } );
-		const error = new AuthenticationError( "Invalid access token" );
-		return res.status( 401 ).json( sanitizeError( error, "Authentication failed" ) );
+		logError( logger, e, { context: "Access token validation" } );
+		if ( e instanceof DPoPError ) {
+			res.setHeader( "WWW-Authenticate", getDPoPChallenge( e, dpopOptions ) );
+			return sendFdxError( res, FDX_ERRORS.NOT_AUTHENTICATED, e.message );
+		}
+		if ( e instanceof CertificateBindingError ) {
+			res.setHeader( "WWW-Authenticate", `Bearer error="invalid_token", error_description="${ e.message }"` );
+			return sendFdxError( res, FDX_ERRORS.NOT_AUTHENTICATED, e.message );
+		}
+		if ( e instanceof TokenValidationUnavailableError ) {
+			return sendFdxError( res, FDX_ERRORS.SUBSYSTEM_UNAVAILABLE, "The authorization server could not be reached to validate the access token" );
+		}
+		return sendFdxError( res, FDX_ERRORS.NOT_AUTHENTICATED, "Invalid access token" );
 	}
 } );
 
@@ -118,33 +264,46 @@ app.get( "/public/health", ( _req: Request, res: Response ) =>
 	res.json( { ok: true } )
 );
 
-// Routes
-app.use( "/api/fdx/v6", customersRouter );
-app.use( "/api/fdx/v6", accountsRouter );
+// Fail at startup if a route was added or removed without updating the OpenAPI operations
+const undocumentedRoutes = findUndocumentedRoutes( fdxRouters );
+if ( undocumentedRoutes.length > 0 ) {
+	throw new Error( `OpenAPI document is out of sync with the routes: ${ undocumentedRoutes.join( "; " ) }` );
+}
+const openApiDocument = buildOpenApiDocument( { serverUrl: HOST, issuer: ISSUER } );
 
-// app.get( "/accounts", ( req: Request, res: Response ) => {
-// 	const scope = String( ( req as any ).user?.scope || "" ).split( " " );
-// 	if ( !scope.includes( "accounts:read" ) )
-// 		return res.status( 403 ).json( { error: "insufficient_scope" } );
-// 	return res.json( [ { id: "acc_123", name: "Primary Checking" } ] );
-// } );
+app.get( "/public/openapi.json", ( _req: Request, res: Response ) =>
+	res.json( openApiDocument )
+);
+
+// Keys recipients verify notification signatures with
+app.get( "/public/notifications/jwks", ( _req: Request, res: Response ) =>
+	res.json( notificationSigner.publicJwks )
+);
+
+// Routes
+app.use( FDX_BASE_PATH, resolveCustomer );
+for ( const router of fdxRouters ) {
+	app.use( FDX_BASE_PATH, router );
+}
 
 // 404 route handler for undefined routes
 app.use( ( req, res ) => {
-	res.status( 404 ).json( {
-		error: "not_found",
-		message: "Requested resource not found"
-	} );
+	sendFdxError( res, FDX_ERRORS.RESOURCE_NOT_FOUND );
 } );
 
-// Global error handler
-app.use( ( error: unknown, req: Request, res: Response ) => {
+// Global error handler. Client errors raised by middleware (e.g. malformed JSON bodies) carry a
+// 4xx statusCode and are reported as invalid input; everything else is an internal server error.
+app.use( ( error: unknown, req: Request, res: Response, next: NextFunction ) => {
+	if ( res.headersSent ) return next( error );
 	logError( logger, error, { path: req.path, method: req.method } );
-	const sanitized = sanitizeError( error );
 	const statusCode = typeof error === "object" && error !== null && "statusCode" in error
 		? ( error as { statusCode: number } ).statusCode
 		: 500;
-	res.status( statusCode ).json( sanitized );
+	if ( statusCode >= 400 && statusCode < 500 ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, sanitizeError( error, FDX_ERRORS.INVALID_INPUT.message ).message );
+	}
+	// sanitizeError only passes the underlying message through outside production
+	sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR, sanitizeError( error ).message );
 } );
 
 app.listen( PORT, "0.0.0.0", () => {
@@ -0,0 +1,41 @@
+import type { Request } from "express";
+import type { AuthenticatedRequest } from "../types.js";
+
+// Access token claim carrying the account IDs the user consented to share (set by apps/auth)
+export const CONSENTED_ACCOUNTS_CLAIM = "account_ids";
+
+// Access token claim carrying the ID of the consent the token was issued under (set by apps/auth)
+export const CONSENT_ID_CLAIM = "consent_id";
+
+/**
+ * Get the client the access token was issued to, which is who the consent was given to
+ */
+export function getClientId( req: Request ): string {
+	const clientId = ( req as AuthenticatedRequest ).user?.client_id;
+	return typeof clientId === "string" ? clientId : "";
+}
+
+/**
+ * Get the ID of the consent the access token on this request was issued under
+ */
+export function getConsentId( req: Request ): string | undefined {
+	const claim = ( req as AuthenticatedRequest ).user?.[CONSENT_ID_CLAIM];
+	return typeof claim === "string" ? claim : undefined;
+}
+
+/**
+ * Get the account IDs the user consented to share with the client.
+ * Tokens without the claim carry no account consent and see no accounts.
+ */
+export function getConsentedAccountIds( req: Request ): string[] {
+	const claim = ( req as AuthenticatedRequest ).user?.[CONSENTED_ACCOUNTS_CLAIM];
+	if ( !Array.isArray( claim ) ) return [];
+	return claim.filter( ( accountId ): accountId is string => typeof accountId === "string" );
+}
+
+/**
+ * Check whether an account was consented for the access token on this request
+ */
+export function isAccountConsented( req: Request, accountId: string ): boolean {
+	return getConsentedAccountIds( req ).includes( accountId );
+}
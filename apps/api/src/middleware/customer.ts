@@ -0,0 +1,22 @@
+import type { Request, Response, NextFunction } from "express";
+import { getCustomerIdBySubject } from "../data/customersRepository.js";
+import type { AuthenticatedRequest } from "../types.js";
+
+/**
+ * Resolve the customer bound to the access token subject and attach it to the request.
+ * Subjects that map to no customer continue with an empty customer ID, so the
+ * repositories return no data instead of another customer's data.
+ */
+export async function resolveCustomer( req: Request, _res: Response, next: NextFunction ): Promise<void> {
+	const authReq = req as AuthenticatedRequest;
+	const sub = authReq.user?.sub;
+	authReq.customerId = sub ? ( await getCustomerIdBySubject( sub ) ) ?? "" : "";
+	next();
+}
+
+/**
+ * Get the customer ID resolved for the authenticated subject
+ */
+export function getCustomerId( req: Request ): string {
+	return ( req as AuthenticatedRequest ).customerId ?? "";
+}
@@ -0,0 +1,49 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { Logger } from "pino";
+import { formatZodError } from "@apps/shared/validation";
+import { errorSchema } from "../data/schemas.js";
+import { findOperation } from "../openapi.js";
+import { FDX_ERRORS, createFdxError } from "../errors.js";
+
+export const RESPONSE_VALIDATION_MODES = [ "off", "strict" ] as const;
+
+export type ResponseValidationMode = typeof RESPONSE_VALIDATION_MODES[number];
+
+export interface ResponseValidationOptions {
+	logger: Logger;
+	failOnViolation: boolean;  // Replace an invalid payload with a 500 instead of only logging it
+}
+
+/**
+ * Create middleware that validates every JSON response against its documented schema.
+ * Successful responses are checked against the operation's response schema in the OpenAPI
+ * operations and errors against the FDX Error schema. Responses for routes that aren't FDX
+ * operations (e.g. /public/health) are not checked.
+ */
+export function validateResponses( options: ResponseValidationOptions ): RequestHandler {
+	const { logger, failOnViolation } = options;
+
+	return ( req: Request, res: Response, next: NextFunction ): void => {
+		const json = res.json.bind( res );
+
+		res.json = ( body: unknown ): Response => {
+			// req.route is only known once a route matched, which is always the case by the time it responds
+			const schema = res.statusCode >= 400
+				? errorSchema
+				: req.route ? findOperation( req.method, req.route.path )?.response.json : undefined;
+			if ( !schema ) return json( body );
+
+			const result = schema.safeParse( body );
+			if ( result.success ) return json( body );
+
+			const violations = formatZodError( result.error );
+			logger.error( { method: req.method, path: req.path, status: res.statusCode, violations }, "Response does not match its schema" );
+			if ( !failOnViolation ) return json( body );
+
+			res.status( FDX_ERRORS.INTERNAL_SERVER_ERROR.status );
+			return json( createFdxError( FDX_ERRORS.INTERNAL_SERVER_ERROR, `Response failed schema validation: ${ violations }` ) );
+		};
+
+		next();
+	};
+}
@@ -0,0 +1,41 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { getDataClusters, getScopesGranting, type DataCluster } from "@apps/shared/dataClusters";
+import type { AuthenticatedRequest } from "../types.js";
+import { FDX_ERRORS, sendFdxError } from "../errors.js";
+
+/**
+ * Get the set of scopes granted to the access token on this request.
+ * The `scope` claim is a space-delimited string per RFC 9068.
+ */
+export function getGrantedScopes( req: Request ): Set<string> {
+	const scope = ( req as AuthenticatedRequest ).user?.scope;
+	return new Set( typeof scope === "string" ? scope.split( " " ).filter( Boolean ) : [] );
+}
+
+/**
+ * Get the FDX data clusters the scopes of the access token on this request grant
+ */
+export function getGrantedDataClusters( req: Request ): Set<DataCluster> {
+	return getDataClusters( getGrantedScopes( req ) );
+}
+
+/**
+ * Create middleware that requires a scope granting the data cluster on the access token.
+ * Responds with 403 and an `insufficient_scope` challenge (RFC 6750 section 3.1) naming
+ * the narrowest scope that grants it otherwise.
+ */
+export function requireDataCluster( cluster: DataCluster ): RequestHandler {
+	return ( req: Request, res: Response, next: NextFunction ): void => {
+		if ( getGrantedDataClusters( req ).has( cluster ) ) {
+			next();
+			return;
+		}
+
+		const scopes = getScopesGranting( cluster );
+		res.setHeader(
+			"WWW-Authenticate",
+			`Bearer error="insufficient_scope", error_description="The access token is missing required scopes", scope="${ scopes[0] }"`
+		);
+		sendFdxError( res, FDX_ERRORS.CUSTOMER_NOT_AUTHORIZED, `Insufficient scope: ${ cluster } requires one of ${ scopes.join( ", " ) }` );
+	};
+}
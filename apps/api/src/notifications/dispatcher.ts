@@ -0,0 +1,306 @@
+/**
+ * FDX event notification delivery
+ *
+ * Recipients subscribe a callback URL to a notification type. When something the type covers
+ * happens, the dispatcher creates a delivery for every subscription it concerns and POSTs the
+ * notification to the callback URL as a compact JWS (Content-Type: application/jose). Any 2xx
+ * response counts as delivered; anything else, including redirects and timeouts, is retried with
+ * exponential backoff until the attempts run out. Every attempt is recorded in the data store,
+ * which is the delivery log served at /notification-subscriptions/{id}/deliveries, and deliveries
+ * still pending when the API stops are picked up again on the next start.
+ */
+
+import { randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { getRequiredEnvNumber, isInternalAddress } from "@apps/shared";
+import type {
+	Link,
+	Notification,
+	NotificationDelivery,
+	Party,
+	NotificationType,
+	StoredNotificationSubscription
+} from "../data/types.js";
+import type { DataChangeEvent, DataStore } from "../data/stores/index.js";
+import { getConsentAccountIds } from "../consents/consents.js";
+import type { NotificationSigner } from "./signing.js";
+
+export interface NotificationDispatcherOptions {
+	maxAttempts: number;
+	retryBaseMs: number;  // Delay before the first retry; doubles with every further retry
+	timeoutMs: number;  // How long to wait for a callback URL to respond
+	publisher: Party;
+}
+
+// Something that happened, to be sent to the subscriptions it concerns
+export interface NotificationEvent {
+	type: NotificationType;
+	accountIds: string[];  // Accounts the event is about; only subscriptions consented to one of them receive it
+	consentId?: string;  // Set for consent events, which go to the subscriptions created under the consent instead
+	notificationPayload: Notification["notificationPayload"];
+	url?: Link;
+}
+export interface NotificationDispatcher {
+	publish( event: NotificationEvent ): Promise<NotificationDelivery[]>;
+	// Publish CONSENT_REVOKED for a grant revoked on the authorization server, unless it was published before
+	revokeConsent( consentId: string ): Promise<NotificationDelivery[]>;
+	start( onAttempt: ( delivery: NotificationDelivery ) => void, onError: ( error: unknown ) => void ): Promise<void>;
+	stop(): void;
+}
+
+const NOTIFICATION_CATEGORIES: Record<NotificationType, Notification["category"]> = {
+	BALANCE: "NEW_DATA",
+	STATEMENT: "NEW_DATA",
+	CONSENT_REVOKED: "CONSENT"
+};
+
+/**
+ * Read the delivery settings from the API_NOTIFICATION_* environment variables
+ */
+export function getNotificationDispatcherOptions( publisher: Party ): NotificationDispatcherOptions {
+	const maxAttempts = getRequiredEnvNumber( "API_NOTIFICATION_MAX_ATTEMPTS", 5 );
+	const retryBaseSeconds = getRequiredEnvNumber( "API_NOTIFICATION_RETRY_BASE_SECONDS", 10 );
+	const timeoutSeconds = getRequiredEnvNumber( "API_NOTIFICATION_TIMEOUT_SECONDS", 10 );
+	if ( !Number.isInteger( maxAttempts ) || maxAttempts < 1 || retryBaseSeconds <= 0 || timeoutSeconds <= 0 ) {
+		throw new Error( "API_NOTIFICATION_MAX_ATTEMPTS must be a positive integer and API_NOTIFICATION_RETRY_BASE_SECONDS and API_NOTIFICATION_TIMEOUT_SECONDS positive" );
+	}
+
+	return {
+		maxAttempts,
+		retryBaseMs: retryBaseSeconds * 1000,
+		timeoutMs: timeoutSeconds * 1000,
+		publisher
+	};
+}
+
+/**
+ * Map a change in the data store to the notification it triggers, if any.
+ * A saved account means its balances moved, which is a BALANCE notification linking to the account;
+ * a statement saved as available is a STATEMENT notification linking to its PDF, and a consent saved
+ * as revoked is a CONSENT_REVOKED notification linking to the consent.
+ */
+export function toNotificationEvent( change: DataChangeEvent, baseUrl: string ): NotificationEvent | null {
+	if ( change.type === "consent" ) {
+		const { consent } = change;
+		if ( consent.status !== "REVOKED" ) return null;
+		return {
+			type: "CONSENT_REVOKED",
+			accountIds: getConsentAccountIds( consent ),
+			consentId: consent.id,
+			notificationPayload: { id: consent.id, idType: "CONSENT" },
+			url: { href: `${ baseUrl }/consents/${ consent.id }`, rel: "consent", action: "GET", types: [ "application/json" ] }
+		};
+	}
+
+	if ( change.type === "statement" ) {
+		const { accountId, statementId, status } = change.statement;
+		if ( status !== "AVAILABLE" ) return null;
+		return {
+			type: "STATEMENT",
+			accountIds: [ accountId ],
+			notificationPayload: { id: statementId, idType: "STATEMENT" },
+			url: { href: `${ baseUrl }/accounts/${ accountId }/statements/${ statementId }`, rel: "statement", action: "GET", types: [ "application/pdf" ] }
+		};
+	}
+
+	const { accountId } = change.account;
+	return {
+		type: "BALANCE",
+		accountIds: [ accountId ],
+		notificationPayload: { id: accountId, idType: "ACCOUNT" },
+		url: { href: `${ baseUrl }/accounts/${ accountId }`, rel: "account", action: "GET", types: [ "application/json" ] }
+	};
+}
+
+/**
+ * Check whether a subscription should receive an event: consent events go to the subscriptions created
+ * under the consent, anything else needs the consent to include one of the accounts the event is about
+ */
+function concerns( subscription: StoredNotificationSubscription, event: NotificationEvent ): boolean {
+	if ( event.consentId ) {
+		return subscription.consentId === event.consentId;
+	}
+	return event.accountIds.some( ( accountId ) => subscription.accountIds.includes( accountId ) );
+}
+
+/**
+ * Whether any address a callback hostname resolves to is internal. The subscription schema only
+ * rejects internal IP addresses written into the URL; a hostname can point at one too.
+ */
+async function resolvesToInternalAddress( hostname: string ): Promise<boolean> {
+	try {
+		const addresses = await lookup( hostname.replace( /^\[(.*)\]$/, "$1" ), { all: true } );
+		return addresses.some( ( { address } ) => isInternalAddress( address ) );
+	} catch {
+		// Left to the request, which reports the lookup failure as the delivery error
+		return false;
+	}
+}
+
+/**
+ * Create the dispatcher. Deliveries only go out once it's started.
+ */
+export function createNotificationDispatcher( store: DataStore, signer: NotificationSigner, options: NotificationDispatcherOptions ): NotificationDispatcher {
+	const timers = new Map<string, ReturnType<typeof setTimeout>>();
+	let running = false;
+	let onAttempt: Parameters<NotificationDispatcher["start"]>[0] = () => {};
+	let onError: Parameters<NotificationDispatcher["start"]>[1] = () => {};
+
+	/**
+	 * Delay before the next attempt, after the given number of failed attempts
+	 */
+	function backoff( failedAttempts: number ): number {
+		return options.retryBaseMs * 2 ** ( failedAttempts - 1 );
+	}
+
+	function schedule( delivery: NotificationDelivery ): void {
+		if ( !running || timers.has( delivery.deliveryId ) ) return;
+		const delay = Math.max( 0, new Date( delivery.nextAttemptAt ?? 0 ).getTime() - Date.now() );
+		const timer = setTimeout( () => {
+			timers.delete( delivery.deliveryId );
+			attempt( delivery ).catch( onError );
+		}, delay );
+		timer.unref();
+		timers.set( delivery.deliveryId, timer );
+	}
+
+	/**
+	 * POST the signed notification and report the HTTP status, or why there was no response
+	 */
+	async function send( delivery: NotificationDelivery ): Promise<{ responseStatus?: number; error?: string }> {
+		try {
+			if ( process.env.NODE_ENV === "production" && await resolvesToInternalAddress( new URL( delivery.callbackUrl ).hostname ) ) {
+				return { error: "Callback URL resolves to a loopback, link-local or private address" };
+			}
+			const response = await fetch( delivery.callbackUrl, {
+				method: "POST",
+				headers: { "Content-Type": "application/jose" },
+				body: await signer.sign( delivery.notification ),
+				// A redirect is a failed delivery rather than something to follow to another host
+				redirect: "manual",
+				signal: AbortSignal.timeout( options.timeoutMs )
+			} );
+			await response.body?.cancel();
+			return response.ok
+				? { responseStatus: response.status }
+				: { responseStatus: response.status, error: `Callback responded with HTTP ${ response.status }` };
+		} catch ( error ) {
+			const cause = error instanceof Error && error.cause instanceof Error ? `: ${ error.cause.message }` : "";
+			return { error: error instanceof Error ? `${ error.message }${ cause }` : "Request failed" };
+		}
+	}
+
+	async function attempt( delivery: NotificationDelivery ): Promise<void> {
+		// A subscription deleted since the delivery was scheduled takes its deliveries with it
+		if ( !await store.getNotificationSubscription( delivery.clientId, delivery.subscriptionId ) ) return;
+
+		const attemptedAt = new Date();
+		const result = await send( delivery );
+		const attempts = [ ...delivery.attempts, { attemptedAt: attemptedAt.toISOString(), ...result } ];
+
+		const updated: NotificationDelivery = { ...delivery, attempts };
+		delete updated.nextAttemptAt;
+		if ( !result.error ) {
+			updated.status = "DELIVERED";
+		} else if ( attempts.length >= options.maxAttempts ) {
+			updated.status = "FAILED";
+		} else {
+			updated.nextAttemptAt = new Date( attemptedAt.getTime() + backoff( attempts.length ) ).toISOString();
+		}
+
+		await store.saveNotificationDelivery( updated );
+		onAttempt( updated );
+		if ( updated.status === "PENDING" ) schedule( updated );
+	}
+
+	// The subscriptions created with access tokens issued under a consent, of every type
+	async function listConsentSubscriptions( consentId: string ): Promise<StoredNotificationSubscription[]> {
+		const subscriptions: StoredNotificationSubscription[] = [];
+		for ( const type of Object.keys( NOTIFICATION_CATEGORIES ) as NotificationType[] ) {
+			for ( const subscription of await store.listNotificationSubscriptions( type ) ) {
+				if ( subscription.consentId === consentId ) subscriptions.push( subscription );
+			}
+		}
+		return subscriptions;
+	}
+
+	const dispatcher: NotificationDispatcher = {
+		async publish( event ) {
+			const subscriptions = ( await store.listNotificationSubscriptions( event.type ) )
+				.filter( ( subscription ) => concerns( subscription, event ) );
+
+			const now = new Date().toISOString();
+			const deliveries: NotificationDelivery[] = [];
+			for ( const subscription of subscriptions ) {
+				const notification: Notification = {
+					notificationId: randomUUID(),
+					type: event.type,
+					sentOn: now,
+					category: NOTIFICATION_CATEGORIES[event.type],
+					publisher: options.publisher,
+					subscriber: subscription.subscriber,
+					notificationPayload: event.notificationPayload,
+					...( event.url && { url: event.url } )
+				};
+				const delivery: NotificationDelivery = {
+					deliveryId: randomUUID(),
+					subscriptionId: subscription.subscriptionId,
+					clientId: subscription.clientId,
+					callbackUrl: subscription.callbackUrl,
+					notification,
+					status: "PENDING",
+					attempts: [],
+					nextAttemptAt: now
+				};
+				await store.saveNotificationDelivery( delivery );
+				schedule( delivery );
+				deliveries.push( delivery );
+			}
+
+			// A revoked consent no longer shares any accounts, so the subscriptions created under it
+			// stop receiving notifications about them
+			if ( event.type === "CONSENT_REVOKED" && event.consentId ) {
+				for ( const subscription of await listConsentSubscriptions( event.consentId ) ) {
+					if ( subscription.accountIds.length > 0 ) {
+						await store.saveNotificationSubscription( { ...subscription, accountIds: [] } );
+					}
+				}
+			}
+			return deliveries;
+		},
+
+		// The authorization server revokes grants of its own, e.g. when their refresh token is revoked, and the
+		// API only learns of them from its revocation log, which it reads again from the start after a restart.
+		// Subscriptions that no longer share any accounts were told already. The grant is gone by now, so
+		// there's no consent to link to.
+		async revokeConsent( consentId ) {
+			const subscriptions = await listConsentSubscriptions( consentId );
+			if ( !subscriptions.some( ( subscription ) => subscription.accountIds.length > 0 ) ) return [];
+			return dispatcher.publish( {
+				type: "CONSENT_REVOKED",
+				accountIds: [ ...new Set( subscriptions.flatMap( ( subscription ) => subscription.accountIds ) ) ],
+				consentId,
+				notificationPayload: { id: consentId, idType: "CONSENT" }
+			} );
+		},
+
+		async start( attemptListener, errorListener ) {
+			onAttempt = attemptListener;
+			onError = errorListener;
+			running = true;
+			// Resume the deliveries a previous run left pending, at the time they were due
+			for ( const delivery of await store.listPendingNotificationDeliveries() ) {
+				schedule( delivery );
+			}
+		},
+
+		stop() {
+			running = false;
+			for ( const timer of timers.values() ) {
+				clearTimeout( timer );
+			}
+			timers.clear();
+		}
+	};
+	return dispatcher;
+}
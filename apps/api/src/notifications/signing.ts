@@ -0,0 +1,83 @@
+/**
+ * JWS signing of notification payloads
+ *
+ * Notifications are signed with the same keys the authorization server signs tokens with (the
+ * JWKS environment variable), so a recipient that already trusts the OP's keys can verify them.
+ * The public keys are also served by the API at /public/notifications/jwks. Without JWKS an
+ * ephemeral key is generated, which recipients have to fetch again after every restart.
+ */
+
+import { CompactSign, calculateJwkThumbprint, exportJWK, generateKeyPair, importJWK, type JWK } from "jose";
+import { jwksSchema, safeJsonParse } from "@apps/shared/validation";
+export interface NotificationSigner {
+	publicJwks: { keys: JWK[] };
+	ephemeral: boolean;  // True when no JWKS was configured
+	sign( payload: object ): Promise<string>;  // Compact JWS of the JSON payload
+}
+
+// Members of a private JWK that must never be published
+const PRIVATE_KEY_MEMBERS = [ "d", "p", "q", "dp", "dq", "qi", "k" ] as const;
+
+/**
+ * Pick the JWS algorithm for a key when the JWK doesn't name one
+ */
+function defaultAlgorithm( jwk: JWK ): string {
+	if ( jwk.kty === "RSA" ) return "RS256";
+	if ( jwk.kty === "OKP" ) return "EdDSA";
+	if ( jwk.crv === "P-384" ) return "ES384";
+	if ( jwk.crv === "P-521" ) return "ES512";
+	return "ES256";
+}
+
+function toPublicJwk( jwk: JWK ): JWK {
+	const publicJwk = { ...jwk };
+	for ( const member of PRIVATE_KEY_MEMBERS ) {
+		delete publicJwk[member];
+	}
+	return publicJwk;
+}
+
+/**
+ * Load the signing key from the JWKS environment variable: the first private signing key in the set
+ */
+async function loadConfiguredKey(): Promise<JWK | null> {
+	const jwksEnv = process.env.JWKS;
+	if ( !jwksEnv ) return null;
+
+	const parseResult = safeJsonParse( jwksEnv, jwksSchema );
+	if ( !parseResult.success ) {
+		throw new Error( `Invalid JWKS configuration: ${ parseResult.error }` );
+	}
+	const jwk = parseResult.data.keys.find( ( key ) => key.d && key.kty !== "oct" && key.use !== "enc" );
+	if ( !jwk ) {
+		throw new Error( "Invalid JWKS configuration: no private signing key to sign notifications with" );
+	}
+	return jwk as JWK;
+}
+
+/**
+ * Create the signer for notification payloads
+ */
+export async function createNotificationSigner(): Promise<NotificationSigner> {
+	let jwk = await loadConfiguredKey();
+	const ephemeral = !jwk;
+	if ( !jwk ) {
+		const { privateKey } = await generateKeyPair( "ES256", { extractable: true } );
+		jwk = { ...await exportJWK( privateKey ), alg: "ES256", use: "sig" };
+	}
+
+	const alg = jwk.alg ?? defaultAlgorithm( jwk );
+	const kid = jwk.kid ?? await calculateJwkThumbprint( jwk );
+	const key = await importJWK( jwk, alg );
+
+	return {
+		publicJwks: { keys: [ { ...toPublicJwk( jwk ), alg, kid, use: "sig" } ] },
+		ephemeral,
+
+		async sign( payload: object ): Promise<string> {
+			return new CompactSign( new TextEncoder().encode( JSON.stringify( payload ) ) )
+				.setProtectedHeader( { alg, kid, typ: "JOSE", cty: "json" } )
+				.sign( key );
+		}
+	};
+}
@@ -0,0 +1,384 @@
+/**
+ * OpenAPI 3.1 document for the FDX API
+ *
+ * Parameters come from the request schemas in @apps/shared/validation and response bodies
+ * from the entity schemas in ./data/schemas.ts, converted with Zod's JSON Schema support
+ * (OpenAPI 3.1 uses JSON Schema 2020-12 as is). The operation table below is checked
+ * against the mounted routers at startup, so a route can't be added without documenting it.
+ */
+
+import { z } from "zod";
+import type { Router } from "express";
+import {
+	paginationSchema,
+	dateRangePaginationSchema,
+	transactionsQuerySchema,
+	taxFormsQuerySchema,
+	accountIdSchema,
+	statementIdSchema,
+	taxFormIdSchema,
+	subscriptionIdSchema,
+	notificationSubscriptionRequestSchema,
+	consentIdSchema,
+	consentRevocationRequestSchema
+} from "@apps/shared/validation";
+import {
+	fdxSchemas,
+	customerSchema,
+	accountSchema,
+	accountContactSchema,
+	accountsResponseSchema,
+	statementsResponseSchema,
+	transactionsResponseSchema,
+	holdingsResponseSchema,
+	paymentNetworksResponseSchema,
+	assetTransferNetworksResponseSchema,
+	taxFormSchema,
+	taxFormsResponseSchema,
+	notificationSubscriptionSchema,
+	notificationDeliveriesResponseSchema,
+	consentSchema
+} from "./data/schemas.js";
+import { API_SCOPES, API_SCOPE_DEFINITIONS, getScopesGranting, type DataCluster } from "@apps/shared/dataClusters";
+import { FDX_ERRORS, type FdxErrorDefinition } from "./errors.js";
+
+/** Base path the FDX routers are mounted on */
+export const FDX_BASE_PATH = "/api/fdx/v6";
+
+type JsonSchema = Record<string, unknown>;
+
+export interface OperationDefinition {
+	method: "get" | "post" | "put" | "delete";
+	path: string;  // Express path, e.g. /accounts/:accountId
+	operationId: string;
+	summary: string;
+	tag: string;
+	dataCluster?: DataCluster;  // Data cluster the access token needs a scope for; any scope granting it will do
+	query?: z.ZodObject;
+	body?: z.ZodType;  // JSON request body
+	response: { status?: number; json?: z.ZodType; pdf?: boolean };  // status defaults to 200; json is a schema registered in fdxSchemas
+	errors: FdxErrorDefinition[];  // Besides the authentication, scope and server errors every operation can return
+}
+
+/**
+ * Every FDX operation the API serves
+ */
+export const API_OPERATIONS: OperationDefinition[] = [
+	{
+		method: "get", path: "/customers/current", operationId: "getCurrentCustomer", tag: "Customers",
+		summary: "Get the customer bound to the access token",
+		dataCluster: "CUSTOMER_PERSONAL", response: { json: customerSchema },
+		errors: [ FDX_ERRORS.CUSTOMER_NOT_FOUND ]
+	},
+	{
+		method: "get", path: "/accounts", operationId: "searchForAccounts", tag: "Accounts",
+		summary: "List the consented accounts",
+		dataCluster: "ACCOUNT_BASIC", query: paginationSchema, response: { json: accountsResponseSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT ]
+	},
+	{
+		method: "get", path: "/accounts/:accountId", operationId: "getAccount", tag: "Accounts",
+		summary: "Get an account; investment accounts include their holdings",
+		dataCluster: "ACCOUNT_BASIC", response: { json: accountSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.ACCOUNT_NOT_FOUND ]
+	},
+	{
+		method: "get", path: "/accounts/:accountId/contact", operationId: "getAccountContact", tag: "Accounts",
+		summary: "Get the account holders' contact details",
+		dataCluster: "CUSTOMER_CONTACT", response: { json: accountContactSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.ACCOUNT_NOT_FOUND, FDX_ERRORS.RESOURCE_NOT_FOUND ]
+	},
+	{
+		method: "get", path: "/accounts/:accountId/statements", operationId: "searchForAccountStatements", tag: "Statements",
+		summary: "List the account's statements",
+		dataCluster: "STATEMENTS", query: dateRangePaginationSchema, response: { json: statementsResponseSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.INVALID_START_OR_END_DATE, FDX_ERRORS.INVALID_DATE_RANGE, FDX_ERRORS.ACCOUNT_NOT_FOUND ]
+	},
+	{
+		method: "get", path: "/accounts/:accountId/statements/:statementId", operationId: "getAccountStatement", tag: "Statements",
+		summary: "Get a statement as a PDF",
+		dataCluster: "STATEMENTS", response: { pdf: true },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.ACCOUNT_NOT_FOUND, FDX_ERRORS.STATEMENT_NOT_FOUND ]
+	},
+	{
+		method: "get", path: "/accounts/:accountId/transactions", operationId: "searchForAccountTransactions", tag: "Transactions",
+		summary: "List the account's transactions",
+		dataCluster: "TRANSACTIONS", query: transactionsQuerySchema, response: { json: transactionsResponseSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.INVALID_START_OR_END_DATE, FDX_ERRORS.INVALID_DATE_RANGE, FDX_ERRORS.ACCOUNT_NOT_FOUND ]
+	},
+	{
+		method: "get", path: "/accounts/:accountId/holdings", operationId: "searchForAccountHoldings", tag: "Accounts",
+		summary: "List the holdings of an investment account",
+		dataCluster: "INVESTMENTS", query: paginationSchema, response: { json: holdingsResponseSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.ACCOUNT_NOT_FOUND, FDX_ERRORS.ACCOUNT_TYPE_NOT_SUPPORTED ]
+	},
+	{
+		method: "get", path: "/accounts/:accountId/payment-networks", operationId: "getAccountPaymentNetworks", tag: "Money Movement",
+		summary: "List the payment networks the account supports",
+		dataCluster: "PAYMENT_SUPPORT", query: paginationSchema, response: { json: paymentNetworksResponseSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.ACCOUNT_NOT_FOUND ]
+	},
+	{
+		method: "get", path: "/accounts/:accountId/asset-transfer-networks", operationId: "getAssetTransferNetworks", tag: "Money Movement",
+		summary: "List the asset transfer networks the account supports",
+		dataCluster: "PAYMENT_SUPPORT", query: paginationSchema, response: { json: assetTransferNetworksResponseSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.ACCOUNT_NOT_FOUND ]
+	},
+	{
+		method: "get", path: "/tax-forms", operationId: "searchTaxForms", tag: "Tax",
+		summary: "List the tax forms of the consented accounts",
+		dataCluster: "TAX", query: taxFormsQuerySchema, response: { json: taxFormsResponseSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT ]
+	},
+	{
+		method: "get", path: "/tax-forms/:taxFormId", operationId: "getTaxForm", tag: "Tax",
+		summary: "Get a tax form as JSON, or as a PDF with Accept: application/pdf",
+		dataCluster: "TAX", response: { json: taxFormSchema, pdf: true },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.NOT_ACCEPTABLE, FDX_ERRORS.TAX_FORM_NOT_FOUND ]
+	},
+	{
+		method: "post", path: "/notification-subscriptions", operationId: "subscribeToNotifications", tag: "Notifications",
+		summary: "Subscribe a callback URL to notifications about the consented accounts",
+		dataCluster: "ACCOUNT_BASIC", body: notificationSubscriptionRequestSchema, response: { status: 201, json: notificationSubscriptionSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT ]
+	},
+	{
+		method: "get", path: "/notification-subscriptions/:subscriptionId", operationId: "getNotificationSubscription", tag: "Notifications",
+		summary: "Get a notification subscription",
+		dataCluster: "ACCOUNT_BASIC", response: { json: notificationSubscriptionSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.RESOURCE_NOT_FOUND ]
+	},
+	{
+		method: "delete", path: "/notification-subscriptions/:subscriptionId", operationId: "deleteNotificationSubscription", tag: "Notifications",
+		summary: "Delete a notification subscription and its delivery log",
+		dataCluster: "ACCOUNT_BASIC", response: { status: 204 },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.RESOURCE_NOT_FOUND ]
+	},
+	{
+		method: "get", path: "/notification-subscriptions/:subscriptionId/deliveries", operationId: "getNotificationDeliveries", tag: "Notifications",
+		summary: "List the notifications sent to a subscription with every delivery attempt",
+		dataCluster: "ACCOUNT_BASIC", query: paginationSchema, response: { json: notificationDeliveriesResponseSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.RESOURCE_NOT_FOUND ]
+	},
+	{
+		method: "get", path: "/consents/:consentId", operationId: "getConsent", tag: "Consents",
+		summary: "Get a consent given to the client: the parties, the shared accounts and data clusters, and its duration",
+		response: { json: consentSchema },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.RESOURCE_NOT_FOUND, FDX_ERRORS.SUBSYSTEM_UNAVAILABLE ]
+	},
+	{
+		method: "put", path: "/consents/:consentId/revocation", operationId: "revokeConsent", tag: "Consents",
+		summary: "Revoke a consent, invalidating the refresh tokens issued under it",
+		body: consentRevocationRequestSchema, response: { status: 204 },
+		errors: [ FDX_ERRORS.INVALID_INPUT, FDX_ERRORS.RESOURCE_NOT_FOUND, FDX_ERRORS.SUBSYSTEM_UNAVAILABLE ]
+	}
+];
+
+const SCOPE_DESCRIPTIONS = Object.fromEntries( API_SCOPES.map( ( scope ) => [
+	scope,
+	`${ API_SCOPE_DEFINITIONS[scope].description } (${ API_SCOPE_DEFINITIONS[scope].dataClusters.join( ", " ) })`
+] ) );
+
+const PATH_PARAMETERS: Record<string, { schema: z.ZodType; description: string }> = {
+	accountId: { schema: accountIdSchema, description: "Account ID, a UUID or account-{number}" },
+	statementId: { schema: statementIdSchema, description: "Statement ID, a UUID, a number or stmt-{number}" },
+	taxFormId: { schema: taxFormIdSchema, description: "Tax form ID, {taxYear}-{lowercase form type}-{accountId}" },
+	subscriptionId: { schema: subscriptionIdSchema, description: "Notification subscription ID, a UUID" },
+	consentId: { schema: consentIdSchema, description: "Consent ID, from the consent_id claim of access tokens issued under the consent" }
+};
+
+const QUERY_PARAMETER_DESCRIPTIONS: Record<string, string> = {
+	offset: "Index of the first result for the first page",
+	limit: "Maximum number of results per page",
+	pageKey: "Opaque key from a previous response's page.nextPageKey or page.prevPageKey",
+	startTime: "Start of the date range (ISO 8601)",
+	endTime: "End of the date range (ISO 8601)",
+	minAmount: "Minimum transaction amount, inclusive",
+	maxAmount: "Maximum transaction amount, inclusive",
+	debitCreditMemo: "Only transactions with this debitCreditMemo",
+	transactionType: "Comma-separated transaction types, e.g. DEBITCARD,CHECK",
+	status: "Comma-separated transaction statuses, e.g. PENDING,POSTED",
+	search: "Case-insensitive text matched against the payee and description",
+	sort: "Sort order: postedTimestamp or amount, prefixed with - for descending. Defaults to postedTimestamp",
+	taxYear: "Tax year, e.g. 2025",
+	taxForms: "Comma-separated tax form types: Tax1099Int, Tax1099Div, Tax1099B"
+};
+
+const RESPONSE_DESCRIPTIONS: Record<number, string> = {
+	200: "OK",
+	201: "Created",
+	204: "No Content"
+};
+
+// Errors every operation can return: authentication, scope and server failures
+const COMMON_ERRORS = [ FDX_ERRORS.NOT_AUTHENTICATED, FDX_ERRORS.CUSTOMER_NOT_AUTHORIZED, FDX_ERRORS.INTERNAL_SERVER_ERROR ];
+
+/**
+ * Convert a request schema to JSON Schema, describing what clients send rather than the parsed result
+ */
+function toRequestJsonSchema( schema: z.ZodType ): JsonSchema {
+	const jsonSchema = z.toJSONSchema( schema, { io: "input", unrepresentable: "any" } ) as JsonSchema;
+	delete jsonSchema.$schema;
+	return jsonSchema;
+}
+
+/**
+ * Express path to OpenAPI path template, e.g. /accounts/:accountId -> /accounts/{accountId}
+ */
+function toOpenApiPath( path: string ): string {
+	return path.replace( /:([A-Za-z]+)/g, "{$1}" );
+}
+
+function buildParameters( operation: OperationDefinition ): JsonSchema[] {
+	const pathParameters = [ ...operation.path.matchAll( /:([A-Za-z]+)/g ) ].map( ( [ , name ] ) => ( {
+		name,
+		in: "path",
+		required: true,
+		description: PATH_PARAMETERS[name].description,
+		schema: toRequestJsonSchema( PATH_PARAMETERS[name].schema )
+	} ) );
+
+	const queryParameters = [];
+	if ( operation.query ) {
+		const querySchema = toRequestJsonSchema( operation.query ) as { properties: Record<string, JsonSchema>; required?: string[] };
+		for ( const [ name, schema ] of Object.entries( querySchema.properties ) ) {
+			queryParameters.push( {
+				name,
+				in: "query",
+				required: querySchema.required?.includes( name ) ?? false,
+				...( QUERY_PARAMETER_DESCRIPTIONS[name] && { description: QUERY_PARAMETER_DESCRIPTIONS[name] } ),
+				schema
+			} );
+		}
+	}
+
+	return [ ...pathParameters, ...queryParameters ];
+}
+
+function buildResponses( operation: OperationDefinition ): JsonSchema {
+	const content: JsonSchema = {};
+	if ( operation.response.json ) {
+		content["application/json"] = { schema: { $ref: `#/components/schemas/${ fdxSchemas.get( operation.response.json )?.id }` } };
+	}
+	if ( operation.response.pdf ) {
+		content["application/pdf"] = { schema: { type: "string", contentMediaType: "application/pdf" } };
+	}
+	const status = operation.response.status ?? 200;
+	const responses: JsonSchema = {
+		[status]: { description: RESPONSE_DESCRIPTIONS[status], ...( Object.keys( content ).length > 0 && { content } ) }
+	};
+
+	// One response per HTTP status, listing the FDX error codes that share it
+	const errorsByStatus = new Map<number, FdxErrorDefinition[]>();
+	for ( const error of [ ...operation.errors, ...COMMON_ERRORS ] ) {
+		errorsByStatus.set( error.status, [ ...( errorsByStatus.get( error.status ) ?? [] ), error ] );
+	}
+	for ( const [ status, errors ] of [ ...errorsByStatus ].sort( ( [ a ], [ b ] ) => a - b ) ) {
+		responses[status] = {
+			description: errors.map( ( error ) => `${ error.code }: ${ error.message }` ).join( "; " ),
+			content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } }
+		};
+	}
+	return responses;
+}
+
+/**
+ * Component schemas for every registered FDX entity
+ */
+function buildComponentSchemas(): Record<string, JsonSchema> {
+	const { schemas } = z.toJSONSchema( fdxSchemas, { uri: ( id ) => `#/components/schemas/${ id }` } );
+	// Components are embedded in the document, so they don't carry their own $schema and $id
+	for ( const schema of Object.values( schemas ) as JsonSchema[] ) {
+		delete schema.$schema;
+		delete schema.$id;
+	}
+	return schemas as Record<string, JsonSchema>;
+}
+
+export interface OpenApiOptions {
+	serverUrl: string;  // Public URL of the API, without the FDX base path
+	issuer: string;  // Authorization server issuing the access tokens
+}
+
+/**
+ * Build the OpenAPI document
+ */
+export function buildOpenApiDocument( options: OpenApiOptions ): JsonSchema {
+	const paths: Record<string, JsonSchema> = {};
+	for ( const operation of API_OPERATIONS ) {
+		const path = toOpenApiPath( operation.path );
+		paths[path] = {
+			...paths[path],
+			[operation.method]: {
+				operationId: operation.operationId,
+				summary: operation.summary,
+				...( operation.dataCluster && { description: `Requires the ${ operation.dataCluster } data cluster.` } ),
+				tags: [ operation.tag ],
+				// Security requirements are alternatives, so each scope granting the data cluster is listed on its own
+				security: operation.dataCluster
+					? getScopesGranting( operation.dataCluster ).map( ( scope ) => ( { oauth2: [ scope ] } ) )
+					: [ { oauth2: [] } ],
+				parameters: buildParameters( operation ),
+				...( operation.body && {
+					requestBody: { required: true, content: { "application/json": { schema: toRequestJsonSchema( operation.body ) } } }
+				} ),
+				responses: buildResponses( operation )
+			}
+		};
+	}
+
+	return {
+		openapi: "3.1.0",
+		info: {
+			title: "Core Exchange FDX API",
+			version: "6.0.0",
+			description: "Sample FDX v6 resource server. Errors use the FDX Error model; list endpoints page with opaque page keys."
+		},
+		servers: [ { url: `${ options.serverUrl }${ FDX_BASE_PATH }` } ],
+		paths,
+		components: {
+			schemas: buildComponentSchemas(),
+			securitySchemes: {
+				oauth2: {
+					type: "oauth2",
+					flows: {
+						authorizationCode: {
+							authorizationUrl: `${ options.issuer }/auth`,
+							tokenUrl: `${ options.issuer }/token`,
+							refreshUrl: `${ options.issuer }/token`,
+							scopes: SCOPE_DESCRIPTIONS
+						}
+					}
+				}
+			}
+		}
+	};
+}
+
+/**
+ * Find the documented operation for a route, by HTTP method and Express route path
+ */
+export function findOperation( method: string, path: string ): OperationDefinition | undefined {
+	return API_OPERATIONS.find( ( operation ) => operation.method === method.toLowerCase() && operation.path === path );
+}
+
+/**
+ * Compare the routes registered on the routers with the documented operations.
+ * Returns a description of each route missing from the document and each operation without a route.
+ */
+export function findUndocumentedRoutes( routers: Router[] ): string[] {
+	const registered = new Set<string>();
+	for ( const router of routers ) {
+		for ( const layer of router.stack ) {
+			for ( const routeLayer of layer.route?.stack ?? [] ) {
+				registered.add( `${ routeLayer.method.toUpperCase() } ${ layer.route?.path }` );
+			}
+		}
+	}
+	const documented = new Set( API_OPERATIONS.map( ( operation ) => `${ operation.method.toUpperCase() } ${ operation.path }` ) );
+
+	return [
+		...[ ...registered ].filter( ( route ) => !documented.has( route ) ).map( ( route ) => `${ route } is not documented` ),
+		...[ ...documented ].filter( ( route ) => !registered.has( route ) ).map( ( route ) => `${ route } is documented but has no route` )
+	];
+}
@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "assert/strict";
+import { decodePageKey, encodePageKey, queryFingerprint } from "./pagination.js";
+
+const FINGERPRINT = queryFingerprint( "/accounts", { customerId: "customer-1" } );
+
+// Replace the payload of a page key, keeping the signature of the original
+function withPayload( pageKey: string, payload: unknown ): string {
+	const [ , signature ] = pageKey.split( "." );
+	return `${ Buffer.from( JSON.stringify( payload ) ).toString( "base64url" ) }.${ signature }`;
+}
+
+describe( "page keys", () => {
+	it( "decode to the position they were issued for", () => {
+		assert.deepEqual( decodePageKey( encodePageKey( { after: [ "2024-01-31", "tx-1" ], limit: 10 }, FINGERPRINT ), FINGERPRINT ), { after: [ "2024-01-31", "tx-1" ], limit: 10 } );
+		assert.deepEqual( decodePageKey( encodePageKey( { before: [ 12.5, "tx-2" ], limit: 5 }, FINGERPRINT ), FINGERPRINT ), { before: [ 12.5, "tx-2" ], limit: 5 } );
+	} );
+
+	it( "are rejected for another query", () => {
+		const pageKey = encodePageKey( { after: [ "account-1" ], limit: 10 }, FINGERPRINT );
+		assert.equal( decodePageKey( pageKey, queryFingerprint( "/accounts", { customerId: "customer-2" } ) ), null );
+	} );
+
+	it( "are rejected when the payload was altered", () => {
+		const pageKey = encodePageKey( { after: [ "account-1" ], limit: 10 }, FINGERPRINT );
+		assert.equal( decodePageKey( withPayload( pageKey, { a: [ "account-1" ], l: 1000, q: FINGERPRINT } ), FINGERPRINT ), null );
+		assert.equal( decodePageKey( withPayload( pageKey, { a: [ "account-0" ], l: 10, q: FINGERPRINT } ), FINGERPRINT ), null );
+	} );
+
+	it( "are rejected when the signature was altered or is missing", () => {
+		const pageKey = encodePageKey( { after: [ "account-1" ], limit: 10 }, FINGERPRINT );
+		const [ encoded, signature ] = pageKey.split( "." );
+		const flipped = Buffer.from( signature, "base64url" );
+		flipped[0] ^= 1;
+		assert.equal( decodePageKey( `${ encoded }.${ flipped.toString( "base64url" ) }`, FINGERPRINT ), null );
+		assert.equal( decodePageKey( `${ encoded }.${ signature.slice( 1 ) }`, FINGERPRINT ), null );
+		assert.equal( decodePageKey( encoded, FINGERPRINT ), null );
+		assert.equal( decodePageKey( "", FINGERPRINT ), null );
+	} );
+} );
+
+describe( "queryFingerprint", () => {
+	it( "ignores parameter order and empty parameters", () => {
+		assert.equal(
+			queryFingerprint( "/transactions", { accountId: "a", startTime: "2024-01-01", endTime: undefined, search: "" } ),
+			queryFingerprint( "/transactions", { startTime: "2024-01-01", accountId: "a" } )
+		);
+	} );
+
+	it( "differs between endpoints and filters", () => {
+		assert.notEqual( queryFingerprint( "/statements", { accountId: "a" } ), queryFingerprint( "/transactions", { accountId: "a" } ) );
+		assert.notEqual( queryFingerprint( "/transactions", { accountId: "a" } ), queryFingerprint( "/transactions", { accountId: "b" } ) );
+	} );
+} );
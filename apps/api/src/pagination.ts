@@ -0,0 +1,122 @@
+/**
+ * Opaque page keys for list endpoints
+ *
+ * List responses link to neighbouring pages with `page.nextPageKey` and `page.prevPageKey`
+ * instead of raw offsets. A page key records the position of the row the page continues from
+ * (its sort key values and ID, see data/ordering.ts) rather than a row count, so rows inserted
+ * or removed while a client pages through a list don't make it skip or repeat rows. The key
+ * also holds the page size and a fingerprint of the query it was issued for (endpoint,
+ * customer, account and filters), and is signed with HMAC-SHA256 so clients can't alter it
+ * or replay it against another query.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Response } from "express";
+import { getOptionalEnv } from "@apps/shared";
+import { FDX_ERRORS, sendFdxError } from "./errors.js";
+import { getPosition, type ListOrder } from "./data/ordering.js";
+import type { PagePosition, PageRequest, PaginatedResult } from "./data/types.js";
+
+/**
+ * FDX PageMetadata
+ */
+export interface PageMetadata {
+	nextPageKey?: string;
+	prevPageKey?: string;
+	totalElements?: number;
+}
+
+interface PageKeyPayload {
+	a?: PagePosition;  // Page after this position
+	b?: PagePosition;  // Page before this position
+	l: number;
+	q: string;
+}
+
+// Without a configured secret, keys are signed with a per-process secret and stop working after a restart
+const PAGE_KEY_SECRET = getOptionalEnv( "API_PAGE_KEY_SECRET", "" ) || randomBytes( 32 ).toString( "hex" );
+
+function sign( payload: string ): Buffer {
+	return createHmac( "sha256", PAGE_KEY_SECRET ).update( payload ).digest();
+}
+
+/**
+ * Fingerprint a list query so page keys only work for the query they were issued for.
+ * Undefined and empty parameters are left out, so omitting a filter equals leaving it blank.
+ */
+export function queryFingerprint( endpoint: string, params: Record<string, string | number | string[] | undefined> ): string {
+	const normalized = Object.keys( params )
+		.sort()
+		.filter( ( key ) => params[key] !== undefined && params[key] !== "" )
+		.map( ( key ) => [ key, params[key] ] );
+	return createHash( "sha256" ).update( JSON.stringify( [ endpoint, normalized ] ) ).digest( "base64url" ).slice( 0, 22 );
+}
+
+function isPosition( value: unknown ): value is PagePosition {
+	return Array.isArray( value ) && value.length > 0 && value.every( ( item ) => typeof item === "string" || typeof item === "number" );
+}
+
+/**
+ * Create a signed page key for the page after or before a row of a query's results
+ */
+export function encodePageKey( page: PageRequest, fingerprint: string ): string {
+	const payload: PageKeyPayload = { a: page.after, b: page.before, l: page.limit, q: fingerprint };
+	const encoded = Buffer.from( JSON.stringify( payload ) ).toString( "base64url" );
+	return `${ encoded }.${ sign( encoded ).toString( "base64url" ) }`;
+}
+
+/**
+ * Verify a page key and return the position it encodes.
+ * Returns null if the signature doesn't match or the key was issued for a different query.
+ */
+export function decodePageKey( pageKey: string, fingerprint: string ): PageRequest | null {
+	const [ encoded, signature ] = pageKey.split( "." );
+	if ( !encoded || !signature ) return null;
+
+	const expected = sign( encoded );
+	const actual = Buffer.from( signature, "base64url" );
+	if ( actual.length !== expected.length || !timingSafeEqual( actual, expected ) ) return null;
+
+	try {
+		const payload = JSON.parse( Buffer.from( encoded, "base64url" ).toString( "utf8" ) ) as PageKeyPayload;
+		if ( payload.q !== fingerprint || !Number.isInteger( payload.l ) ) return null;
+		if ( isPosition( payload.a ) === isPosition( payload.b ) ) return null;  // Exactly one of them
+		return isPosition( payload.a )
+			? { after: payload.a, limit: payload.l }
+			: { before: payload.b, limit: payload.l };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Resolve the page to return from the validated pagination query parameters.
+ * A page key takes precedence over offset and limit. If the page key is invalid this sends
+ * the FDX error response and returns null.
+ */
+export function resolvePage( res: Response, params: { offset: number; limit: number; pageKey?: string }, fingerprint: string ): PageRequest | null {
+	if ( !params.pageKey ) {
+		return { offset: params.offset, limit: params.limit };
+	}
+	const page = decodePageKey( params.pageKey, fingerprint );
+	if ( !page ) {
+		sendFdxError( res, FDX_ERRORS.INVALID_INPUT, "pageKey: Page key is invalid or was issued for a different query" );
+		return null;
+	}
+	return page;
+}
+
+/**
+ * Build the page metadata for a list response, linking to the next and previous pages when they exist.
+ * The links continue from the last and first rows of the page, in the order the store returned them in.
+ */
+export function createPageMetadata<T>( page: PageRequest, rows: T[], result: PaginatedResult, order: ListOrder<T>, fingerprint: string ): PageMetadata {
+	const { limit } = page;
+	const first = rows[0];
+	const last = rows[rows.length - 1];
+	return {
+		...( last && result.offset + rows.length < result.total && { nextPageKey: encodePageKey( { after: getPosition( order, last ), limit }, fingerprint ) } ),
+		...( first && result.offset > 0 && { prevPageKey: encodePageKey( { before: getPosition( order, first ), limit }, fingerprint ) } ),
+		totalElements: result.total
+	};
+}
@@ -1,9 +1,19 @@
 import express, { Request, Response } from "express";
-import { getAccounts, getAccountById, getAccountContactById, getAccountStatements, getAccountStatementById, getAccountTransactions, getPaymentNetworks, getAssetTransferNetworks } from "../data/accountsRepository.js";
+import type { z } from "zod";
+import { getAccounts, getAccountById, getAccountContactById, getAccountStatements, getAccountStatementById, getAccountTransactions, getAccountHoldings, getPaymentNetworks, getAssetTransferNetworks } from "../data/accountsRepository.js";
+import type { Account, TransactionFilters } from "../data/types.js";
+import { getStatementPdf } from "../documents/statements.js";
 import pino from "pino";
+import { requireDataCluster, getGrantedDataClusters } from "../middleware/scopes.js";
+import { getCustomerId } from "../middleware/customer.js";
+import { getConsentedAccountIds, isAccountConsented } from "../middleware/consent.js";
+import { FDX_ERRORS, sendFdxError, type FdxErrorDefinition } from "../errors.js";
+import { queryFingerprint, resolvePage, createPageMetadata } from "../pagination.js";
+import { accountOrder, statementOrder, transactionOrder, holdingOrder, paymentNetworkOrder, assetTransferNetworkOrder } from "../data/ordering.js";
 import {
 	paginationSchema,
 	dateRangePaginationSchema,
+	transactionsQuerySchema,
 	accountIdSchema,
 	statementIdSchema,
 	sanitizeForLogging,
@@ -11,6 +21,7 @@ import {
 	type PaginationParams,
 	type DateRangePaginationParams
 } from "@apps/shared/validation";
+import type { DataCluster } from "@apps/shared/dataClusters";
 
 const logger = pino( {
 	transport: {
@@ -23,27 +34,84 @@ const logger = pino( {
 
 const router = express.Router();
 
+// Only investment accounts hold securities
+const INVESTMENT_ACCOUNT = "INVESTMENT_ACCOUNT";
+
+// The data cluster each field of the account entity belongs to. Every field needs one, so a field added
+// to Account doesn't compile until it's given a cluster rather than quietly going missing from responses.
+const ACCOUNT_FIELD_CLUSTERS: Record<keyof Account, DataCluster> = {
+	accountCategory: "ACCOUNT_BASIC",
+	accountId: "ACCOUNT_BASIC",
+	accountNumberDisplay: "ACCOUNT_BASIC",
+	nickname: "ACCOUNT_BASIC",
+	productName: "ACCOUNT_BASIC",
+	status: "ACCOUNT_BASIC",
+	currency: "ACCOUNT_BASIC",
+	accountType: "ACCOUNT_BASIC",
+	currentBalance: "ACCOUNT_DETAILED",
+	availableBalance: "ACCOUNT_DETAILED",
+	availableCredit: "ACCOUNT_DETAILED",
+	creditLine: "ACCOUNT_DETAILED",
+	accountNumber: "PAYMENT_SUPPORT",
+	principalBalance: "ACCOUNT_DETAILED",
+	originalPrincipal: "ACCOUNT_DETAILED",
+	interestRate: "ACCOUNT_DETAILED",
+	interestRateType: "ACCOUNT_DETAILED",
+	loanTerm: "ACCOUNT_DETAILED",
+	balanceAsOf: "ACCOUNT_DETAILED",
+	currentValue: "ACCOUNT_DETAILED",
+	availableCashBalance: "ACCOUNT_DETAILED",
+	margin: "ACCOUNT_DETAILED",
+	marginBalance: "ACCOUNT_DETAILED",
+	shortBalance: "ACCOUNT_DETAILED",
+	allowedCheckWriting: "ACCOUNT_DETAILED",
+	holdings: "INVESTMENTS"
+};
+
+/**
+ * Keep only the account fields included in the data clusters granted to the access token,
+ * so e.g. a token with just ACCOUNT_BASIC gets no balances
+ */
+function withGrantedFields( req: Request, account: Account ): Partial<Account> {
+	const clusters = getGrantedDataClusters( req );
+	const granted: Partial<Account> = {};
+	const copy = <K extends keyof Account>( field: K ) => {
+		if ( account[field] !== undefined ) granted[field] = account[field];
+	};
+	for ( const field of Object.keys( ACCOUNT_FIELD_CLUSTERS ) as ( keyof Account )[] ) {
+		if ( clusters.has( ACCOUNT_FIELD_CLUSTERS[field] ) ) copy( field );
+	}
+	return granted;
+}
+
 /**
  * Validate and parse pagination query parameters.
- * Returns validated params with bounds checking applied.
+ * Out of range offsets and limits are clamped; only a malformed page key fails validation.
  */
-function validatePagination( query: Record<string, unknown> ): PaginationParams {
+function validatePagination( query: Record<string, unknown> ): { success: true; data: PaginationParams } | { success: false; error: string } {
 	const result = paginationSchema.safeParse( query );
 	if ( !result.success ) {
-		// Return defaults if validation fails
-		return { offset: 0, limit: 100 };
+		return { success: false, error: formatZodError( result.error ) };
 	}
-	return result.data;
+	return { success: true, data: result.data };
 }
 
 /**
- * Validate and parse date range with pagination query parameters.
- * Returns null with error details if validation fails.
+ * Validate and parse date range with pagination query parameters, or a query schema that extends them.
+ * Returns the FDX error to report with error details if validation fails: 702 for an
+ * invalid startTime or endTime, 703 for an inverted range and invalid input otherwise.
  */
-function validateDateRangePagination( query: Record<string, unknown> ): { success: true; data: DateRangePaginationParams } | { success: false; error: string } {
-	const result = dateRangePaginationSchema.safeParse( query );
+function validateDateRangePagination<T extends DateRangePaginationParams>( query: Record<string, unknown>, schema: z.ZodType<T> ): { success: true; data: T } | { success: false; fdxError: FdxErrorDefinition; error: string } {
+	const result = schema.safeParse( query );
 	if ( !result.success ) {
-		return { success: false, error: formatZodError( result.error ) };
+		const { issues } = result.error;
+		let fdxError: FdxErrorDefinition = FDX_ERRORS.INVALID_INPUT;
+		if ( issues.some( ( issue ) => issue.path[0] === "startTime" || issue.path[0] === "endTime" ) ) {
+			fdxError = FDX_ERRORS.INVALID_START_OR_END_DATE;
+		} else if ( issues.some( ( issue ) => issue.path.length === 0 ) ) {
+			fdxError = FDX_ERRORS.INVALID_DATE_RANGE;
+		}
+		return { success: false, fdxError, error: formatZodError( result.error ) };
 	}
 	return { success: true, data: result.data };
 }
@@ -72,121 +140,145 @@ function validateStatementId( statementId: string ): { success: true; data: stri
 	return { success: true, data: result.data };
 }
 
-// Shared helper to validate account existence and send appropriate HTTP responses
-// Returns the account object if found; otherwise handles the response and returns null
-async function verifyAccount( accountId: string, res: Response, notFoundCode = 701 ) {
+// Shared helper to validate account existence, ownership and consent and send FDX error responses
+// Accounts the user did not consent to share are reported as not found, same as accounts they don't hold
+// Returns the account object if found for the customer; otherwise handles the response and returns null
+async function verifyAccount( req: Request, accountId: string, res: Response ) {
 	try {
-		const account = await getAccountById( accountId );
+		const account = isAccountConsented( req, accountId )
+			? await getAccountById( getCustomerId( req ), accountId )
+			: null;
 		if ( !account ) {
-			res.status( 404 ).json( { code: notFoundCode, error: "An account with the provided account ID could not be found" } );
+			sendFdxError( res, FDX_ERRORS.ACCOUNT_NOT_FOUND, "An account with the provided account ID could not be found" );
 			return null;
 		}
 		return account;
 	} catch ( error ) {
 		logger.error( error, "Error validating account" );
-		res.status( 500 ).json( { error: "Internal server error" } );
+		sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
 		return null;
 	}
 }
 
 // GET /accounts with pagination support
-router.get( "/accounts", async ( req: Request, res: Response ) => {
-	// Validate and extract pagination parameters with bounds checking
-	const { offset, limit } = validatePagination( req.query );
+router.get( "/accounts", requireDataCluster( "ACCOUNT_BASIC" ), async ( req: Request, res: Response ) => {
+	// Validate pagination parameters with bounds checking
+	const paginationResult = validatePagination( req.query );
+	if ( !paginationResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, paginationResult.error );
+	}
+	const customerId = getCustomerId( req );
+	const accountIds = getConsentedAccountIds( req );
+	const fingerprint = queryFingerprint( "accounts", { customerId, accountIds } );
+	const pageRequest = resolvePage( res, paginationResult.data, fingerprint );
+	if ( !pageRequest ) return;
 
 	try {
 		// Get accounts using the repository
-		const result = await getAccounts( offset, limit );
+		const result = await getAccounts( customerId, pageRequest, accountIds );
 
 		// Calculate pagination metadata
-		const hasMore = offset + limit < result.total;
-		const page = hasMore ? { nextOffset: String( offset + limit ) } : {};
+		const page = createPageMetadata( pageRequest, result.accounts, result, accountOrder, fingerprint );
 
 		// Construct response
 		const response = {
 			page,
-			accounts: result.accounts
+			accounts: result.accounts.map( ( account ) => withGrantedFields( req, account ) )
 		};
 
 		res.json( response );
 	} catch ( error ) {
 		logger.error( error, "Error retrieving accounts" );
-		res.status( 500 ).json( { error: "Internal server error" } );
+		sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
 	}
 } );
 
-router.get( "/accounts/:accountId", async ( req: Request<{ accountId: string }>, res: Response ) => {
+router.get( "/accounts/:accountId", requireDataCluster( "ACCOUNT_BASIC" ), async ( req: Request<{ accountId: string }>, res: Response ) => {
 	// Validate accountId path parameter
 	const accountIdResult = validateAccountId( req.params.accountId );
 	if ( !accountIdResult.success ) {
-		return res.status( 400 ).json( { error: "Validation failed", details: accountIdResult.error } );
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, accountIdResult.error );
 	}
 	const accountId = accountIdResult.data;
+	const customerId = getCustomerId( req );
 
 	try {
-		const account = await getAccountById( accountId );
+		const account = isAccountConsented( req, accountId )
+			? await getAccountById( customerId, accountId )
+			: null;
 
 		if ( !account ) {
-			return res.status( 404 ).json( { code: 701, error: "An account with the provided account ID could not be found" } );
+			return sendFdxError( res, FDX_ERRORS.ACCOUNT_NOT_FOUND, "An account with the provided account ID could not be found" );
+		}
+
+		// FDX InvestmentAccount embeds its positions in the account detail
+		if ( account.accountCategory === INVESTMENT_ACCOUNT && getGrantedDataClusters( req ).has( "INVESTMENTS" ) ) {
+			const { holdings } = await getAccountHoldings( customerId, accountId, { limit: Number.MAX_SAFE_INTEGER } );
+			return res.json( withGrantedFields( req, { ...account, holdings } ) );
 		}
 
-		res.json( account );
+		res.json( withGrantedFields( req, account ) );
 	} catch {
 		logger.error( { accountId: sanitizeForLogging( accountId ) }, "Error retrieving account" );
-		res.status( 500 ).json( { error: "Internal server error" } );
+		sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
 	}
 } );
 
-router.get( "/accounts/:accountId/contact", async ( req: Request<{ accountId: string }>, res: Response ) => {
+router.get( "/accounts/:accountId/contact", requireDataCluster( "CUSTOMER_CONTACT" ), async ( req: Request<{ accountId: string }>, res: Response ) => {
 	// Validate accountId path parameter
 	const accountIdResult = validateAccountId( req.params.accountId );
 	if ( !accountIdResult.success ) {
-		return res.status( 400 ).json( { error: "Validation failed", details: accountIdResult.error } );
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, accountIdResult.error );
 	}
 	const accountId = accountIdResult.data;
+	const customerId = getCustomerId( req );
 
-	const account = await verifyAccount( accountId, res, 701 );
+	const account = await verifyAccount( req, accountId, res );
 	if ( !account ) return;
 
 	try {
-		const contact = await getAccountContactById( accountId );
+		const contact = await getAccountContactById( customerId, accountId );
 
 		if ( !contact ) {
-			return res.status( 404 ).json( { code: 601, error: "An account with the provided account ID could not be found" } );
+			return sendFdxError( res, FDX_ERRORS.RESOURCE_NOT_FOUND, "No contact information is available for the provided account ID" );
 		}
 
 		res.json( contact );
 	} catch {
 		logger.error( { accountId: sanitizeForLogging( accountId ) }, "Error retrieving account contact" );
-		res.status( 500 ).json( { error: "Internal server error" } );
+		sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
 	}
 } );
 
 // GET /accounts/:accountId/statements with pagination support
-router.get( "/accounts/:accountId/statements", async ( req: Request<{ accountId: string }>, res: Response ) => {
+router.get( "/accounts/:accountId/statements", requireDataCluster( "STATEMENTS" ), async ( req: Request<{ accountId: string }>, res: Response ) => {
 	// Validate accountId path parameter
 	const accountIdResult = validateAccountId( req.params.accountId );
 	if ( !accountIdResult.success ) {
-		return res.status( 400 ).json( { error: "Validation failed", details: accountIdResult.error } );
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, accountIdResult.error );
 	}
 	const accountId = accountIdResult.data;
+	const customerId = getCustomerId( req );
 
 	// Validate query parameters including date range and pagination
-	const queryResult = validateDateRangePagination( req.query );
+	const queryResult = validateDateRangePagination( req.query, dateRangePaginationSchema );
 	if ( !queryResult.success ) {
-		return res.status( 400 ).json( { error: "Validation failed", details: queryResult.error } );
+		return sendFdxError( res, queryResult.fdxError, queryResult.error );
 	}
-	const { offset, limit, startTime, endTime } = queryResult.data;
+	const { startTime, endTime } = queryResult.data;
 
-	const account = await verifyAccount( accountId, res, 701 );
+	const account = await verifyAccount( req, accountId, res );
 	if ( !account ) return;
 
+	const fingerprint = queryFingerprint( "statements", { customerId, accountId, startTime, endTime } );
+	const pageRequest = resolvePage( res, queryResult.data, fingerprint );
+	if ( !pageRequest ) return;
+
 	try {
-		const result = await getAccountStatements( accountId, offset, limit, startTime || "", endTime || "" );
+		const result = await getAccountStatements( customerId, accountId, pageRequest, startTime || "", endTime || "" );
 
 		// Calculate pagination metadata
-		const hasMore = offset + limit < result.total;
-		const page = hasMore ? { nextOffset: String( offset + limit ) } : {};
+		const page = createPageMetadata( pageRequest, result.statements, result, statementOrder, fingerprint );
 
 		// Construct response
 		const response = {
@@ -197,38 +289,40 @@ router.get( "/accounts/:accountId/statements", async ( req: Request<{ accountId:
 		res.json( response );
 	} catch {
 		logger.error( { accountId: sanitizeForLogging( accountId ) }, "Error retrieving statements" );
-		res.status( 500 ).json( { error: "Internal server error" } );
+		sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
 	}
 } );
 
-// GET /accounts/:accountId/statements/:statementId - simulate returning a PDF
-router.get( "/accounts/:accountId/statements/:statementId", async ( req: Request<{ accountId: string; statementId: string }>, res: Response ) => {
+// GET /accounts/:accountId/statements/:statementId - statement PDF for the statement period
+router.get( "/accounts/:accountId/statements/:statementId", requireDataCluster( "STATEMENTS" ), async ( req: Request<{ accountId: string; statementId: string }>, res: Response ) => {
 	// Validate accountId path parameter
 	const accountIdResult = validateAccountId( req.params.accountId );
 	if ( !accountIdResult.success ) {
-		return res.status( 400 ).json( { error: "Validation failed", details: accountIdResult.error } );
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, accountIdResult.error );
 	}
 	const accountId = accountIdResult.data;
+	const customerId = getCustomerId( req );
 
 	// Validate statementId path parameter
 	const statementIdResult = validateStatementId( req.params.statementId );
 	if ( !statementIdResult.success ) {
-		return res.status( 400 ).json( { error: "Validation failed", details: statementIdResult.error } );
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, statementIdResult.error );
 	}
 	const statementId = statementIdResult.data;
 
 	try {
-		const account = await verifyAccount( accountId, res, 701 );
+		const account = await verifyAccount( req, accountId, res );
 		if ( !account ) return;
 
-		const statement = await getAccountStatementById( accountId, statementId );
+		const statement = await getAccountStatementById( customerId, accountId, statementId );
 		if ( !statement ) {
-			return res.status( 404 ).json( { code: 601, error: "Statement not found for the provided accountId/statementId" } );
+			return sendFdxError( res, FDX_ERRORS.STATEMENT_NOT_FOUND, "Statement not found for the provided accountId/statementId" );
 		}
 
-		// Minimal valid PDF bytes: %PDF-1.4 ... %%EOF
-		const pdfContent = "%PDF-1.4\n1 0 obj<<>>endobj\ntrailer<<>>\n%%EOF\n";
-		const buffer = Buffer.from( pdfContent, "utf8" );
+		const buffer = await getStatementPdf( customerId, account, statementId );
+		if ( !buffer ) {
+			return sendFdxError( res, FDX_ERRORS.STATEMENT_NOT_FOUND, "Statement not found for the provided accountId/statementId" );
+		}
 
 		res.setHeader( "Content-Type", "application/pdf" );
 		res.setHeader( "Content-Disposition", `inline; filename=statement-${ statementId }.pdf` );
@@ -236,65 +330,139 @@ router.get( "/accounts/:accountId/statements/:statementId", async ( req: Request
 		return res.status( 200 ).send( buffer );
 	} catch {
 		logger.error( { accountId: sanitizeForLogging( accountId ), statementId: sanitizeForLogging( statementId ) }, "Error retrieving statement PDF" );
-		return res.status( 500 ).json( { error: "Internal server error" } );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
 	}
 } );
 
-// GET /accounts/:accountId/transactions with pagination support
-router.get( "/accounts/:accountId/transactions", async ( req: Request<{ accountId: string }>, res: Response ) => {
+// GET /accounts/:accountId/transactions with filtering, sorting and pagination support
+router.get( "/accounts/:accountId/transactions", requireDataCluster( "TRANSACTIONS" ), async ( req: Request<{ accountId: string }>, res: Response ) => {
 	// Validate accountId path parameter
 	const accountIdResult = validateAccountId( req.params.accountId );
 	if ( !accountIdResult.success ) {
-		return res.status( 400 ).json( { error: "Validation failed", details: accountIdResult.error } );
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, accountIdResult.error );
 	}
 	const accountId = accountIdResult.data;
+	const customerId = getCustomerId( req );
 
-	// Validate query parameters including date range and pagination
-	const queryResult = validateDateRangePagination( req.query );
+	// Validate query parameters including date range, filters, sort order and pagination
+	const queryResult = validateDateRangePagination( req.query, transactionsQuerySchema );
 	if ( !queryResult.success ) {
-		return res.status( 400 ).json( { error: "Validation failed", details: queryResult.error } );
+		return sendFdxError( res, queryResult.fdxError, queryResult.error );
 	}
-	const { offset, limit, startTime, endTime } = queryResult.data;
-
-	const account = await verifyAccount( accountId, res, 701 );
+	const { startTime, endTime, minAmount, maxAmount, debitCreditMemo, transactionType, status, search, sort } = queryResult.data;
+	const filters: TransactionFilters = {
+		startTime,
+		endTime,
+		minAmount,
+		maxAmount,
+		debitCreditMemo,
+		transactionTypes: transactionType,
+		statuses: status,
+		search,
+		sort
+	};
+
+	const account = await verifyAccount( req, accountId, res );
 	if ( !account ) return;
 
+	const fingerprint = queryFingerprint( "transactions", {
+		customerId,
+		accountId,
+		startTime,
+		endTime,
+		minAmount,
+		maxAmount,
+		debitCreditMemo,
+		transactionType,
+		status,
+		search,
+		sort
+	} );
+	const pageRequest = resolvePage( res, queryResult.data, fingerprint );
+	if ( !pageRequest ) return;
+
 	try {
-		const result = await getAccountTransactions( accountId, offset, limit, startTime || "", endTime || "" );
-		const hasMore = offset + limit < result.total;
-		const page = hasMore ? { nextOffset: String( offset + limit ) } : {};
+		const result = await getAccountTransactions( customerId, accountId, pageRequest, filters );
+		const page = createPageMetadata( pageRequest, result.transactions, result, transactionOrder( sort ), fingerprint );
 		return res.json( {
 			page,
 			transactions: result.transactions
 		} );
 	} catch {
 		logger.error( { accountId: sanitizeForLogging( accountId ) }, "Error retrieving transactions" );
-		return res.status( 500 ).json( { error: "Internal server error" } );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
+	}
+} );
+
+// GET /accounts/:accountId/holdings with pagination support - investment accounts only
+router.get( "/accounts/:accountId/holdings", requireDataCluster( "INVESTMENTS" ), async ( req: Request<{ accountId: string }>, res: Response ) => {
+	// Validate accountId path parameter
+	const accountIdResult = validateAccountId( req.params.accountId );
+	if ( !accountIdResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, accountIdResult.error );
+	}
+	const accountId = accountIdResult.data;
+	const customerId = getCustomerId( req );
+
+	// Validate pagination parameters with bounds checking
+	const paginationResult = validatePagination( req.query );
+	if ( !paginationResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, paginationResult.error );
+	}
+
+	const account = await verifyAccount( req, accountId, res );
+	if ( !account ) return;
+
+	if ( account.accountCategory !== INVESTMENT_ACCOUNT ) {
+		return sendFdxError( res, FDX_ERRORS.ACCOUNT_TYPE_NOT_SUPPORTED, "Holdings are only available for investment accounts" );
+	}
+
+	const fingerprint = queryFingerprint( "holdings", { customerId, accountId } );
+	const pageRequest = resolvePage( res, paginationResult.data, fingerprint );
+	if ( !pageRequest ) return;
+
+	try {
+		const result = await getAccountHoldings( customerId, accountId, pageRequest );
+		const page = createPageMetadata( pageRequest, result.holdings, result, holdingOrder, fingerprint );
+		return res.json( {
+			page,
+			holdings: result.holdings
+		} );
+	} catch {
+		logger.error( { accountId: sanitizeForLogging( accountId ) }, "Error retrieving holdings" );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
 	}
 } );
 
 // GET /accounts/:accountId/payment-networks with pagination support
-router.get( "/accounts/:accountId/payment-networks", async ( req: Request<{ accountId: string }>, res: Response ) => {
+router.get( "/accounts/:accountId/payment-networks", requireDataCluster( "PAYMENT_SUPPORT" ), async ( req: Request<{ accountId: string }>, res: Response ) => {
 	// Validate accountId path parameter
 	const accountIdResult = validateAccountId( req.params.accountId );
 	if ( !accountIdResult.success ) {
-		return res.status( 400 ).json( { error: "Validation failed", details: accountIdResult.error } );
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, accountIdResult.error );
 	}
 	const accountId = accountIdResult.data;
+	const customerId = getCustomerId( req );
 
 	// Validate pagination parameters with bounds checking
-	const { offset, limit } = validatePagination( req.query );
+	const paginationResult = validatePagination( req.query );
+	if ( !paginationResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, paginationResult.error );
+	}
 
-	const account = await verifyAccount( accountId, res, 701 );
+	const account = await verifyAccount( req, accountId, res );
 	if ( !account ) return;
 
+	const fingerprint = queryFingerprint( "payment-networks", { customerId, accountId } );
+	const pageRequest = resolvePage( res, paginationResult.data, fingerprint );
+	if ( !pageRequest ) return;
+
 	try {
 		// Get accounts using the repository
-		const result = await getPaymentNetworks( accountId, offset, limit );
+		const result = await getPaymentNetworks( customerId, accountId, pageRequest );
 
 		// Calculate pagination metadata
-		const hasMore = offset + limit < result.total;
-		const page = hasMore ? { nextOffset: String( offset + limit ) } : {};
+		const page = createPageMetadata( pageRequest, result.paymentNetworks, result, paymentNetworkOrder, fingerprint );
 
 		// Construct response
 		const response = {
@@ -305,36 +473,43 @@ router.get( "/accounts/:accountId/payment-networks", async ( req: Request<{ acco
 		res.json( response );
 	} catch {
 		logger.error( { accountId: sanitizeForLogging( accountId ) }, "Error retrieving payment networks" );
-		res.status( 500 ).json( { error: "Internal server error" } );
+		sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
 	}
 } );
 
 // GET /accounts/:accountId/asset-transfer-networks with pagination support
-router.get( "/accounts/:accountId/asset-transfer-networks", async ( req: Request<{ accountId: string }>, res: Response ) => {
+router.get( "/accounts/:accountId/asset-transfer-networks", requireDataCluster( "PAYMENT_SUPPORT" ), async ( req: Request<{ accountId: string }>, res: Response ) => {
 	// Validate accountId path parameter
 	const accountIdResult = validateAccountId( req.params.accountId );
 	if ( !accountIdResult.success ) {
-		return res.status( 400 ).json( { error: "Validation failed", details: accountIdResult.error } );
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, accountIdResult.error );
 	}
 	const accountId = accountIdResult.data;
+	const customerId = getCustomerId( req );
 
 	// Validate pagination parameters with bounds checking
-	const { offset, limit } = validatePagination( req.query );
+	const paginationResult = validatePagination( req.query );
+	if ( !paginationResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, paginationResult.error );
+	}
 
-	const account = await verifyAccount( accountId, res, 701 );
+	const account = await verifyAccount( req, accountId, res );
 	if ( !account ) return;
 
+	const fingerprint = queryFingerprint( "asset-transfer-networks", { customerId, accountId } );
+	const pageRequest = resolvePage( res, paginationResult.data, fingerprint );
+	if ( !pageRequest ) return;
+
 	try {
-		const result = await getAssetTransferNetworks( accountId, offset, limit );
-		const hasMore = offset + limit < result.total;
-		const page = hasMore ? { nextOffset: String( offset + limit ) } : {};
+		const result = await getAssetTransferNetworks( customerId, accountId, pageRequest );
+		const page = createPageMetadata( pageRequest, result.assetTransferNetworks, result, assetTransferNetworkOrder, fingerprint );
 		return res.json( {
 			page,
 			assetTransferNetworks: result.assetTransferNetworks
 		} );
 	} catch {
 		logger.error( { accountId: sanitizeForLogging( accountId ) }, "Error retrieving asset transfer networks" );
-		return res.status( 500 ).json( { error: "Internal server error" } );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
 	}
 } );
 
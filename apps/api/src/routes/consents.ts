@@ -0,0 +1,151 @@
+import express, { Request, Response } from "express";
+import pino from "pino";
+import { getRecordedConsent, saveConsent } from "../data/consentsRepository.js";
+import type { Consent, StoredConsent } from "../data/types.js";
+import type { AuthenticatedRequest } from "../types.js";
+import { getGrant, revokeGrant, isGrantsApiConfigured, type Grant } from "../consents/grants.js";
+import { toConsent } from "../consents/consents.js";
+import { getCustomerId } from "../middleware/customer.js";
+import { getClientId } from "../middleware/consent.js";
+import { FDX_ERRORS, sendFdxError } from "../errors.js";
+import {
+	consentIdSchema,
+	consentRevocationRequestSchema,
+	sanitizeForLogging,
+	formatZodError
+} from "@apps/shared/validation";
+
+const logger = pino( {
+	transport: {
+		target: "pino-pretty",
+		options: {
+			colorize: true
+		}
+	}
+} );
+
+const router = express.Router();
+
+const CONSENT_NOT_FOUND = "A consent with the provided consent ID could not be found";
+
+/**
+ * The FDX representation of a stored consent, without who it belongs to
+ */
+function toFdxConsent( consent: StoredConsent ): Consent {
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	const { clientId, customerId, ...fdxConsent } = consent;
+	return fdxConsent;
+}
+
+/**
+ * Check whether a grant was given to the client by the user the access token was issued for
+ */
+function isOwnGrant( req: Request, grant: Grant ): boolean {
+	return grant.clientId === getClientId( req ) && grant.accountId === ( req as AuthenticatedRequest ).user?.sub;
+}
+
+// Consents are read from the authorization server, which holds the grants behind them, until they're
+// revoked: from then on the API's own record is all that's left. A client only ever sees the consents
+// it was given, by the customer the access token was issued for; anything else is not found.
+
+// GET /consents/:consentId
+router.get( "/consents/:consentId", async ( req: Request<{ consentId: string }>, res: Response ) => {
+	const consentIdResult = consentIdSchema.safeParse( req.params.consentId );
+	if ( !consentIdResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, formatZodError( consentIdResult.error ) );
+	}
+	const consentId = consentIdResult.data;
+	const customerId = getCustomerId( req );
+
+	try {
+		const recorded = await getRecordedConsent( getClientId( req ), consentId );
+		if ( recorded ) {
+			return recorded.customerId === customerId
+				? res.json( toFdxConsent( recorded ) )
+				: sendFdxError( res, FDX_ERRORS.RESOURCE_NOT_FOUND, CONSENT_NOT_FOUND );
+		}
+	} catch ( error ) {
+		logger.error( { consentId: sanitizeForLogging( consentId ), error }, "Error retrieving consent" );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
+	}
+
+	if ( !isGrantsApiConfigured() ) {
+		return sendFdxError( res, FDX_ERRORS.SUBSYSTEM_UNAVAILABLE, "Consents are unavailable: CONSENT_API_SECRET is not configured" );
+	}
+	let grant: Grant | null;
+	try {
+		grant = await getGrant( consentId );
+	} catch ( error ) {
+		logger.error( { consentId: sanitizeForLogging( consentId ), error }, "Error retrieving grant from the authorization server" );
+		return sendFdxError( res, FDX_ERRORS.SUBSYSTEM_UNAVAILABLE, "The authorization server could not be reached" );
+	}
+	if ( !grant || !isOwnGrant( req, grant ) ) {
+		return sendFdxError( res, FDX_ERRORS.RESOURCE_NOT_FOUND, CONSENT_NOT_FOUND );
+	}
+
+	return res.json( toFdxConsent( toConsent( grant, customerId ) ) );
+} );
+
+// PUT /consents/:consentId/revocation - revoke the grant on the authorization server, which invalidates the
+// refresh tokens issued under it, and notify the subscriptions created under the consent.
+// Revoking a consent that is already revoked changes nothing.
+router.put( "/consents/:consentId/revocation", async ( req: Request<{ consentId: string }>, res: Response ) => {
+	const consentIdResult = consentIdSchema.safeParse( req.params.consentId );
+	if ( !consentIdResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, formatZodError( consentIdResult.error ) );
+	}
+	const consentId = consentIdResult.data;
+	const bodyResult = consentRevocationRequestSchema.safeParse( req.body ?? {} );
+	if ( !bodyResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, formatZodError( bodyResult.error ) );
+	}
+	const clientId = getClientId( req );
+	const customerId = getCustomerId( req );
+
+	try {
+		const recorded = await getRecordedConsent( clientId, consentId );
+		if ( recorded?.status === "REVOKED" ) {
+			return recorded.customerId === customerId
+				? res.status( 204 ).end()
+				: sendFdxError( res, FDX_ERRORS.RESOURCE_NOT_FOUND, CONSENT_NOT_FOUND );
+		}
+	} catch ( error ) {
+		logger.error( { consentId: sanitizeForLogging( consentId ), error }, "Error retrieving consent" );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
+	}
+
+	if ( !isGrantsApiConfigured() ) {
+		return sendFdxError( res, FDX_ERRORS.SUBSYSTEM_UNAVAILABLE, "Consents are unavailable: CONSENT_API_SECRET is not configured" );
+	}
+	let consent: StoredConsent;
+	try {
+		const grant = await getGrant( consentId );
+		if ( !grant || !isOwnGrant( req, grant ) ) {
+			return sendFdxError( res, FDX_ERRORS.RESOURCE_NOT_FOUND, CONSENT_NOT_FOUND );
+		}
+		consent = toConsent( grant, customerId );
+		if ( !await revokeGrant( consentId ) ) {
+			return sendFdxError( res, FDX_ERRORS.RESOURCE_NOT_FOUND, CONSENT_NOT_FOUND );
+		}
+	} catch ( error ) {
+		logger.error( { consentId: sanitizeForLogging( consentId ), error }, "Error revoking grant on the authorization server" );
+		return sendFdxError( res, FDX_ERRORS.SUBSYSTEM_UNAVAILABLE, "The authorization server could not be reached" );
+	}
+
+	try {
+		const now = new Date().toISOString();
+		await saveConsent( {
+			...consent,
+			status: "REVOKED",
+			updatedTime: now,
+			revocation: { status: "REVOKED", ...bodyResult.data, updatedTime: now }
+		} );
+		logger.info( { consentId, clientId, reason: bodyResult.data.reason, initiator: bodyResult.data.initiator }, "Consent revoked" );
+		return res.status( 204 ).end();
+	} catch ( error ) {
+		logger.error( { consentId: sanitizeForLogging( consentId ), error }, "Error recording consent revocation" );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
+	}
+} );
+
+export default router;
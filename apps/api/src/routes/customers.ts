@@ -1,6 +1,9 @@
 import express, { Request, Response } from "express";
 import { getCurrentCustomer } from "../data/customersRepository.js";
 import pino from "pino";
+import { requireDataCluster } from "../middleware/scopes.js";
+import { getCustomerId } from "../middleware/customer.js";
+import { FDX_ERRORS, sendFdxError } from "../errors.js";
 
 const logger = pino( {
 	transport: {
@@ -14,23 +17,20 @@ const logger = pino( {
 const router = express.Router();
 
 // Get current customer
-router.get( "/customers/current", async ( req: Request, res: Response ) => {
+router.get( "/customers/current", requireDataCluster( "CUSTOMER_PERSONAL" ), async ( req: Request, res: Response ) => {
 	try {
-		// Get current customer using the repository
-		const customer = await getCurrentCustomer();
+		// Get the customer bound to the access token subject
+		const customer = await getCurrentCustomer( getCustomerId( req ) );
 
-		//HTTP status and error code are not always the same, check the API documentation for specifics
+		//HTTP status and error code are not always the same, the FDX error catalog maps one to the other
 		if ( !customer ) {
-			return res.status( 404 ).json( {
-				code: 601,
-				message: "A customer with the provided customer ID could not be found"
-			} );
+			return sendFdxError( res, FDX_ERRORS.CUSTOMER_NOT_FOUND, "A customer with the provided customer ID could not be found" );
 		}
 
 		res.json( customer );
 	} catch ( error ) {
 		logger.error( error, "Error retrieving current customer" );
-		res.status( 500 ).json( { error: "Internal server error" } );
+		sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
 	}
 } );
 
@@ -0,0 +1,15 @@
+/**
+ * The routers serving the FDX API under FDX_BASE_PATH
+ *
+ * The API mounts these and checks them against the OpenAPI operations, as does the script that
+ * writes the OpenAPI document, so a router added here is served and documented alike.
+ */
+
+import type { Router } from "express";
+import customersRouter from "./customers.js";
+import accountsRouter from "./accounts.js";
+import taxFormsRouter from "./taxForms.js";
+import notificationsRouter from "./notifications.js";
+import consentsRouter from "./consents.js";
+
+export const fdxRouters: Router[] = [ customersRouter, accountsRouter, taxFormsRouter, notificationsRouter, consentsRouter ];
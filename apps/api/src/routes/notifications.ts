@@ -0,0 +1,152 @@
+import express, { Request, Response } from "express";
+import { randomUUID } from "crypto";
+import pino from "pino";
+import {
+	getNotificationSubscription,
+	saveNotificationSubscription,
+	deleteNotificationSubscription,
+	getNotificationDeliveries
+} from "../data/notificationsRepository.js";
+import type { NotificationSubscription, StoredNotificationSubscription } from "../data/types.js";
+import { requireDataCluster } from "../middleware/scopes.js";
+import { getCustomerId } from "../middleware/customer.js";
+import { getClientId, getConsentId, getConsentedAccountIds } from "../middleware/consent.js";
+import { FDX_ERRORS, sendFdxError } from "../errors.js";
+import { queryFingerprint, resolvePage, createPageMetadata } from "../pagination.js";
+import { notificationDeliveryOrder } from "../data/ordering.js";
+import {
+	notificationSubscriptionRequestSchema,
+	subscriptionIdSchema,
+	paginationSchema,
+	sanitizeForLogging,
+	formatZodError
+} from "@apps/shared/validation";
+
+const logger = pino( {
+	transport: {
+		target: "pino-pretty",
+		options: {
+			colorize: true
+		}
+	}
+} );
+
+const router = express.Router();
+
+/**
+ * The FDX representation of a stored subscription, without the consent it was created under
+ */
+function toNotificationSubscription( subscription: StoredNotificationSubscription ): NotificationSubscription {
+	const { subscriptionId, type, callbackUrl, subscriber, effectiveDate } = subscription;
+	return { subscriptionId, type, callbackUrl, subscriber, effectiveDate };
+}
+
+// POST /notification-subscriptions - subscribe a callback URL to a notification type.
+// The subscription belongs to the token's client, so one recipient never sees or deletes another's, and receives
+// notifications about the accounts consented to the token.
+router.post( "/notification-subscriptions", requireDataCluster( "ACCOUNT_BASIC" ), async ( req: Request, res: Response ) => {
+	const bodyResult = notificationSubscriptionRequestSchema.safeParse( req.body ?? {} );
+	if ( !bodyResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, formatZodError( bodyResult.error ) );
+	}
+	const clientId = getClientId( req );
+	if ( !clientId ) {
+		return sendFdxError( res, FDX_ERRORS.CUSTOMER_NOT_AUTHORIZED, "The access token does not identify a client" );
+	}
+
+	const subscription: StoredNotificationSubscription = {
+		subscriptionId: randomUUID(),
+		type: bodyResult.data.type,
+		callbackUrl: bodyResult.data.callbackUrl,
+		subscriber: { name: clientId, type: "DATA_RECIPIENT" },
+		effectiveDate: new Date().toISOString(),
+		clientId,
+		customerId: getCustomerId( req ),
+		consentId: getConsentId( req ),
+		accountIds: getConsentedAccountIds( req )
+	};
+
+	try {
+		await saveNotificationSubscription( subscription );
+		logger.info( { subscriptionId: subscription.subscriptionId, type: subscription.type, clientId }, "Notification subscription created" );
+		return res.status( 201 ).json( toNotificationSubscription( subscription ) );
+	} catch ( error ) {
+		logger.error( error, "Error creating notification subscription" );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
+	}
+} );
+
+// GET /notification-subscriptions/:subscriptionId
+router.get( "/notification-subscriptions/:subscriptionId", requireDataCluster( "ACCOUNT_BASIC" ), async ( req: Request<{ subscriptionId: string }>, res: Response ) => {
+	const subscriptionIdResult = subscriptionIdSchema.safeParse( req.params.subscriptionId );
+	if ( !subscriptionIdResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, formatZodError( subscriptionIdResult.error ) );
+	}
+	const subscriptionId = subscriptionIdResult.data;
+
+	try {
+		const subscription = await getNotificationSubscription( getClientId( req ), subscriptionId );
+		if ( !subscription ) {
+			return sendFdxError( res, FDX_ERRORS.RESOURCE_NOT_FOUND, "A subscription with the provided subscription ID could not be found" );
+		}
+		return res.json( toNotificationSubscription( subscription ) );
+	} catch ( error ) {
+		logger.error( { subscriptionId: sanitizeForLogging( subscriptionId ), error }, "Error retrieving notification subscription" );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
+	}
+} );
+
+// DELETE /notification-subscriptions/:subscriptionId - stop notifications and drop the delivery log
+router.delete( "/notification-subscriptions/:subscriptionId", requireDataCluster( "ACCOUNT_BASIC" ), async ( req: Request<{ subscriptionId: string }>, res: Response ) => {
+	const subscriptionIdResult = subscriptionIdSchema.safeParse( req.params.subscriptionId );
+	if ( !subscriptionIdResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, formatZodError( subscriptionIdResult.error ) );
+	}
+	const subscriptionId = subscriptionIdResult.data;
+
+	try {
+		if ( !await deleteNotificationSubscription( getClientId( req ), subscriptionId ) ) {
+			return sendFdxError( res, FDX_ERRORS.RESOURCE_NOT_FOUND, "A subscription with the provided subscription ID could not be found" );
+		}
+		logger.info( { subscriptionId, clientId: getClientId( req ) }, "Notification subscription deleted" );
+		return res.status( 204 ).end();
+	} catch ( error ) {
+		logger.error( { subscriptionId: sanitizeForLogging( subscriptionId ), error }, "Error deleting notification subscription" );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
+	}
+} );
+
+// GET /notification-subscriptions/:subscriptionId/deliveries - the delivery log, oldest first, with pagination support
+router.get( "/notification-subscriptions/:subscriptionId/deliveries", requireDataCluster( "ACCOUNT_BASIC" ), async ( req: Request<{ subscriptionId: string }>, res: Response ) => {
+	const subscriptionIdResult = subscriptionIdSchema.safeParse( req.params.subscriptionId );
+	if ( !subscriptionIdResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, formatZodError( subscriptionIdResult.error ) );
+	}
+	const subscriptionId = subscriptionIdResult.data;
+	const queryResult = paginationSchema.safeParse( req.query );
+	if ( !queryResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, formatZodError( queryResult.error ) );
+	}
+	const clientId = getClientId( req );
+
+	const fingerprint = queryFingerprint( "notification-deliveries", { clientId, subscriptionId } );
+	const pageRequest = resolvePage( res, queryResult.data, fingerprint );
+	if ( !pageRequest ) return;
+
+	try {
+		if ( !await getNotificationSubscription( clientId, subscriptionId ) ) {
+			return sendFdxError( res, FDX_ERRORS.RESOURCE_NOT_FOUND, "A subscription with the provided subscription ID could not be found" );
+		}
+		const result = await getNotificationDeliveries( clientId, subscriptionId, pageRequest );
+		const page = createPageMetadata( pageRequest, result.deliveries, result, notificationDeliveryOrder, fingerprint );
+		return res.json( {
+			page,
+			deliveries: result.deliveries
+		} );
+	} catch ( error ) {
+		logger.error( { subscriptionId: sanitizeForLogging( subscriptionId ), error }, "Error retrieving notification deliveries" );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
+	}
+} );
+
+export default router;
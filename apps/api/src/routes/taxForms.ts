@@ -0,0 +1,91 @@
+import express, { Request, Response } from "express";
+import { getTaxForms, getTaxFormById } from "../data/taxFormsRepository.js";
+import { renderTaxFormPdf } from "../documents/taxForms.js";
+import pino from "pino";
+import { requireDataCluster } from "../middleware/scopes.js";
+import { getCustomerId } from "../middleware/customer.js";
+import { getConsentedAccountIds } from "../middleware/consent.js";
+import { FDX_ERRORS, sendFdxError } from "../errors.js";
+import { queryFingerprint, resolvePage, createPageMetadata } from "../pagination.js";
+import { taxFormOrder } from "../data/ordering.js";
+import {
+	taxFormsQuerySchema,
+	taxFormIdSchema,
+	sanitizeForLogging,
+	formatZodError
+} from "@apps/shared/validation";
+
+const logger = pino( {
+	transport: {
+		target: "pino-pretty",
+		options: {
+			colorize: true
+		}
+	}
+} );
+
+const router = express.Router();
+
+// GET /tax-forms with pagination support, optionally filtered by taxYear and taxForms (comma-separated form types)
+router.get( "/tax-forms", requireDataCluster( "TAX" ), async ( req: Request, res: Response ) => {
+	const queryResult = taxFormsQuerySchema.safeParse( req.query );
+	if ( !queryResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, formatZodError( queryResult.error ) );
+	}
+	const { taxYear, taxForms } = queryResult.data;
+	const customerId = getCustomerId( req );
+	const accountIds = getConsentedAccountIds( req );
+
+	const fingerprint = queryFingerprint( "tax-forms", { customerId, accountIds, taxYear, taxForms } );
+	const pageRequest = resolvePage( res, queryResult.data, fingerprint );
+	if ( !pageRequest ) return;
+
+	try {
+		// Only the accounts consented for this token contribute tax forms
+		const result = await getTaxForms( customerId, accountIds, { taxYear, taxForms }, pageRequest );
+		const page = createPageMetadata( pageRequest, result.forms, result, taxFormOrder, fingerprint );
+		return res.json( {
+			page,
+			forms: result.forms
+		} );
+	} catch ( error ) {
+		logger.error( error, "Error retrieving tax forms" );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
+	}
+} );
+
+// GET /tax-forms/:taxFormId - JSON by default, PDF rendition with Accept: application/pdf
+router.get( "/tax-forms/:taxFormId", requireDataCluster( "TAX" ), async ( req: Request<{ taxFormId: string }>, res: Response ) => {
+	const taxFormIdResult = taxFormIdSchema.safeParse( req.params.taxFormId );
+	if ( !taxFormIdResult.success ) {
+		return sendFdxError( res, FDX_ERRORS.INVALID_INPUT, formatZodError( taxFormIdResult.error ) );
+	}
+	const taxFormId = taxFormIdResult.data;
+
+	const format = req.accepts( [ "application/json", "application/pdf" ] );
+	if ( !format ) {
+		return sendFdxError( res, FDX_ERRORS.NOT_ACCEPTABLE, "Supported types: application/json, application/pdf" );
+	}
+
+	try {
+		const form = await getTaxFormById( getCustomerId( req ), getConsentedAccountIds( req ), taxFormId );
+		if ( !form ) {
+			return sendFdxError( res, FDX_ERRORS.TAX_FORM_NOT_FOUND, "A tax form with the provided tax form ID could not be found" );
+		}
+
+		if ( format === "application/pdf" ) {
+			const buffer = renderTaxFormPdf( form );
+			res.setHeader( "Content-Type", "application/pdf" );
+			res.setHeader( "Content-Disposition", `inline; filename=${ taxFormId }.pdf` );
+			res.setHeader( "Content-Length", buffer.length.toString() );
+			return res.status( 200 ).send( buffer );
+		}
+
+		return res.json( form );
+	} catch {
+		logger.error( { taxFormId: sanitizeForLogging( taxFormId ) }, "Error retrieving tax form" );
+		return sendFdxError( res, FDX_ERRORS.INTERNAL_SERVER_ERROR );
+	}
+} );
+
+export default router;
@@ -0,0 +1,39 @@
+/**
+ * Write a generated dataset to stdout or a file, e.g. to serve it with API_DATA_SOURCE=file
+ *
+ * Usage: pnpm --filter @apps/api generate-data [--seed N] [--customers N] [--years N] [--end-date YYYY-MM-DD] [output.json]
+ */
+
+import { writeFileSync } from "fs";
+import { parseArgs } from "util";
+import { formatZodError } from "@apps/shared/validation";
+import { DEFAULT_GENERATOR_OPTIONS, generateDataset, generatorOptionsSchema } from "../data/generator.js";
+
+const { values, positionals } = parseArgs( {
+	options: {
+		seed: { type: "string" },
+		customers: { type: "string" },
+		years: { type: "string" },
+		"end-date": { type: "string" }
+	},
+	allowPositionals: true
+} );
+
+const result = generatorOptionsSchema.safeParse( {
+	seed: values.seed ?? DEFAULT_GENERATOR_OPTIONS.seed,
+	customers: values.customers ?? DEFAULT_GENERATOR_OPTIONS.customers,
+	years: values.years ?? DEFAULT_GENERATOR_OPTIONS.years,
+	endDate: values["end-date"] ?? DEFAULT_GENERATOR_OPTIONS.endDate
+} );
+if ( !result.success ) {
+	process.stderr.write( `Invalid options: ${ formatZodError( result.error ) }\n` );
+	process.exit( 1 );
+}
+const json = `${ JSON.stringify( generateDataset( result.data ), null, 2 ) }\n`;
+
+const output = positionals[0];
+if ( output ) {
+	writeFileSync( output, json );
+} else {
+	process.stdout.write( json );
+}
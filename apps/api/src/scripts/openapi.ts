@@ -0,0 +1,29 @@
+/**
+ * Write the OpenAPI document to stdout or a file, e.g. to generate client SDKs without running the API
+ *
+ * Usage: pnpm --filter @apps/api openapi [output.json]
+ */
+
+import "dotenv/config";
+import { writeFileSync } from "fs";
+import { getRequiredEnv } from "@apps/shared";
+import { fdxRouters } from "../routes/index.js";
+import { buildOpenApiDocument, findUndocumentedRoutes } from "../openapi.js";
+
+const undocumentedRoutes = findUndocumentedRoutes( fdxRouters );
+if ( undocumentedRoutes.length > 0 ) {
+	throw new Error( `OpenAPI document is out of sync with the routes: ${ undocumentedRoutes.join( "; " ) }` );
+}
+
+const document = buildOpenApiDocument( {
+	serverUrl: getRequiredEnv( "API_HOST", "http://localhost" ),
+	issuer: getRequiredEnv( "OP_ISSUER", "https://id.localtest.me" )
+} );
+const json = `${ JSON.stringify( document, null, 2 ) }\n`;
+
+const output = process.argv[2];
+if ( output ) {
+	writeFileSync( output, json );
+} else {
+	process.stdout.write( json );
+}
@@ -0,0 +1,350 @@
+/**
+ * Pending-to-posted transaction lifecycle simulation
+ *
+ * The fixtures never change, so a recipient can't see pending transactions settle. When enabled,
+ * the simulation runs on a timer: each tick it may authorize new card transactions as PENDING
+ * on the simulated accounts and settles the pending transactions that are due. A settling
+ * transaction is posted under the same transactionId or re-keyed to a new one, possibly for a
+ * different amount (a tip, a currency conversion), or dropped when the authorization is voided.
+ * A pending debit holds funds in the account's available balance (available credit for a credit
+ * line) and posting moves it into the current balance. When a tick falls in a new month, the
+ * simulated accounts get their monthly statement for the month that ended.
+ *
+ * Every decision comes from a PRNG seeded with API_SIMULATION_SEED, so the same seed and
+ * settings replay the same transactions, amounts and outcomes. Timestamps are the tick times.
+ */
+
+import { getOptionalEnv, getRequiredEnvNumber } from "@apps/shared";
+import type { Account, Transaction } from "../data/types.js";
+import type { DataStore } from "../data/stores/index.js";
+import { createMonthlyStatement } from "../data/generator.js";
+import { createRandom } from "../utils/random.js";
+
+export interface SimulationOptions {
+	seed: number;
+	intervalMs: number;
+	settleAfterTicks: number;  // How many ticks a transaction stays pending
+	accountIds: string[];
+	pendingRate: number;  // Chance per account and tick of a new pending transaction
+	dropRate: number;  // Chance a due transaction is voided instead of posted
+	amountChangeRate: number;  // Chance a posted amount differs from the pending amount
+	rekeyRate: number;  // Chance a transaction is posted under a new transactionId
+}
+
+export interface TransactionEvent {
+	type: "pending" | "posted" | "dropped";
+	accountId: string;
+	transactionId: string;
+	amount: number;
+	previousTransactionId?: string;  // Set when the posted transaction was re-keyed
+	previousAmount?: number;  // Set when the posted amount differs from the pending amount
+	timestamp: string;
+}
+
+export interface StatementEvent {
+	type: "statement";
+	accountId: string;
+	statementId: string;
+	statementDate: string;
+	timestamp: string;
+}
+
+export type SimulationEvent = TransactionEvent | StatementEvent;
+export interface TransactionSimulation {
+	tick( now?: Date ): Promise<SimulationEvent[]>;
+	start( onEvents: ( events: SimulationEvent[] ) => void, onError: ( error: unknown ) => void ): Promise<void>;
+	stop(): void;
+}
+
+interface PendingEntry {
+	accountId: string;
+	transactionId: string;
+	dueTick: number;
+}
+
+// Card spending is what goes through an authorization hold before it posts
+const SIMULATED_TRANSACTION_TYPES: Record<string, string> = {
+	DEPOSIT_ACCOUNT: "DEBITCARD",
+	LOC_ACCOUNT: "PURCHASE"
+};
+
+const MERCHANTS = [
+	"COFFEE SHOP",
+	"GROCERY STORE",
+	"GAS STATION",
+	"RESTAURANT",
+	"PHARMACY",
+	"ONLINE MARKETPLACE",
+	"HARDWARE STORE",
+	"BOOKSTORE",
+	"RIDE SHARE",
+	"HOTEL"
+];
+
+const TRANSACTION_ID_PREFIX = "simulatedTransaction";
+
+function roundCents( amount: number ): number {
+	return Math.round( amount * 100 ) / 100;
+}
+
+function getRate( name: string, fallback: number ): number {
+	const rate = getRequiredEnvNumber( name, fallback );
+	if ( rate < 0 || rate > 1 ) {
+		throw new Error( `Invalid ${ name } "${ rate }": expected a number between 0 and 1` );
+	}
+	return rate;
+}
+
+/**
+ * Read the simulation settings from the API_SIMULATION_* environment variables
+ */
+export function getSimulationOptions(): SimulationOptions {
+	const intervalSeconds = getRequiredEnvNumber( "API_SIMULATION_INTERVAL_SECONDS", 60 );
+	const settleAfterTicks = getRequiredEnvNumber( "API_SIMULATION_SETTLE_AFTER_TICKS", 3 );
+	if ( intervalSeconds <= 0 || !Number.isInteger( settleAfterTicks ) || settleAfterTicks < 1 ) {
+		throw new Error( "API_SIMULATION_INTERVAL_SECONDS must be positive and API_SIMULATION_SETTLE_AFTER_TICKS a positive integer" );
+	}
+
+	return {
+		seed: getRequiredEnvNumber( "API_SIMULATION_SEED", 1 ),
+		intervalMs: intervalSeconds * 1000,
+		settleAfterTicks,
+		accountIds: getOptionalEnv( "API_SIMULATION_ACCOUNTS", "account-123,account-601" )
+			.split( "," )
+			.map( ( id ) => id.trim() )
+			.filter( Boolean ),
+		pendingRate: getRate( "API_SIMULATION_PENDING_RATE", 0.5 ),
+		dropRate: getRate( "API_SIMULATION_DROP_RATE", 0.1 ),
+		amountChangeRate: getRate( "API_SIMULATION_AMOUNT_CHANGE_RATE", 0.2 ),
+		rekeyRate: getRate( "API_SIMULATION_REKEY_RATE", 0.3 )
+	};
+}
+
+/**
+ * Change the funds available to the customer: the available balance of a deposit
+ * account or the available credit of a credit line
+ */
+function adjustAvailable( account: Account, amount: number ): void {
+	if ( account.accountCategory === "LOC_ACCOUNT" ) {
+		if ( account.availableCredit !== undefined ) account.availableCredit = roundCents( account.availableCredit + amount );
+	} else if ( account.availableBalance !== undefined ) {
+		account.availableBalance = roundCents( account.availableBalance + amount );
+	}
+}
+
+/**
+ * Apply a posted transaction to the balances. A credit line's current balance is the amount
+ * owed, so a debit increases it.
+ */
+function applyPosted( account: Account, transaction: Transaction ): void {
+	const signed = transaction.debitCreditMemo === "DEBIT" ? -transaction.amount : transaction.amount;
+	const owed = account.accountCategory === "LOC_ACCOUNT";
+	account.currentBalance = roundCents( ( account.currentBalance ?? 0 ) + ( owed ? -signed : signed ) );
+	adjustAvailable( account, signed );
+}
+
+/**
+ * The funds a pending transaction holds; only debits are held
+ */
+function heldAmount( transaction: Transaction ): number {
+	return transaction.debitCreditMemo === "DEBIT" ? transaction.amount : 0;
+}
+
+/**
+ * Create the simulation for the accounts in the options.
+ * Transactions already pending on those accounts (e.g. in the fixtures) settle on the same schedule.
+ */
+export function createTransactionSimulation( store: DataStore, options: SimulationOptions ): TransactionSimulation {
+	const random = createRandom( options.seed );
+	const pending: PendingEntry[] = [];
+	let tickCount = 0;
+	let previousMonth: string | null = null;  // UTC month (YYYY-MM) of the previous tick
+	let nextTransactionNumber = 1;
+	let initialized = false;
+	let timer: ReturnType<typeof setTimeout> | null = null;
+
+	function nextTransactionId(): string {
+		return `${ TRANSACTION_ID_PREFIX }${ String( nextTransactionNumber++ ).padStart( 9, "0" ) }`;
+	}
+
+	// Check the accounts and pick up their pending transactions. Numbering continues after the
+	// simulated IDs already stored, so a restart against a SQLite database doesn't reuse them.
+	async function initialize(): Promise<void> {
+		const accountsById = new Map( ( await store.listAccounts() ).map( ( account ) => [ account.accountId, account ] ) );
+		for ( const accountId of options.accountIds ) {
+			const account = accountsById.get( accountId );
+			if ( !account ) {
+				throw new Error( `Simulated account "${ accountId }" does not exist` );
+			}
+			if ( !SIMULATED_TRANSACTION_TYPES[account.accountCategory] ) {
+				throw new Error( `Simulated account "${ accountId }" is a ${ account.accountCategory }: only deposit and line of credit accounts are supported` );
+			}
+
+			for ( const transaction of await store.listTransactions( accountId ) ) {
+				if ( transaction.transactionId.startsWith( TRANSACTION_ID_PREFIX ) ) {
+					const number = Number( transaction.transactionId.slice( TRANSACTION_ID_PREFIX.length ) );
+					if ( Number.isInteger( number ) ) nextTransactionNumber = Math.max( nextTransactionNumber, number + 1 );
+				}
+				if ( transaction.status === "PENDING" ) {
+					pending.push( { accountId, transactionId: transaction.transactionId, dueTick: options.settleAfterTicks } );
+				}
+			}
+		}
+		initialized = true;
+	}
+
+	/**
+	 * Post or drop a due pending transaction
+	 */
+	async function settle( account: Account, transaction: Transaction, timestamp: string ): Promise<TransactionEvent> {
+		adjustAvailable( account, heldAmount( transaction ) );
+
+		if ( random.chance( options.dropRate ) ) {
+			await store.deleteTransaction( account.accountId, transaction.transactionId );
+			return { type: "dropped", accountId: account.accountId, transactionId: transaction.transactionId, amount: transaction.amount, timestamp };
+		}
+
+		let amount = transaction.amount;
+		if ( random.chance( options.amountChangeRate ) ) {
+			amount = roundCents( transaction.amount * random.between( 0.8, 1.25 ) );
+			if ( amount === transaction.amount ) amount = roundCents( amount + 0.01 );
+		}
+		const rekeyed = random.chance( options.rekeyRate );
+
+		const posted: Transaction = {
+			...transaction,
+			transactionId: rekeyed ? nextTransactionId() : transaction.transactionId,
+			postedTimestamp: timestamp,
+			status: "POSTED",
+			amount
+		};
+		if ( rekeyed ) {
+			await store.deleteTransaction( account.accountId, transaction.transactionId );
+		}
+		await store.saveTransaction( account.accountId, posted );
+		applyPosted( account, posted );
+
+		return {
+			type: "posted",
+			accountId: account.accountId,
+			transactionId: posted.transactionId,
+			amount,
+			...( rekeyed && { previousTransactionId: transaction.transactionId } ),
+			...( amount !== transaction.amount && { previousAmount: transaction.amount } ),
+			timestamp
+		};
+	}
+
+	/**
+	 * Authorize a new card transaction as pending
+	 */
+	async function authorize( account: Account, timestamp: string ): Promise<TransactionEvent> {
+		const transaction: Transaction = {
+			accountCategory: account.accountCategory,
+			transactionType: SIMULATED_TRANSACTION_TYPES[account.accountCategory],
+			transactionId: nextTransactionId(),
+			postedTimestamp: timestamp,
+			transactionTimestamp: timestamp,
+			description: random.pick( MERCHANTS ),
+			debitCreditMemo: "DEBIT",
+			status: "PENDING",
+			amount: roundCents( random.between( 2, 150 ) )
+		};
+		await store.saveTransaction( account.accountId, transaction );
+		adjustAvailable( account, -heldAmount( transaction ) );
+		pending.push( { accountId: account.accountId, transactionId: transaction.transactionId, dueTick: tickCount + options.settleAfterTicks } );
+		return { type: "pending", accountId: account.accountId, transactionId: transaction.transactionId, amount: transaction.amount, timestamp };
+	}
+
+	/**
+	 * Publish the statement for the month before the given time on every simulated account
+	 */
+	async function issueStatements( accountsById: Map<string, Account>, now: Date ): Promise<StatementEvent[]> {
+		const statementDate = new Date( Date.UTC( now.getUTCFullYear(), now.getUTCMonth(), 0 ) ).toISOString().slice( 0, 10 );
+		const events: StatementEvent[] = [];
+		for ( const accountId of options.accountIds ) {
+			if ( !accountsById.has( accountId ) ) continue;
+			const statement = createMonthlyStatement( accountId, statementDate );
+			await store.saveStatement( statement );
+			events.push( { type: "statement", accountId, statementId: statement.statementId, statementDate, timestamp: now.toISOString() } );
+		}
+		return events;
+	}
+
+	/**
+	 * Advance the simulation by one step: close the month if a new one started, settle the due
+	 * transactions, then authorize new ones
+	 */
+	async function tick( now = new Date() ): Promise<SimulationEvent[]> {
+		if ( !initialized ) await initialize();
+		tickCount++;
+		const timestamp = now.toISOString();
+		const events: SimulationEvent[] = [];
+
+		// Balances are read fresh every tick so changes made by others in a SQLite database are kept
+		const accountsById = new Map( ( await store.listAccounts() ).map( ( account ) => [ account.accountId, account ] ) );
+		const changedAccounts = new Set<Account>();
+
+		// The first tick only records the month, so a restart doesn't publish a statement again
+		const month = timestamp.slice( 0, 7 );
+		if ( previousMonth && month !== previousMonth ) {
+			events.push( ...await issueStatements( accountsById, now ) );
+		}
+		previousMonth = month;
+
+		const due = pending.filter( ( entry ) => entry.dueTick <= tickCount );
+		for ( const entry of due ) {
+			pending.splice( pending.indexOf( entry ), 1 );
+			const account = accountsById.get( entry.accountId );
+			const transaction = ( await store.listTransactions( entry.accountId, { statuses: [ "PENDING" ] } ) )
+				.find( ( tx ) => tx.transactionId === entry.transactionId );
+			// Skip transactions that were removed or posted by something else
+			if ( !account || !transaction ) continue;
+			events.push( await settle( account, transaction, timestamp ) );
+			changedAccounts.add( account );
+		}
+
+		for ( const accountId of options.accountIds ) {
+			const account = accountsById.get( accountId );
+			if ( account && random.chance( options.pendingRate ) ) {
+				events.push( await authorize( account, timestamp ) );
+				changedAccounts.add( account );
+			}
+		}
+
+		for ( const account of changedAccounts ) {
+			await store.saveAccount( account );
+		}
+		return events;
+	}
+
+	return {
+		tick,
+
+		async start( onEvents, onError ) {
+			// Initialize up front so a misconfigured account fails at startup rather than on the first tick
+			if ( !initialized ) await initialize();
+
+			// Each tick is scheduled after the previous one finished, so ticks never overlap
+			const schedule = () => {
+				timer = setTimeout( () => {
+					tick()
+						.then( ( events ) => {
+							if ( events.length > 0 ) onEvents( events );
+						} )
+						.catch( onError )
+						.finally( () => {
+							if ( timer ) schedule();
+						} );
+				}, options.intervalMs );
+				timer.unref();
+			};
+			schedule();
+		},
+
+		stop() {
+			if ( timer ) clearTimeout( timer );
+			timer = null;
+		}
+	};
+}
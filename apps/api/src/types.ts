@@ -0,0 +1,8 @@
+import type { Request } from "express";
+import type { JWTPayload } from "jose";
+
+// Extend Request interface to include user payload and the customer it resolves to
+export interface AuthenticatedRequest extends Request {
+	user?: JWTPayload;
+	customerId?: string;
+}
@@ -0,0 +1,36 @@
+/**
+ * Seeded pseudo-random numbers for reproducible simulated data
+ *
+ * Uses mulberry32: small and fast with a 2^32 period, which is plenty for test data.
+ * Never use it for anything security related.
+ */
+export interface Random {
+	next(): number;  // In [0, 1)
+	between( min: number, max: number ): number;  // In [min, max)
+	int( min: number, max: number ): number;  // In [min, max], both inclusive
+	pick<T>( items: readonly T[] ): T;
+	chance( probability: number ): boolean;
+}
+
+/**
+ * Create a generator that returns the same sequence for the same seed
+ */
+export function createRandom( seed: number ): Random {
+	let state = seed >>> 0;
+
+	const next = (): number => {
+		state = ( state + 0x6D2B79F5 ) >>> 0;
+		let t = state;
+		t = Math.imul( t ^ ( t >>> 15 ), t | 1 );
+		t ^= t + Math.imul( t ^ ( t >>> 7 ), t | 61 );
+		return ( ( t ^ ( t >>> 14 ) ) >>> 0 ) / 4294967296;
+	};
+
+	return {
+		next,
+		between: ( min, max ) => min + next() * ( max - min ),
+		int: ( min, max ) => min + Math.floor( next() * ( max - min + 1 ) ),
+		pick: ( items ) => items[Math.floor( next() * items.length )],
+		chance: ( probability ) => next() < probability
+	};
+}
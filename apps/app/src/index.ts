@@ -2,25 +2,36 @@ import "dotenv/config";
 import express, { Request, Response } from "express";
 import cookieParser from "cookie-parser";
 import * as client from "openid-client";
-import { createRemoteJWKSet, jwtVerify } from "jose";
-import { webcrypto } from "crypto";
+import { createRemoteJWKSet, jwtVerify, compactVerify, importJWK, type CompactJWSHeaderParameters, type JWK } from "jose";
+import { webcrypto, randomUUID } from "crypto";
 import {
 	sanitizeError,
 	logError,
 	getRequiredEnv,
 	getRequiredEnvNumber,
+	getOptionalEnv,
 	createLogger,
 	createWebSecurityHeaders,
 	setupBasicExpress,
 	setupEJSTemplates
 } from "@apps/shared";
+import {
+	assertFapi2Compliance,
+	getFapi2SigningAlgorithm,
+	getSecurityProfile,
+	isHttpsUrl,
+	FAPI2_SIGNING_ALGORITHMS
+} from "@apps/shared/securityProfiles";
 import {
 	apiCallSchema,
 	tokenSetSchema,
+	jwksSchema,
 	safeJsonParse,
 	escapeHtml,
 	sanitizeForLogging,
-	formatZodError
+	formatZodError,
+	NOTIFICATION_TYPES,
+	type NotificationType
 } from "@apps/shared/validation";
 
 // Polyfill for crypto global in Node.js
@@ -40,14 +51,32 @@ interface OidcState {
 
 interface TokenSet {
 	access_token: string;
+	token_type?: string;  // "DPoP" when the access token is bound to the session's DPoP key
 	refresh_token?: string;
 	id_token?: string;
 }
 
+interface ReceivedNotification {
+	receivedAt: string;
+	verified: boolean;
+	error?: string;  // Why the signature was rejected
+	protectedHeader?: CompactJWSHeaderParameters;
+	notification?: unknown;  // The verified payload
+}
+
+interface NotificationSubscription {
+	subscriptionId: string;
+	type: NotificationType;
+	callbackUrl: string;
+}
+
 interface CookieRequest extends Request {
 	cookies: {
 		[key: string]: string;
 	};
+	signedCookies: {
+		[key: string]: string | false;
+	};
 }
 
 // Environment configuration
@@ -56,11 +85,28 @@ const HOST = getRequiredEnv( "APP_HOST" );
 const PORT = getRequiredEnvNumber( "APP_PORT" );
 const ISSUER_URL = getRequiredEnv( "OP_ISSUER" );
 const CLIENT_ID = getRequiredEnv( "CLIENT_ID" );
-const CLIENT_SECRET = getRequiredEnv( "CLIENT_SECRET" );
+// With CLIENT_PRIVATE_JWKS the app authenticates with private_key_jwt (RFC 7523) instead of CLIENT_SECRET
+const CLIENT_PRIVATE_JWKS = getOptionalEnv( "CLIENT_PRIVATE_JWKS", "" );
+const CLIENT_SECRET = CLIENT_PRIVATE_JWKS ? undefined : getRequiredEnv( "CLIENT_SECRET" );
 const REDIRECT_URI = getRequiredEnv( "REDIRECT_URI" );
 const API_BASE_URL = getRequiredEnv( "API_BASE_URL" );
 const API_AUDIENCE = getRequiredEnv( "API_AUDIENCE" );
 const COOKIE_SECRET = getRequiredEnv( "COOKIE_SECRET" );
+const NOTIFICATION_JWKS_URL = getOptionalEnv( "NOTIFICATION_JWKS_URL", `${ API_BASE_URL }/public/notifications/jwks` );
+
+// FAPI 2.0 Security Profile, switched on for the OP, the API and the app together with SECURITY_PROFILE=fapi2.
+// The app always uses PAR, S256 PKCE and DPoP; in FAPI 2.0 mode it must also authenticate with private_key_jwt
+// and talk to everything over https.
+const FAPI2 = getSecurityProfile() === "fapi2";
+if ( FAPI2 ) {
+	const urls = { OP_ISSUER: ISSUER_URL, APP_HOST: HOST, REDIRECT_URI, API_BASE_URL };
+	assertFapi2Compliance( "Client app", [
+		...( CLIENT_PRIVATE_JWKS ? [] : [ "CLIENT_PRIVATE_JWKS must be set, to authenticate with private_key_jwt instead of CLIENT_SECRET" ] ),
+		...Object.entries( urls )
+			.filter( ( [ , url ] ) => !isHttpsUrl( url ) )
+			.map( ( [ name, url ] ) => `${ name } must be an https URL, got ${ url }` )
+	] );
+}
 
 const app = express();
 setupBasicExpress( app );
@@ -81,6 +127,23 @@ let config: client.Configuration | undefined;
 let configInitPromise: Promise<client.Configuration> | null = null;
 let jwks: ReturnType<typeof createRemoteJWKSet> | undefined;
 
+// Keys the API signs notifications with, fetched on the first notification
+const notificationJwks = createRemoteJWKSet( new URL( NOTIFICATION_JWKS_URL ) );
+
+// The most recent notifications received on the webhook, newest first. Kept in memory only,
+// as this receiver is for watching notifications arrive during development.
+const MAX_RECEIVED_NOTIFICATIONS = 50;
+const receivedNotifications: ReceivedNotification[] = [];
+
+// Subscriptions created from the notifications page
+const notificationSubscriptions: NotificationSubscription[] = [];
+
+// DPoP key pairs (RFC 9449) by session ID, which is kept in the signed "dpop" cookie. The private keys
+// can't be exported and never leave this process, so an access token taken from the tokens cookie can't
+// be used anywhere else. Kept in memory only: after a restart the access tokens are refreshed with a new key.
+const MAX_DPOP_SESSIONS = 1000;
+const dpopSessions = new Map<string, client.DPoPHandle>();
+
 /**
  * Safely parse and validate the tokens cookie.
  * Returns null if parsing fails or validation fails.
@@ -119,6 +182,120 @@ function parseOidcCookie( cookieValue: string | undefined ): OidcState {
 	}
 }
 
+/**
+ * Start a session with a new DPoP key pair, replacing the request's session if it has one.
+ * Returns the handle openid-client signs proofs with.
+ */
+async function createDPoPSession( req: Request, res: Response, configuration: client.Configuration ): Promise<client.DPoPHandle> {
+	deleteDPoPSession( req, res );
+
+	// Maps iterate in insertion order, so the first key is the oldest session
+	if ( dpopSessions.size >= MAX_DPOP_SESSIONS ) {
+		const oldest = dpopSessions.keys().next().value;
+		if ( oldest !== undefined ) dpopSessions.delete( oldest );
+	}
+
+	const sessionId = randomUUID();
+	const handle = client.getDPoPHandle( configuration, await client.randomDPoPKeyPair() );
+	dpopSessions.set( sessionId, handle );
+	res.cookie( "dpop", sessionId, { httpOnly: true, sameSite: "lax", secure: true, path: "/", signed: true } );
+	return handle;
+}
+
+/**
+ * Get the DPoP handle of the request's session, if it has one
+ */
+function getDPoPSession( req: Request ): client.DPoPHandle | undefined {
+	const sessionId = ( req as CookieRequest ).signedCookies["dpop"];
+	return sessionId ? dpopSessions.get( sessionId ) : undefined;
+}
+
+function deleteDPoPSession( req: Request, res: Response ): void {
+	const sessionId = ( req as CookieRequest ).signedCookies["dpop"];
+	if ( sessionId ) dpopSessions.delete( sessionId );
+	res.clearCookie( "dpop", { path: "/" } );
+}
+
+/**
+ * Call the API with the session's access token. A DPoP-bound token is sent with a proof signed with
+ * the session's key. Error responses are returned like any other, challenge or not.
+ */
+async function callApi( req: Request, tokens: TokenSet, path: string, method: string, body?: string ): Promise<globalThis.Response> {
+	const configuration = await ensureConfig();
+	let DPoP: client.DPoPHandle | undefined;
+	if ( tokens.token_type?.toLowerCase() === "dpop" ) {
+		DPoP = getDPoPSession( req );
+		if ( !DPoP ) {
+			throw new Error( "The DPoP key the access token is bound to is gone - refresh the tokens or log in again" );
+		}
+	}
+
+	try {
+		return await client.fetchProtectedResource(
+			configuration,
+			tokens.access_token,
+			new URL( `${ API_BASE_URL }${ path }` ),
+			method,
+			body,
+			new Headers( { "Content-Type": "application/json" } ),
+			{ DPoP }
+		);
+	} catch ( error ) {
+		// openid-client throws for responses with a WWW-Authenticate challenge, such as the API's 401s and 403s
+		if ( error instanceof client.WWWAuthenticateChallengeError ) return error.response;
+		throw error;
+	}
+}
+
+/**
+ * Load the key the app signs its private_key_jwt client assertions with: the first private
+ * signing key in CLIENT_PRIVATE_JWKS. Without it the app authenticates with its client secret.
+ */
+async function loadClientAuthentication(): Promise<client.ClientAuth | undefined> {
+	if ( !CLIENT_PRIVATE_JWKS ) return undefined;
+
+	const parseResult = safeJsonParse( CLIENT_PRIVATE_JWKS, jwksSchema );
+	if ( !parseResult.success ) {
+		throw new Error( `Invalid CLIENT_PRIVATE_JWKS configuration: ${ parseResult.error }` );
+	}
+	const jwk = parseResult.data.keys.find( ( key ) => key.d && key.kty !== "oct" && key.use !== "enc" );
+	if ( !jwk?.alg ) {
+		throw new Error( "Invalid CLIENT_PRIVATE_JWKS configuration: no private signing key with an alg to sign client assertions with" );
+	}
+	if ( FAPI2 && !getFapi2SigningAlgorithm( jwk ) ) {
+		throw new Error( `Invalid CLIENT_PRIVATE_JWKS configuration: FAPI 2.0 client assertions must be signed with ${ FAPI2_SIGNING_ALGORITHMS.join( " or " ) }, not ${ jwk.alg }` );
+	}
+	const key = await importJWK( jwk as JWK, jwk.alg );
+	return client.PrivateKeyJwt( { key: key as CryptoKey, kid: jwk.kid } );
+}
+
+const clientAuthentication = await loadClientAuthentication();
+
+/**
+ * List what the authorization server's metadata lacks for a FAPI 2.0 client
+ */
+function findServerFapi2Violations( metadata: client.ServerMetadata ): string[] {
+	const violations: string[] = [];
+	if ( !metadata.pushed_authorization_request_endpoint ) {
+		violations.push( "It has no pushed authorization request endpoint" );
+	}
+	if ( !metadata.code_challenge_methods_supported?.includes( "S256" ) ) {
+		violations.push( "It doesn't support S256 PKCE" );
+	}
+	// openid-client only insists on the iss parameter in authorization responses when this is advertised
+	if ( metadata.authorization_response_iss_parameter_supported !== true ) {
+		violations.push( "It doesn't advertise the iss parameter in authorization responses" );
+	}
+	if ( !metadata.dpop_signing_alg_values_supported?.includes( "ES256" ) ) {
+		violations.push( "It doesn't accept ES256 DPoP proofs" );
+	}
+	const idTokenAlgorithms = metadata.id_token_signing_alg_values_supported ?? [];
+	if ( idTokenAlgorithms.length === 0 || idTokenAlgorithms.some( ( alg ) => !FAPI2_SIGNING_ALGORITHMS.includes( alg ) ) ) {
+		violations.push( `It may sign ID tokens with ${ idTokenAlgorithms.join( ", " ) || "unadvertised algorithms" }, not only ${ FAPI2_SIGNING_ALGORITHMS.join( " or " ) }` );
+	}
+	return violations;
+}
+
 async function delay( ms: number ) {
 	await new Promise( ( resolve ) => setTimeout( resolve, ms ) );
 }
@@ -131,7 +308,8 @@ async function ensureConfig(): Promise<client.Configuration> {
 	const backoffMs = 1000;
 	configInitPromise = ( async () => {
 		let lastError: unknown = null;
-		for ( let attempt = 1; attempt <= maxAttempts; attempt++ ) {
+		let configuration: client.Configuration | undefined;
+		for ( let attempt = 1; attempt <= maxAttempts && !configuration; attempt++ ) {
 			try {
 				logger.debug( {
 					attempt,
@@ -139,21 +317,28 @@ async function ensureConfig(): Promise<client.Configuration> {
 				}, "Discovering OIDC issuer" );
 				logger.info( "Starting OIDC discovery..." );
 				const issuerUrl = new URL( ISSUER_URL );
-				const configuration = await client.discovery( issuerUrl, CLIENT_ID, CLIENT_SECRET );
-				config = configuration;
-				// Initialize JWKS for ID token verification
-				jwks = createRemoteJWKSet( new URL( `${ ISSUER_URL }/jwks` ) );
-				logger.info( "OIDC discovery completed" );
-				logger.debug( { type: typeof configuration }, "Configuration type" );
-				logger.debug( { configuration }, "Configuration" );
-				return configuration;
+				configuration = await client.discovery( issuerUrl, CLIENT_ID, CLIENT_SECRET, clientAuthentication );
 			} catch ( err ) {
 				lastError = err;
 				logger.warn( { err, attempt }, "Issuer discovery failed, will retry" );
 				await delay( backoffMs );
 			}
 		}
-		throw lastError ?? new Error( "Issuer discovery failed" );
+		if ( !configuration ) {
+			throw lastError ?? new Error( "Issuer discovery failed" );
+		}
+
+		// Not retried: the authorization server is up, but not set up for FAPI 2.0
+		if ( FAPI2 ) {
+			assertFapi2Compliance( "Authorization server", findServerFapi2Violations( configuration.serverMetadata() ) );
+		}
+		config = configuration;
+		// Initialize JWKS for ID token verification
+		jwks = createRemoteJWKSet( new URL( `${ ISSUER_URL }/jwks` ) );
+		logger.info( "OIDC discovery completed" );
+		logger.debug( { type: typeof configuration }, "Configuration type" );
+		logger.debug( { configuration }, "Configuration" );
+		return configuration;
 	} )();
 
 	try {
@@ -186,18 +371,29 @@ app.get( "/login", async ( _req: Request, res: Response ) => {
 		path: "/"
 	} );
 
+	// RFC 9126 - Pushed Authorization Requests
+	// The parameters are pushed to the authorization server over an authenticated back-channel request,
+	// so the browser is only redirected with the request_uri it returned and the client_id
+	//
 	// RFC 8707 - Resource Indicators for OAuth 2.0
 	// The 'resource' parameter specifies the target API (audience) for the access token
 	// This tells the authorization server which resource server the token will be used with
-	const url = client.buildAuthorizationUrl( config, {
-		redirect_uri: REDIRECT_URI,
-		scope: "openid email profile offline_access accounts:read",
-		state,
-		code_challenge,
-		code_challenge_method: "S256",
-		prompt: "login consent",
-		resource: API_AUDIENCE  // Resource indicator - must be absolute URI without fragment
-	} );
+	let url: URL;
+	try {
+		url = await client.buildAuthorizationUrlWithPAR( config, {
+			redirect_uri: REDIRECT_URI,
+			scope: "openid email profile offline_access customers:read accounts:read contact:read tax:read",
+			state,
+			code_challenge,
+			code_challenge_method: "S256",
+			prompt: "login consent",
+			resource: API_AUDIENCE  // Resource indicator - must be absolute URI without fragment
+		} );
+	} catch ( error ) {
+		logError( logger, error, { context: "Pushed authorization request" } );
+		const sanitized = sanitizeError( error, "Pushed authorization request failed" );
+		return res.status( 502 ).json( sanitized );
+	}
 	logger.debug( { url: url.href }, "Authorization URL generated" );
 	res.redirect( url.href );
 } );
@@ -306,6 +502,9 @@ app.get( "/callback", async ( req: Request, res: Response ) => {
 		// Without resource in token exchange, oidc-provider may issue an opaque token
 		// for the UserInfo endpoint instead of a JWT for your API, especially when
 		// the 'openid' scope is present.
+		//
+		// The access token is bound to a new DPoP key pair for this session (RFC 9449), so it is useless
+		// to anyone who gets hold of it without the private key
 		const tokenSet = await client.authorizationCodeGrant(
 			config,
 			currentUrl,
@@ -315,6 +514,9 @@ app.get( "/callback", async ( req: Request, res: Response ) => {
 			},
 			{
 				resource: API_AUDIENCE  // Resource indicator for token exchange (RFC 8707)
+			},
+			{
+				DPoP: await createDPoPSession( req, res, config )
 			}
 		);
 
@@ -323,6 +525,7 @@ app.get( "/callback", async ( req: Request, res: Response ) => {
 			"tokens",
 			JSON.stringify( {
 				access_token: tokenSet.access_token,
+				token_type: tokenSet.token_type,
 				refresh_token: tokenSet.refresh_token,
 				id_token: tokenSet.id_token
 			} ),
@@ -351,7 +554,7 @@ app.post( "/refresh", async ( req: Request, res: Response ) => {
 	}
 
 	try {
-		await ensureConfig();
+		const configuration = await ensureConfig();
 
 		logger.debug( {
 			refreshTokenPrefix: tokens.refresh_token.substring( 0, 10 ),
@@ -359,9 +562,12 @@ app.post( "/refresh", async ( req: Request, res: Response ) => {
 		}, "POST /refresh - Attempting refresh" );
 
 		// Use refreshTokenGrant to exchange refresh token for new tokens
-		// The resource parameter must be included here too for the same reasons as above
-		const tokenSet = await client.refreshTokenGrant( config!, tokens.refresh_token, {
+		// The resource parameter must be included here too for the same reasons as above.
+		// The new access token is bound to the session's DPoP key, or a new one if it was lost in a restart.
+		const tokenSet = await client.refreshTokenGrant( configuration, tokens.refresh_token, {
 			resource: API_AUDIENCE  // Resource indicator for refresh token exchange (RFC 8707)
+		}, {
+			DPoP: getDPoPSession( req ) ?? await createDPoPSession( req, res, configuration )
 		} );
 
 		logger.debug( {
@@ -375,6 +581,7 @@ app.post( "/refresh", async ( req: Request, res: Response ) => {
 			"tokens",
 			JSON.stringify( {
 				access_token: tokenSet.access_token,
+				token_type: tokenSet.token_type,
 				refresh_token: tokenSet.refresh_token || tokens.refresh_token, // Keep old refresh token if no new one
 				id_token: tokenSet.id_token || tokens.id_token // Keep old ID token if no new one
 			} ),
@@ -413,7 +620,8 @@ app.get( "/token", async ( req: Request, res: Response ) => {
 		// Verify the ID token signature and validate claims
 		await jwtVerify( tokens.id_token, jwks, {
 			issuer: ISSUER_URL,
-			audience: CLIENT_ID
+			audience: CLIENT_ID,
+			algorithms: FAPI2 ? FAPI2_SIGNING_ALGORITHMS : undefined
 		} );
 
 		// Decode JWT header and payload for display
@@ -549,17 +757,10 @@ app.post( "/api-call", express.json(), async ( req: Request, res: Response ) =>
 	const { endpoint, method } = validationResult.data;
 
 	try {
-		const accessToken = tokens.access_token as string;
 		// Clean the endpoint by removing any query strings (handled by validation schema)
 		const cleanEndpoint = endpoint.split( "?" )[0].split( "#" )[0];
 
-		const apiResponse = await fetch( `${ API_BASE_URL }${ cleanEndpoint }`, {
-			method,
-			headers: {
-				Authorization: `Bearer ${ accessToken }`,
-				"Content-Type": "application/json"
-			}
-		} );
+		const apiResponse = await callApi( req, tokens, cleanEndpoint, method );
 
 		const contentType = apiResponse.headers.get( "content-type" );
 		let responseData;
@@ -586,6 +787,76 @@ app.post( "/api-call", express.json(), async ( req: Request, res: Response ) =>
 	}
 } );
 
+// Webhook the API delivers notifications to: a compact JWS signed with the API's notification keys.
+// Responds 204 once the signature is verified, so the API records the delivery; anything else is retried.
+app.post( "/notifications/webhook", express.text( { type: "application/jose", limit: "64kb" } ), async ( req: Request, res: Response ) => {
+	const received: ReceivedNotification = { receivedAt: new Date().toISOString(), verified: false };
+	receivedNotifications.unshift( received );
+	receivedNotifications.splice( MAX_RECEIVED_NOTIFICATIONS );
+
+	if ( typeof req.body !== "string" || !req.body ) {
+		received.error = "Expected a compact JWS with Content-Type: application/jose";
+		return res.status( 400 ).json( { error: received.error } );
+	}
+
+	try {
+		const { payload, protectedHeader } = await compactVerify( req.body, notificationJwks );
+		received.verified = true;
+		received.protectedHeader = protectedHeader;
+		received.notification = JSON.parse( new TextDecoder().decode( payload ) );
+		logger.info( { kid: protectedHeader.kid, notification: received.notification }, "Notification received" );
+		return res.status( 204 ).end();
+	} catch ( error ) {
+		received.error = sanitizeError( error, "Invalid notification signature" ).message;
+		logger.warn( { error: received.error }, "Notification rejected" );
+		return res.status( 400 ).json( { error: "Invalid notification signature" } );
+	}
+} );
+
+app.get( "/notifications", async ( req: Request, res: Response ) => {
+	const tokens = parseTokensCookie( ( req as CookieRequest ).cookies["tokens"] );
+	if ( !tokens?.access_token ) return res.redirect( "/login" );
+
+	res.render( "notifications", {
+		tokens,
+		receivedNotifications,
+		notificationSubscriptions,
+		callbackUrl: `${ HOST }/notifications/webhook`,
+		error: null
+	} );
+} );
+
+// Subscribe the webhook to every notification type it isn't subscribed to yet
+app.post( "/notifications/subscribe", async ( req: Request, res: Response ) => {
+	const tokens = parseTokensCookie( ( req as CookieRequest ).cookies["tokens"] );
+	if ( !tokens?.access_token ) return res.redirect( "/login" );
+
+	const callbackUrl = `${ HOST }/notifications/webhook`;
+	try {
+		for ( const type of NOTIFICATION_TYPES ) {
+			if ( notificationSubscriptions.some( ( subscription ) => subscription.type === type ) ) continue;
+
+			const apiResponse = await callApi( req, tokens, "/api/fdx/v6/notification-subscriptions", "POST", JSON.stringify( { type, callbackUrl } ) );
+			const body = await apiResponse.json() as { subscriptionId?: string; message?: string; debugMessage?: string };
+			if ( apiResponse.status !== 201 ) {
+				throw new Error( `Subscribing to ${ type } failed with HTTP ${ apiResponse.status }: ${ body.debugMessage ?? body.message ?? "unknown error" }` );
+			}
+			notificationSubscriptions.push( { subscriptionId: String( body.subscriptionId ), type, callbackUrl } );
+			logger.info( { subscriptionId: body.subscriptionId, type }, "Subscribed to notifications" );
+		}
+		return res.redirect( "/notifications" );
+	} catch ( error ) {
+		logError( logger, error, { context: "Notification subscription" } );
+		return res.status( 502 ).render( "notifications", {
+			tokens,
+			receivedNotifications,
+			notificationSubscriptions,
+			callbackUrl,
+			error: sanitizeError( error, "Failed to subscribe to notifications" ).message
+		} );
+	}
+} );
+
 app.get( "/debug/tokens", async ( req: Request, res: Response ) => {
 	const tokens = parseTokensCookie( ( req as CookieRequest ).cookies["tokens"] );
 
@@ -633,6 +904,7 @@ app.get( "/logout", async ( req: Request, res: Response ) => {
 	// Clear local cookies first
 	res.clearCookie( "tokens", { path: "/" } );
 	res.clearCookie( "oidc", { path: "/" } );
+	deleteDPoPSession( req, res );
 
 	// For now, skip OIDC logout and just do local logout
 	// The complex OIDC logout flow is having issues with the authorization server
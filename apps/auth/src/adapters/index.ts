@@ -0,0 +1,74 @@
+/**
+ * Pluggable storage adapters for oidc-provider
+ *
+ * oidc-provider persists sessions, grants, interactions, authorization codes and
+ * tokens through an adapter. Without one it falls back to an in-memory LRU cache,
+ * so everything is lost when the OP restarts. Select the backend with OIDC_ADAPTER.
+ * The backend also keeps the log of revocations published to the API (see ../revocations).
+ */
+
+import type { Logger } from "pino";
+import { getOptionalEnv } from "@apps/shared";
+import { createMemoryRevocationList, type RevocationList } from "../revocations.js";
+
+/**
+ * Payload stored for each oidc-provider model instance
+ */
+export interface AdapterPayload {
+	[key: string]: unknown;
+	grantId?: string;
+	userCode?: string;
+	uid?: string;
+	consumed?: number;
+}
+
+/**
+ * The oidc-provider Adapter interface
+ * One instance is created per model name (Session, Grant, AccessToken, RefreshToken, ...)
+ */
+export interface OIDCAdapter {
+	upsert( id: string, payload: AdapterPayload, expiresIn?: number ): Promise<void>;
+	find( id: string ): Promise<AdapterPayload | undefined>;
+	findByUserCode( userCode: string ): Promise<AdapterPayload | undefined>;
+	findByUid( uid: string ): Promise<AdapterPayload | undefined>;
+	consume( id: string ): Promise<void>;
+	destroy( id: string ): Promise<void>;
+	revokeByGrantId( grantId: string ): Promise<void>;
+}
+
+export type OIDCAdapterConstructor = new ( model: string ) => OIDCAdapter;
+
+/**
+ * What the selected backend stores: the adapter for oidc-provider's models, undefined for its
+ * built-in memory adapter, and the revocation log kept alongside them
+ */
+export interface OIDCStorage {
+	adapter?: OIDCAdapterConstructor;
+	revocations: RevocationList;
+}
+
+export const ADAPTER_TYPES = [ "memory", "sqlite" ] as const;
+
+export type AdapterType = typeof ADAPTER_TYPES[number];
+
+/**
+ * Create the storage selected by the OIDC_ADAPTER environment variable.
+ * Leaves out the adapter for "memory" so oidc-provider uses its built-in memory adapter.
+ */
+export async function createStorage( logger: Logger ): Promise<OIDCStorage> {
+	const type = getOptionalEnv( "OIDC_ADAPTER", "memory" ) as AdapterType;
+	if ( !ADAPTER_TYPES.includes( type ) ) {
+		throw new Error( `Invalid OIDC_ADAPTER "${ type }": expected one of ${ ADAPTER_TYPES.join( ", " ) }` );
+	}
+
+	if ( type === "sqlite" ) {
+		// Loaded lazily so the experimental node:sqlite module is only used when selected
+		const { createSqliteStorage } = await import( "./sqlite.js" );
+		const filename = getOptionalEnv( "OIDC_SQLITE_PATH", "oidc.sqlite" );
+		logger.info( { filename }, "Using SQLite oidc-provider adapter" );
+		return createSqliteStorage( filename );
+	}
+
+	logger.warn( "Using in-memory oidc-provider adapter - sessions, grants, tokens and revocations are lost on restart" );
+	return { revocations: createMemoryRevocationList() };
+}
@@ -0,0 +1,202 @@
+/**
+ * SQLite-backed oidc-provider adapter
+ *
+ * Uses the node:sqlite module built into Node.js 22, so no native dependency is needed.
+ * The database runs in WAL mode, which lets several OP processes on the same host
+ * share one database file. It also holds the revocation log, whose sequence numbers come from
+ * the database, so every process sharing the file appends to and publishes the same log.
+ */
+
+import { DatabaseSync } from "node:sqlite";
+import { randomUUID } from "crypto";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import type { AdapterPayload, OIDCAdapter, OIDCStorage } from "./index.js";
+import type { Revocation, RevocationList } from "../revocations.js";
+
+// Models whose instances belong to a grant and are removed by revokeByGrantId
+const GRANTABLE_MODELS = new Set( [
+	"AccessToken",
+	"AuthorizationCode",
+	"RefreshToken",
+	"DeviceCode",
+	"BackchannelAuthenticationRequest"
+] );
+
+// How often expired rows are purged
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+const SCHEMA = `
+	CREATE TABLE IF NOT EXISTS oidc_models (
+		model TEXT NOT NULL,
+		id TEXT NOT NULL,
+		payload TEXT NOT NULL,
+		grant_id TEXT,
+		user_code TEXT,
+		uid TEXT,
+		expires_at INTEGER,
+		consumed_at INTEGER,
+		PRIMARY KEY ( model, id )
+	);
+	CREATE INDEX IF NOT EXISTS oidc_models_grant_id ON oidc_models ( grant_id );
+	CREATE INDEX IF NOT EXISTS oidc_models_user_code ON oidc_models ( model, user_code );
+	CREATE INDEX IF NOT EXISTS oidc_models_uid ON oidc_models ( model, uid );
+	CREATE INDEX IF NOT EXISTS oidc_models_expires_at ON oidc_models ( expires_at );
+	CREATE TABLE IF NOT EXISTS oidc_revocations (
+		sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+		type TEXT NOT NULL,
+		id TEXT NOT NULL,
+		revoked_at INTEGER NOT NULL,
+		expires_at INTEGER NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS oidc_revocations_id ON oidc_revocations ( type, id );
+	CREATE INDEX IF NOT EXISTS oidc_revocations_expires_at ON oidc_revocations ( expires_at );
+	CREATE TABLE IF NOT EXISTS oidc_metadata (
+		key TEXT PRIMARY KEY,
+		value TEXT NOT NULL
+	);
+`;
+
+interface PayloadRow {
+	payload: string;
+	consumed_at: number | null;
+}
+
+interface RevocationRow {
+	sequence: number;
+	type: Revocation["type"];
+	id: string;
+	revoked_at: number;
+	expires_at: number;
+}
+
+function epochTime(): number {
+	return Math.floor( Date.now() / 1000 );
+}
+
+function toRevocation( row: unknown ): Revocation {
+	const { sequence, type, id, revoked_at, expires_at } = row as RevocationRow;
+	return { sequence, type, id, revokedAt: revoked_at, expiresAt: expires_at };
+}
+
+/**
+ * Open (or create) the SQLite database and return an adapter class and a revocation log bound to it
+ */
+export function createSqliteStorage( filename: string ): OIDCStorage {
+	if ( filename !== ":memory:" ) {
+		mkdirSync( dirname( filename ), { recursive: true } );
+	}
+
+	const db = new DatabaseSync( filename );
+	db.exec( "PRAGMA journal_mode = WAL;" );
+	db.exec( "PRAGMA busy_timeout = 5000;" );
+	db.exec( SCHEMA );
+
+	const statements = {
+		upsert: db.prepare( `
+			INSERT INTO oidc_models ( model, id, payload, grant_id, user_code, uid, expires_at, consumed_at )
+			VALUES ( ?, ?, ?, ?, ?, ?, ?, NULL )
+			ON CONFLICT ( model, id ) DO UPDATE SET
+				payload = excluded.payload,
+				grant_id = excluded.grant_id,
+				user_code = excluded.user_code,
+				uid = excluded.uid,
+				expires_at = excluded.expires_at
+		` ),
+		find: db.prepare( "SELECT payload, consumed_at FROM oidc_models WHERE model = ? AND id = ? AND ( expires_at IS NULL OR expires_at > ? )" ),
+		findByUserCode: db.prepare( "SELECT payload, consumed_at FROM oidc_models WHERE model = ? AND user_code = ? AND ( expires_at IS NULL OR expires_at > ? )" ),
+		findByUid: db.prepare( "SELECT payload, consumed_at FROM oidc_models WHERE model = ? AND uid = ? AND ( expires_at IS NULL OR expires_at > ? )" ),
+		consume: db.prepare( "UPDATE oidc_models SET consumed_at = ? WHERE model = ? AND id = ?" ),
+		destroy: db.prepare( "DELETE FROM oidc_models WHERE model = ? AND id = ?" ),
+		revokeByGrantId: db.prepare( "DELETE FROM oidc_models WHERE grant_id = ?" ),
+		purgeExpired: db.prepare( "DELETE FROM oidc_models WHERE expires_at IS NOT NULL AND expires_at <= ?" ),
+		addRevocation: db.prepare( "INSERT INTO oidc_revocations ( type, id, revoked_at, expires_at ) VALUES ( ?, ?, ?, ? ) RETURNING *" ),
+		hasRevocation: db.prepare( "SELECT 1 FROM oidc_revocations WHERE type = ? AND id = ? AND expires_at > ? LIMIT 1" ),
+		revocationsAfter: db.prepare( "SELECT * FROM oidc_revocations WHERE sequence > ? AND expires_at > ? ORDER BY sequence" ),
+		purgeRevocations: db.prepare( "DELETE FROM oidc_revocations WHERE expires_at <= ?" )
+	};
+
+	function purge(): void {
+		statements.purgeExpired.run( epochTime() );
+		statements.purgeRevocations.run( epochTime() );
+	}
+
+	purge();
+	setInterval( purge, PURGE_INTERVAL_MS ).unref();
+
+	// Created along with the database; a new ID tells the API a new log started
+	db.prepare( "INSERT OR IGNORE INTO oidc_metadata ( key, value ) VALUES ( 'revocation_log_id', ? )" ).run( randomUUID() );
+	const { value: logId } = db.prepare( "SELECT value FROM oidc_metadata WHERE key = 'revocation_log_id'" ).get() as { value: string };
+
+	function toPayload( row: unknown ): AdapterPayload | undefined {
+		if ( !row ) return undefined;
+		const { payload, consumed_at } = row as PayloadRow;
+		return {
+			...JSON.parse( payload ),
+			...( consumed_at ? { consumed: consumed_at } : {} )
+		};
+	}
+
+	const revocations: RevocationList = {
+		logId,
+
+		async add( type, id, expiresAt ) {
+			return toRevocation( statements.addRevocation.get( type, id, epochTime(), expiresAt ) );
+		},
+
+		async has( type, id ) {
+			return statements.hasRevocation.get( type, id, epochTime() ) !== undefined;
+		},
+
+		async after( sequence ) {
+			return statements.revocationsAfter.all( sequence, epochTime() ).map( toRevocation );
+		}
+	};
+
+	const adapter = class SqliteAdapter implements OIDCAdapter {
+		private readonly model: string;
+
+		constructor( model: string ) {
+			this.model = model;
+		}
+
+		async upsert( id: string, payload: AdapterPayload, expiresIn?: number ): Promise<void> {
+			const grantId = GRANTABLE_MODELS.has( this.model ) ? payload.grantId ?? null : null;
+			statements.upsert.run(
+				this.model,
+				id,
+				JSON.stringify( payload ),
+				grantId,
+				payload.userCode ?? null,
+				payload.uid ?? null,
+				expiresIn ? epochTime() + expiresIn : null
+			);
+		}
+
+		async find( id: string ): Promise<AdapterPayload | undefined> {
+			return toPayload( statements.find.get( this.model, id, epochTime() ) );
+		}
+
+		async findByUserCode( userCode: string ): Promise<AdapterPayload | undefined> {
+			return toPayload( statements.findByUserCode.get( this.model, userCode, epochTime() ) );
+		}
+
+		async findByUid( uid: string ): Promise<AdapterPayload | undefined> {
+			return toPayload( statements.findByUid.get( this.model, uid, epochTime() ) );
+		}
+
+		async consume( id: string ): Promise<void> {
+			statements.consume.run( epochTime(), this.model, id );
+		}
+
+		async destroy( id: string ): Promise<void> {
+			statements.destroy.run( this.model, id );
+		}
+
+		async revokeByGrantId( grantId: string ): Promise<void> {
+			statements.revokeByGrantId.run( grantId );
+		}
+	};
+
+	return { adapter, revocations };
+}
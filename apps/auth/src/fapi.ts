@@ -0,0 +1,81 @@
+/**
+ * FAPI 2.0 Security Profile checks for the authorization server
+ *
+ * With SECURITY_PROFILE=fapi2 the provider itself enforces PAR, S256 PKCE, short-lived
+ * authorization codes and PS256/ES256 signatures. What it can't enforce on its own is that the
+ * clients and keys it's given fit the profile, which is checked here before it starts.
+ */
+
+import {
+	getFapi2SigningAlgorithm,
+	isHttpsUrl,
+	type JWKSConfig,
+	type OIDCClientConfig
+} from "@apps/shared";
+
+export interface Fapi2ConfigurationOptions {
+	issuer: string;
+	clients: OIDCClientConfig[];
+	jwks: JWKSConfig | undefined;  // The provider's signing keys
+	mtlsEnabled: boolean;
+}
+
+// FAPI 2.0 section 5.3.2.1: confidential clients authenticating with asymmetric keys only
+const PRIVATE_KEY_JWT = "private_key_jwt";
+const MTLS_AUTH_METHODS = [ "tls_client_auth", "self_signed_tls_client_auth" ];
+
+/**
+ * The algorithm the provider signs ID tokens and JWT access tokens with in FAPI 2.0 mode:
+ * that of its first signing key that allows one
+ */
+export function getFapi2TokenSigningAlgorithm( jwks: JWKSConfig | undefined ): string | undefined {
+	for ( const key of jwks?.keys ?? [] ) {
+		const alg = getFapi2SigningAlgorithm( key );
+		if ( alg ) return alg;
+	}
+	return undefined;
+}
+
+/**
+ * List everything about the configuration that breaks the FAPI 2.0 profile
+ */
+export function findFapi2Violations( options: Fapi2ConfigurationOptions ): string[] {
+	const violations: string[] = [];
+
+	if ( !isHttpsUrl( options.issuer ) ) {
+		violations.push( `OP_ISSUER must be an https URL, got ${ options.issuer }` );
+	}
+	if ( !options.jwks ) {
+		violations.push( "JWKS must be configured; the ephemeral development keys can't sign with PS256 or ES256" );
+	} else if ( !getFapi2TokenSigningAlgorithm( options.jwks ) ) {
+		violations.push( "JWKS must contain a signing key for PS256 (RSA, at least 2048 bits) or ES256 (EC P-256)" );
+	}
+
+	for ( const client of options.clients ) {
+		const name = `Client "${ client.client_id }"`;
+		const authMethod = client.token_endpoint_auth_method ?? "client_secret_basic";
+		const mtlsAuthentication = MTLS_AUTH_METHODS.includes( authMethod );
+
+		if ( authMethod !== PRIVATE_KEY_JWT && !mtlsAuthentication ) {
+			violations.push( `${ name } must authenticate with private_key_jwt, tls_client_auth or self_signed_tls_client_auth, not ${ authMethod }` );
+		} else if ( mtlsAuthentication && !options.mtlsEnabled ) {
+			violations.push( `${ name } authenticates with ${ authMethod }, which needs OP_MTLS_ENABLED=true` );
+		}
+
+		const certificateBound = client.tls_client_certificate_bound_access_tokens && options.mtlsEnabled;
+		if ( !client.dpop_bound_access_tokens && !certificateBound ) {
+			violations.push( `${ name } must get sender-constrained access tokens: set dpop_bound_access_tokens, or tls_client_certificate_bound_access_tokens with OP_MTLS_ENABLED=true` );
+		}
+
+		if ( client.response_types.some( ( type ) => type !== "code" ) ) {
+			violations.push( `${ name } may only use the "code" response type, not ${ client.response_types.join( ", " ) }` );
+		}
+
+		const insecureRedirectUris = client.redirect_uris.filter( ( uri ) => !isHttpsUrl( uri ) );
+		if ( insecureRedirectUris.length > 0 ) {
+			violations.push( `${ name } redirect URIs must be https URLs, not ${ insecureRedirectUris.join( ", " ) }` );
+		}
+	}
+
+	return violations;
+}
@@ -1,5 +1,5 @@
 import "dotenv/config";
-import express, { Request, Response } from "express";
+import express, { Request, Response, NextFunction } from "express";
 import { Provider, errors } from "oidc-provider";
 import { readFileSync, existsSync } from "fs";
 import { resolve } from "path";
@@ -7,14 +7,19 @@ import {
 	logError,
 	getRequiredEnv,
 	getRequiredEnvNumber,
+	getOptionalEnv,
+	getEnvBoolean,
 	createLogger,
 	createWebSecurityHeaders,
 	setupBasicExpress,
 	setupEJSTemplates
 } from "@apps/shared";
+import { assertFapi2Compliance, getSecurityProfile, FAPI2_SIGNING_ALGORITHMS } from "@apps/shared/securityProfiles";
 import {
 	loginSchema,
+	consentSchema,
 	interactionUidSchema,
+	consentIdSchema,
 	oidcClientsSchema,
 	jwksSchema,
 	safeJsonParse,
@@ -22,7 +27,19 @@ import {
 	formatZodError,
 	type OIDCClientConfig as BaseOIDCClientConfig
 } from "@apps/shared/validation";
+import {
+	API_SCOPES,
+	API_SCOPE_DEFINITIONS,
+	DATA_CLUSTER_DEFINITIONS,
+	isApiScope,
+	requiresAccountSelection
+} from "@apps/shared/dataClusters";
+import { DEFAULT_CLIENT_CERT_HEADER } from "@apps/shared/clientCertificates";
 import { timingSafeEqual } from "crypto";
+import { createStorage } from "./adapters/index.js";
+import { createJwtAccessTokens, isJwt } from "./jwtAccessTokens.js";
+import { createMtlsHelpers, loadTrustedCertificates } from "./mtls.js";
+import { findFapi2Violations, getFapi2TokenSigningAlgorithm } from "./fapi.js";
 
 // Create logger for OP service
 // Debug logging can be enabled by setting LOG_LEVEL=debug in your .env file
@@ -43,6 +60,60 @@ const ISSUER = getRequiredEnv( "OP_ISSUER", "https://id.localtest.me" );
 const PORT = getRequiredEnvNumber( "OP_PORT", 3001 );
 const API_AUDIENCE = getRequiredEnv( "API_AUDIENCE", "api://my-api" );
 
+// API scopes come from the data cluster registry shared with the FDX resource server
+const SUPPORTED_SCOPES = [ "openid", "profile", "email", "offline_access", ...API_SCOPES ];
+
+// Consent screen descriptions of the OpenID Connect scopes; API scopes are described by the registry
+const OIDC_SCOPE_DESCRIPTIONS: Record<string, string> = {
+	openid: "Basic identity",
+	profile: "Profile information",
+	email: "Email address",
+	offline_access: "Offline access (refresh tokens)"
+};
+
+// Access token claim carrying the account IDs the user consented to share
+const CONSENTED_ACCOUNTS_CLAIM = "account_ids";
+
+// Grant property persisting the consented account IDs
+const GRANT_ACCOUNTS_PROPERTY = "consentedAccounts";
+
+// Access token claim carrying the grant ID, which the API serves as the FDX consent ID
+const CONSENT_ID_CLAIM = "consent_id";
+
+// Shared secret the API presents to read and revoke grants and to read revocations;
+// the /grants and /revocations endpoints are disabled without it
+const CONSENT_API_SECRET = getOptionalEnv( "CONSENT_API_SECRET", "" );
+
+// Resource server client the API authenticates as to introspect access tokens; introspection is disabled without a secret
+const INTROSPECTION_CLIENT_ID = getRequiredEnv( "API_INTROSPECTION_CLIENT_ID", "api-introspection" );
+const INTROSPECTION_CLIENT_SECRET = getOptionalEnv( "API_INTROSPECTION_CLIENT_SECRET", "" );
+
+// Format of the access tokens issued for the API: JWTs the API can verify on its own,
+// or opaque tokens it has to introspect
+const ACCESS_TOKEN_FORMATS = [ "jwt", "opaque" ] as const;
+const ACCESS_TOKEN_FORMAT = getOptionalEnv( "OP_ACCESS_TOKEN_FORMAT", "jwt" ) as typeof ACCESS_TOKEN_FORMATS[number];
+if ( !ACCESS_TOKEN_FORMATS.includes( ACCESS_TOKEN_FORMAT ) ) {
+	throw new Error( `Invalid OP_ACCESS_TOKEN_FORMAT "${ ACCESS_TOKEN_FORMAT }": expected one of ${ ACCESS_TOKEN_FORMATS.join( ", " ) }` );
+}
+
+// Lifetime of access tokens, so also how long a revoked grant's tokens can still be around
+const ACCESS_TOKEN_TTL = 60 * 60;  // 1 hour
+
+// Mutual TLS client authentication and certificate-bound access tokens (RFC 8705). The reverse proxy
+// forwards the client certificate in a header, so the OP must not be reachable other than through it.
+const MTLS_ENABLED = getEnvBoolean( "OP_MTLS_ENABLED", false );
+const MTLS_CLIENT_CERT_HEADER = getOptionalEnv( "MTLS_CLIENT_CERT_HEADER", DEFAULT_CLIENT_CERT_HEADER );
+// Confirms the deployment keeps the OP behind the proxy, so the header can be trusted
+const MTLS_TRUST_PROXY_HEADER = getEnvBoolean( "MTLS_TRUST_PROXY_HEADER", false );
+if ( MTLS_ENABLED && !MTLS_TRUST_PROXY_HEADER ) {
+	throw new Error( `OP_MTLS_ENABLED needs MTLS_TRUST_PROXY_HEADER=true, set once the OP is only reachable through the reverse proxy that sets ${ MTLS_CLIENT_CERT_HEADER }` );
+}
+// PEM file with the CAs that issue tls_client_auth client certificates
+const MTLS_CA_FILE = getOptionalEnv( "OP_MTLS_CA_FILE", "" );
+
+// FAPI 2.0 Security Profile, switched on for the OP, the API and the app together with SECURITY_PROFILE=fapi2
+const FAPI2 = getSecurityProfile() === "fapi2";
+
 // Load clients from environment variable, file, or defaults with schema validation
 function loadOIDCClients() {
 	let source: string;
@@ -82,16 +153,27 @@ function loadOIDCClients() {
 	}
 
 	// 3. Fall back to single client from env vars (no validation needed - simple defaults)
+	// With CLIENT_JWKS (the client's public keys) it authenticates with private_key_jwt instead of a secret
 	logger.info( "Loading single OIDC client from CLIENT_ID/CLIENT_SECRET env vars" );
+	let clientJwks: unknown;
+	if ( process.env.CLIENT_JWKS ) {
+		const jwksResult = safeJsonParse( process.env.CLIENT_JWKS, jwksSchema );
+		if ( !jwksResult.success ) {
+			throw new Error( `Invalid CLIENT_JWKS configuration: ${ jwksResult.error }` );
+		}
+		clientJwks = jwksResult.data;
+	}
+	const clientAuthentication = clientJwks
+		? { jwks: clientJwks, token_endpoint_auth_method: "private_key_jwt" }
+		: { client_secret: getRequiredEnv( "CLIENT_SECRET", "dev-secret" ), token_endpoint_auth_method: "client_secret_basic" };
 	const rawClients = [
 		{
 			client_id: getRequiredEnv( "CLIENT_ID", "dev-rp" ),
-			client_secret: getRequiredEnv( "CLIENT_SECRET", "dev-secret" ),
 			redirect_uris: [ getRequiredEnv( "REDIRECT_URI", "https://app.localtest.me/callback" ) ],
 			post_logout_redirect_uris: [ "https://app.localtest.me" ],
 			grant_types: [ "authorization_code", "refresh_token" ],
 			response_types: [ "code" ],
-			token_endpoint_auth_method: "client_secret_basic"
+			...clientAuthentication
 		}
 	];
 
@@ -130,6 +212,18 @@ function loadJWKS() {
 
 const JWKS = loadJWKS();
 
+// Refuse to start with clients or keys that don't fit the FAPI 2.0 profile, which the provider can't enforce itself
+if ( FAPI2 ) {
+	assertFapi2Compliance( "Authorization server", findFapi2Violations( {
+		issuer: ISSUER,
+		clients: OIDC_CLIENTS,
+		jwks: JWKS,
+		mtlsEnabled: MTLS_ENABLED
+	} ) );
+}
+// ID tokens and JWT access tokens are signed with this in FAPI 2.0 mode, instead of the default RS256
+const FAPI2_TOKEN_SIGNING_ALG = FAPI2 ? getFapi2TokenSigningAlgorithm( JWKS ) : undefined;
+
 // Extend the validated client config type with optional force_refresh_token flag
 interface OIDCClientConfig extends BaseOIDCClientConfig {
 	force_refresh_token?: boolean;
@@ -142,13 +236,28 @@ const FORCE_REFRESH_CLIENT_ID_SET = new Set<string>(
 		.map( ( c: OIDCClientConfig ) => String( c.client_id ) )
 );
 
-const SANITIZED_CLIENTS = OIDC_CLIENTS.map( ( c: OIDCClientConfig ) => {
+const SANITIZED_CLIENTS: object[] = OIDC_CLIENTS.map( ( c: OIDCClientConfig ) => {
 	// Remove internal flags not recognized by oidc-provider
-	// eslint-disable-next-line @typescript-eslint/no-unused-vars, no-unused-vars
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
 	const { force_refresh_token, ...rest } = c;
 	return rest;
 } );
 
+// The introspection client is a resource server: it can't be used to obtain tokens, only to introspect them
+if ( INTROSPECTION_CLIENT_SECRET ) {
+	if ( OIDC_CLIENTS.some( ( c ) => c.client_id === INTROSPECTION_CLIENT_ID ) ) {
+		throw new Error( `API_INTROSPECTION_CLIENT_ID "${ INTROSPECTION_CLIENT_ID }" is already used by an OIDC client` );
+	}
+	SANITIZED_CLIENTS.push( {
+		client_id: INTROSPECTION_CLIENT_ID,
+		client_secret: INTROSPECTION_CLIENT_SECRET,
+		redirect_uris: [],
+		grant_types: [],
+		response_types: [],
+		token_endpoint_auth_method: "client_secret_basic"
+	} );
+}
+
 const app = express();
 setupBasicExpress( app );
 
@@ -192,6 +301,56 @@ const USERS = new Map<
 	]
 ] );
 
+// Accounts each user holds, shown in the consent account picker
+// Mirrors the customer account ownership in apps/api/src/data/customers.ts
+interface UserAccount {
+	accountId: string;
+	nickname: string;
+	accountNumberDisplay: string;
+}
+
+const USER_ACCOUNTS = new Map<string, UserAccount[]>( [
+	[
+		"user_123",
+		[
+			{ accountId: "account-123", nickname: "My Checking", accountNumberDisplay: "0123" },
+			{ accountId: "account-456", nickname: "Emergency Fund", accountNumberDisplay: "0456" },
+			{ accountId: "account-789", nickname: "House Down Payment", accountNumberDisplay: "0789" },
+			{ accountId: "account-101", nickname: "Home Escrow", accountNumberDisplay: "0101" },
+			{ accountId: "account-202", nickname: "Investment Buffer", accountNumberDisplay: "0202" },
+			{ accountId: "account-303", nickname: "Rainy Day Fund", accountNumberDisplay: "0303" },
+			{ accountId: "account-404", nickname: "Dream Home", accountNumberDisplay: "0404" },
+			{ accountId: "account-505", nickname: "Vacation Club", accountNumberDisplay: "0505" },
+			{ accountId: "account-601", nickname: "Rewards Card", accountNumberDisplay: "4532" },
+			{ accountId: "account-602", nickname: "Home Loan", accountNumberDisplay: "9876" },
+			{ accountId: "account-603", nickname: "Car Payment", accountNumberDisplay: "1234" },
+			{ accountId: "account-701", nickname: "Brokerage", accountNumberDisplay: "7701" },
+			{ accountId: "account-702", nickname: "Retirement", accountNumberDisplay: "7702" }
+		]
+	],
+	[ "user_456", [] ]
+] );
+
+/**
+ * Get the accounts a user can share at consent time
+ */
+function getUserAccounts( userId: string | undefined ): UserAccount[] {
+	return userId ? USER_ACCOUNTS.get( userId ) ?? [] : [];
+}
+
+/**
+ * Describe the requested scopes for the consent screen, with the data clusters each API scope shares
+ */
+function describeScopes( scopes: string[] ): { scope: string; description: string; dataClusters: string[] }[] {
+	return scopes.map( ( scope ) => isApiScope( scope )
+		? {
+			scope,
+			description: API_SCOPE_DEFINITIONS[scope].description,
+			dataClusters: API_SCOPE_DEFINITIONS[scope].dataClusters.map( ( cluster ) => DATA_CLUSTER_DEFINITIONS[cluster].description )
+		}
+		: { scope, description: OIDC_SCOPE_DESCRIPTIONS[scope] ?? "Additional permissions", dataClusters: [] } );
+}
+
 /**
  * Timing-safe password comparison to prevent timing attacks.
  * Always compares full strings even if they differ in length.
@@ -212,6 +371,40 @@ function secureComparePasswords( provided: string, stored: string ): boolean {
 	}
 }
 
+/**
+ * Only let the API through to the grant and revocation endpoints: it authenticates with the
+ * shared CONSENT_API_SECRET as a bearer token.
+ */
+function requireConsentApiSecret( req: Request, res: Response, next: NextFunction ) {
+	const [ scheme, credentials ] = ( req.headers.authorization ?? "" ).split( " " );
+	if ( scheme?.toLowerCase() !== "bearer" || !credentials || !secureComparePasswords( credentials, CONSENT_API_SECRET ) ) {
+		logger.warn( { path: sanitizeForLogging( req.path ) }, "Grant endpoint - Invalid or missing consent API secret" );
+		res.set( "WWW-Authenticate", "Bearer" );
+		return res.status( 401 ).json( { error: "invalid_token", error_description: "Missing or invalid consent API secret" } );
+	}
+	next();
+}
+
+/**
+ * Check whether a request authenticates as the introspection client with HTTP Basic (client_secret_basic)
+ */
+function isIntrospectionClient( req: Request ): boolean {
+	const [ scheme, credentials ] = ( req.headers.authorization ?? "" ).split( " " );
+	if ( scheme?.toLowerCase() !== "basic" || !credentials ) return false;
+
+	// RFC 6749 section 2.3.1: the client ID and secret are form-encoded before being joined
+	const decoded = Buffer.from( credentials, "base64" ).toString( "utf8" );
+	const separator = decoded.indexOf( ":" );
+	if ( separator === -1 ) return false;
+	try {
+		const [ clientId, clientSecret ] = [ decoded.slice( 0, separator ), decoded.slice( separator + 1 ) ]
+			.map( ( part ) => decodeURIComponent( part.replace( /\+/g, " " ) ) );
+		return clientId === INTROSPECTION_CLIENT_ID && secureComparePasswords( clientSecret, INTROSPECTION_CLIENT_SECRET );
+	} catch {
+		return false;
+	}
+}
+
 /**
  * Validate interaction UID path parameter.
  * Accepts string or string[] to handle Express req.params union types.
@@ -236,12 +429,43 @@ const configuration: any = {
 		email: [ "email" ],
 		offline_access: []
 	},
-	scopes: [ "openid", "profile", "email", "offline_access", "accounts:read" ],
-	pkce: { methods: [ "S256" ], required: () => false },
+	scopes: SUPPORTED_SCOPES,
+	// PKCE is optional, except in FAPI 2.0 mode
+	pkce: { methods: [ "S256" ], required: () => FAPI2 },
+	// oidc-provider's default client authentication methods, plus the mutual TLS ones when enabled
+	clientAuthMethods: [
+		"client_secret_basic",
+		"client_secret_jwt",
+		"client_secret_post",
+		"private_key_jwt",
+		"none",
+		...( MTLS_ENABLED ? [ "tls_client_auth", "self_signed_tls_client_auth" ] : [] )
+	],
+	// FAPI 2.0 mode: PS256 and ES256 signatures only, and refresh tokens that aren't rotated (section 5.3.2.1).
+	// Refresh tokens are bound to the client they were issued to, which has to authenticate with a key to use them.
+	...( FAPI2 ? {
+		enabledJWA: {
+			clientAuthSigningAlgValues: FAPI2_SIGNING_ALGORITHMS,
+			idTokenSigningAlgValues: FAPI2_SIGNING_ALGORITHMS,
+			requestObjectSigningAlgValues: FAPI2_SIGNING_ALGORITHMS,
+			userinfoSigningAlgValues: FAPI2_SIGNING_ALGORITHMS,
+			introspectionSigningAlgValues: FAPI2_SIGNING_ALGORITHMS,
+			authorizationSigningAlgValues: FAPI2_SIGNING_ALGORITHMS,
+			dPoPSigningAlgValues: FAPI2_SIGNING_ALGORITHMS
+		},
+		clientDefaults: {
+			grant_types: [ "authorization_code" ],
+			id_token_signed_response_alg: FAPI2_TOKEN_SIGNING_ALG,
+			response_types: [ "code" ],
+			token_endpoint_auth_method: "private_key_jwt"
+		},
+		rotateRefreshToken: false
+	} : {} ),
 	ttl: {
 		Session: 24 * 60 * 60,        // 1 day
+		AuthorizationCode: 60,        // 1 minute, the most FAPI 2.0 allows
 		Grant: 365 * 24 * 60 * 60,    // 1 year
-		AccessToken: 60 * 60,          // 1 hour
+		AccessToken: ACCESS_TOKEN_TTL,
 		IdToken: 60 * 60,              // 1 hour
 		RefreshToken: 14 * 24 * 60 * 60 // 14 days
 	},
@@ -272,8 +496,72 @@ const configuration: any = {
 
 		return willIssue;
 	},
+	// Add the consented account IDs stored on the grant to access tokens
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	extraTokenClaims: async ( ctx: any, token: any ) => {
+		if ( !token.grantId || !ctx?.oidc ) return undefined;
+
+		const grant = await ctx.oidc.provider.Grant.find( token.grantId );
+		const accountIds = grant?.[GRANT_ACCOUNTS_PROPERTY] as string[] | undefined;
+
+		logger.debug( {
+			grantId: token.grantId,
+			accountIds
+		}, "extraTokenClaims - Adding consent ID and consented accounts" );
+
+		return {
+			[CONSENT_ID_CLAIM]: token.grantId,
+			...( accountIds && { [CONSENTED_ACCOUNTS_CLAIM]: accountIds } )
+		};
+	},
 	features: {
 		devInteractions: { enabled: false }, // we provide our own interactions
+		fapi: {
+			// FAPI 2.0 behaviors oidc-provider has no separate switches for, such as requiring PKCE and
+			// client assertions whose audience is the issuer
+			enabled: FAPI2,
+			profile: "2.0"
+		},
+		mTLS: {
+			// RFC 8705 - tls_client_auth and self_signed_tls_client_auth client authentication, and access
+			// tokens bound to the client certificate (cnf.x5t#S256) for clients with
+			// tls_client_certificate_bound_access_tokens
+			enabled: MTLS_ENABLED,
+			tlsClientAuth: MTLS_ENABLED,
+			selfSignedTlsClientAuth: MTLS_ENABLED,
+			certificateBoundAccessTokens: MTLS_ENABLED,
+			...createMtlsHelpers( {
+				header: MTLS_CLIENT_CERT_HEADER,
+				trustedCertificates: MTLS_ENABLED && MTLS_CA_FILE ? loadTrustedCertificates( MTLS_CA_FILE ) : []
+			} )
+		},
+		dPoP: {
+			// RFC 9449 - DPoP. Access tokens requested with a DPoP proof are bound to the client's key
+			// (cnf.jkt), and the API only accepts them along with a proof signed with that key.
+			// Clients with dpop_bound_access_tokens can't get any other kind.
+			enabled: true,
+			allowReplay: false
+		},
+		pushedAuthorizationRequests: {
+			// RFC 9126 - Pushed Authorization Requests. Clients may push the authorization request to the
+			// authenticated /request endpoint and send only the request_uri it returns through the browser.
+			// Clients with require_pushed_authorization_requests must, and in FAPI 2.0 mode all of them.
+			enabled: true,
+			requirePushedAuthorizationRequests: FAPI2,
+			allowUnregisteredRedirectUris: false
+		},
+		introspection: {
+			// RFC 7662 - Token Introspection, for the API to validate opaque access tokens
+			enabled: !!INTROSPECTION_CLIENT_SECRET,
+			// Only the resource server may learn what a token grants
+			allowedPolicy: async ( _ctx: unknown, client: { clientId: string } ) => client.clientId === INTROSPECTION_CLIENT_ID
+		},
+		revocation: {
+			// RFC 7009 - Token Revocation. Clients may only revoke their own tokens; anyone else's are
+			// left alone with the same response, so it can't be used to probe for valid tokens.
+			enabled: true,
+			allowedPolicy: async ( _ctx: unknown, client: { clientId: string }, token: { clientId: string } ) => token.clientId === client.clientId
+		},
 		rpInitiatedLogout: {
 			enabled: true,
 			logoutSource: async ( _ctx: unknown, form: string ) => {
@@ -298,6 +586,7 @@ const configuration: any = {
 			// RFC 8707 - Resource Indicators for OAuth 2.0
 			// This feature is REQUIRED to issue JWT access tokens in oidc-provider v7+
 			// Without this, all access tokens will be opaque (random strings)
+			// (OP_ACCESS_TOKEN_FORMAT=opaque asks for those on purpose, for introspection)
 			enabled: true,
 
 			// defaultResource: Called during authorization when client doesn't provide resource parameter
@@ -317,7 +606,7 @@ const configuration: any = {
 			// Returns ResourceServerInfo object with:
 			//   - scope: Space-separated allowed scopes for this resource
 			//   - audience: The aud claim value in the JWT (usually same as resourceIndicator)
-			//   - accessTokenFormat: "jwt" | "opaque" | "paseto" - MUST be "jwt" for JWT tokens
+			//   - accessTokenFormat: "jwt" | "opaque" | "paseto" - MUST be "jwt" for JWT tokens (OP_ACCESS_TOKEN_FORMAT)
 			//   - accessTokenTTL: Token lifetime in seconds
 			//   - jwt: (optional) { sign, encrypt } algorithms for additional JWT customization
 			getResourceServerInfo: async ( _ctx: unknown, resourceIndicator: unknown, client: unknown ) => {
@@ -327,10 +616,10 @@ const configuration: any = {
 				}, "getResourceServerInfo called" );
 
 				const config = {
-					scope: "openid profile email offline_access accounts:read",
+					scope: SUPPORTED_SCOPES.join( " " ),
 					audience: API_AUDIENCE,
-					accessTokenFormat: "jwt" as const,  // CRITICAL: Must be "jwt" to issue JWT tokens
-					accessTokenTTL: 60 * 60  // 1 hour
+					accessTokenFormat: ACCESS_TOKEN_FORMAT,  // CRITICAL: Must be "jwt" to issue JWT tokens
+					accessTokenTTL: ACCESS_TOKEN_TTL
 				};
 
 				logger.debug( { config }, "getResourceServerInfo returning config" );
@@ -347,8 +636,6 @@ const configuration: any = {
 			useGrantedResource: async () => true
 		}
 	},
-	// Adapter TODO: move to Postgres adapter for persistence in real testing
-	// See oidc-provider docs for Adapter interface
 	findAccount: async ( _ctx: unknown, sub: string ) => {
 		logger.debug( { sub }, "findAccount - Looking up account" );
 		return {
@@ -437,10 +724,67 @@ function mapErrorToOAuthCode( error: unknown ): { code: string; description: str
 }
 
 async function main() {
-	const provider = new Provider( ISSUER, configuration );
+	// Storage for sessions, grants, tokens and revocations (selected by OIDC_ADAPTER, see ./adapters)
+	const { adapter, revocations } = await createStorage( logger );
+	const provider = new Provider( ISSUER, {
+		...configuration,
+		...( adapter ? { adapter } : {} )
+	} );
 	// Trust reverse proxy headers (e.g., x-forwarded-proto from Caddy)
 	provider.proxy = true;
 
+	if ( FAPI2 ) {
+		logger.info( { signingAlgorithm: FAPI2_TOKEN_SIGNING_ALG }, "FAPI 2.0 Security Profile enabled" );
+	}
+	if ( MTLS_ENABLED ) {
+		logger.info( { header: MTLS_CLIENT_CERT_HEADER }, "Mutual TLS enabled - client certificates are read from the reverse proxy's header" );
+		if ( !MTLS_CA_FILE ) {
+			logger.warn( "OP_MTLS_CA_FILE not configured - only self_signed_tls_client_auth clients can authenticate with a certificate" );
+		}
+	}
+
+	// Grants and JWT access tokens revoked for as long as tokens they concern can be valid, published to
+	// the API at /revocations. Grants are revoked by the API (DELETE /grants/:grantId), by logging out
+	// (unless the grant has offline_access) and by revoking or replaying a refresh token.
+	const recordGrantRevocation = async ( grantId: string ) => {
+		await revocations.add( "grant", grantId, Math.floor( Date.now() / 1000 ) + ACCESS_TOKEN_TTL );
+		logger.info( { grantId }, "Grant revocation recorded" );
+	};
+	provider.on( "grant.revoked", ( _ctx: unknown, grantId: string ) => {
+		recordGrantRevocation( grantId ).catch( ( err ) => logError( logger, err, { context: "grant.revoked", grantId } ) );
+	} );
+
+	const jwtAccessTokens = createJwtAccessTokens( provider, {
+		issuer: ISSUER,
+		jwksUrl: `http://127.0.0.1:${ PORT }/jwks`,
+		grantIdClaim: CONSENT_ID_CLAIM,
+		revocations
+	} );
+
+	// oidc-provider refuses to revoke JWT access tokens, which it doesn't store. Once it has authenticated
+	// the client, revoke the JWTs it presents for itself by recording their jti until they expire.
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	provider.use( async ( ctx: any, next: () => Promise<void> ) => {
+		await next();
+		if ( ctx.oidc?.route !== "revocation" || ctx.body?.error !== "unsupported_token_type" || !ctx.oidc.client ) return;
+
+		const payload = await jwtAccessTokens.verify( String( ctx.oidc.params.token ) );
+		if ( payload?.jti && payload.exp && payload.client_id === ctx.oidc.client.clientId && !await revocations.has( "token", payload.jti ) ) {
+			await revocations.add( "token", payload.jti, payload.exp );
+			logger.info( { jti: payload.jti, clientId: payload.client_id }, "JWT access token revocation recorded" );
+		}
+		// RFC 7009 section 2.2: invalid tokens get the same response as revoked ones
+		ctx.status = 200;
+		ctx.body = "";
+	} );
+
+	// oidc-provider only persists model properties listed in IN_PAYLOAD,
+	// so register the consented accounts as part of the Grant payload
+	const grantPayload: string[] = provider.Grant.IN_PAYLOAD;
+	Object.defineProperty( provider.Grant, "IN_PAYLOAD", {
+		get: () => [ ...grantPayload, GRANT_ACCOUNTS_PROPERTY ]
+	} );
+
 	// Interactions (login + consent) in-process for simplicity
 	app.get( "/interaction/:uid", async ( req: Request, res: Response ) => {
 		try {
@@ -475,7 +819,10 @@ async function main() {
 			res.render( "interaction", {
 				uid,
 				prompt,
-				scopes: requestedScopes,
+				permissions: describeScopes( requestedScopes ),
+				accounts: prompt === "consent" && requiresAccountSelection( requestedScopes )
+					? getUserAccounts( details.session?.accountId )
+					: [],
 				error: undefined,
 				email: undefined
 			} );
@@ -526,7 +873,8 @@ async function main() {
 					return res.render( "interaction", {
 						uid,
 						prompt: "login",
-						scopes: requestedScopes,
+						permissions: describeScopes( requestedScopes ),
+						accounts: [],
 						error: "Invalid email or password format.",
 						email: String( req.body?.email || "" ).slice( 0, 254 )  // Preserve truncated email
 					} );
@@ -555,7 +903,8 @@ async function main() {
 					return res.render( "interaction", {
 						uid,
 						prompt: "login",
-						scopes: requestedScopes,
+						permissions: describeScopes( requestedScopes ),
+						accounts: [],
 						error: "Invalid email or password. Please try again.",
 						email  // Preserve the email field
 					} );
@@ -646,6 +995,37 @@ async function main() {
 
 				const details = await provider.interactionDetails( req, res );
 				const { grantId, prompt } = details;
+				const consentScopes = String( details.params.scope || "" )
+					.split( " " )
+					.filter( Boolean );
+
+				// Only accounts the user actually holds can be consented (allow-list)
+				let selectedAccountIds: string[] = [];
+				if ( requiresAccountSelection( consentScopes ) ) {
+					const userAccounts = getUserAccounts( details.session?.accountId );
+					const consentResult = consentSchema.safeParse( req.body );
+					const submitted = new Set( consentResult.success ? consentResult.data.accounts : [] );
+					selectedAccountIds = userAccounts
+						.map( ( account ) => account.accountId )
+						.filter( ( accountId ) => submitted.has( accountId ) );
+
+					if ( selectedAccountIds.length === 0 ) {
+						logger.debug( {
+							uid,
+							error: consentResult.success ? "no accounts selected" : formatZodError( consentResult.error )
+						}, "POST /interaction/:uid/confirm - Account selection invalid" );
+
+						// Re-render consent form with selection error
+						return res.render( "interaction", {
+							uid,
+							prompt: "consent",
+							permissions: describeScopes( consentScopes ),
+							accounts: userAccounts,
+							error: "Select at least one account to share.",
+							email: undefined
+						} );
+					}
+				}
 
 				logger.debug( {
 					uid,
@@ -707,6 +1087,10 @@ async function main() {
 					}
 				}
 
+				// Persist the account selection on the grant; it is emitted in access tokens by extraTokenClaims
+				grant[GRANT_ACCOUNTS_PROPERTY] = selectedAccountIds;
+				logger.debug( { uid, selectedAccountIds }, "POST /interaction/:uid/confirm - Stored consented accounts" );
+
 				const finalGrantId = await grant.save();
 				logger.debug( { uid, finalGrantId }, "POST /interaction/:uid/confirm - Grant saved" );
 
@@ -787,6 +1171,120 @@ async function main() {
 		}
 	);
 
+	// Grant management for the resource server, which serves grants as FDX consents, and the revocations it
+	// has to deny tokens for. A grant is what /interaction/:uid/confirm saves: the client, the user, the
+	// consented scopes and accounts.
+	if ( CONSENT_API_SECRET ) {
+		app.use( [ "/grants", "/revocations" ], requireConsentApiSecret );
+
+		app.get( "/grants/:grantId", async ( req: Request<{ grantId: string }>, res: Response ) => {
+			const grantIdResult = consentIdSchema.safeParse( req.params.grantId );
+			if ( !grantIdResult.success ) {
+				return res.status( 400 ).json( { error: "invalid_request", error_description: formatZodError( grantIdResult.error ) } );
+			}
+			const grantId = grantIdResult.data;
+
+			try {
+				const grant = await provider.Grant.find( grantId );
+				if ( !grant ) {
+					return res.status( 404 ).json( { error: "not_found", error_description: "Grant not found or expired" } );
+				}
+				const client = await provider.Client.find( grant.clientId as string );
+
+				logger.debug( { grantId, clientId: grant.clientId }, "GET /grants/:grantId - Grant read" );
+
+				return res.json( {
+					grantId,
+					clientId: grant.clientId,
+					clientName: client?.clientName,
+					accountId: grant.accountId,
+					scopes: ( grant.getResourceScope( API_AUDIENCE ) ?? "" ).split( " " ).filter( Boolean ),
+					accountIds: grant[GRANT_ACCOUNTS_PROPERTY] ?? [],
+					iat: grant.iat,
+					exp: grant.exp
+				} );
+			} catch ( err ) {
+				logError( logger, err, { context: "GET /grants/:grantId", grantId } );
+				return res.status( 500 ).json( { error: "server_error" } );
+			}
+		} );
+
+		// Revoking a grant invalidates everything issued under it, so the refresh tokens stop working
+		// and the next authorization asks the user for consent again
+		app.delete( "/grants/:grantId", async ( req: Request<{ grantId: string }>, res: Response ) => {
+			const grantIdResult = consentIdSchema.safeParse( req.params.grantId );
+			if ( !grantIdResult.success ) {
+				return res.status( 400 ).json( { error: "invalid_request", error_description: formatZodError( grantIdResult.error ) } );
+			}
+			const grantId = grantIdResult.data;
+
+			try {
+				const grant = await provider.Grant.find( grantId );
+				if ( !grant ) {
+					return res.status( 404 ).json( { error: "not_found", error_description: "Grant not found or expired" } );
+				}
+
+				await Promise.all( [
+					provider.AccessToken.revokeByGrantId( grantId ),
+					provider.RefreshToken.revokeByGrantId( grantId ),
+					provider.AuthorizationCode.revokeByGrantId( grantId )
+				] );
+				await grant.destroy();
+				await recordGrantRevocation( grantId );
+
+				logger.info( { grantId, clientId: grant.clientId }, "DELETE /grants/:grantId - Grant revoked" );
+				return res.status( 204 ).end();
+			} catch ( err ) {
+				logError( logger, err, { context: "DELETE /grants/:grantId", grantId } );
+				return res.status( 500 ).json( { error: "server_error" } );
+			}
+		} );
+
+		// Revocations recorded after the given sequence number, for the API's deny-list. The sequence to ask
+		// after next time is the last one returned; the log only ever appends, so nothing before it is missed.
+		app.get( "/revocations", async ( req: Request, res: Response ) => {
+			const after = Number( req.query.after ?? 0 );
+			if ( !Number.isSafeInteger( after ) || after < 0 ) {
+				return res.status( 400 ).json( { error: "invalid_request", error_description: "after must be a non-negative integer" } );
+			}
+
+			try {
+				const entries = await revocations.after( after );
+				res.set( "Cache-Control", "no-store" );
+				return res.json( {
+					logId: revocations.logId,
+					sequence: entries.at( -1 )?.sequence ?? after,
+					revocations: entries
+				} );
+			} catch ( err ) {
+				logError( logger, err, { context: "GET /revocations" } );
+				return res.status( 500 ).json( { error: "server_error" } );
+			}
+		} );
+	} else {
+		logger.warn( "CONSENT_API_SECRET not configured - the API cannot read or revoke consents or learn about revocations" );
+	}
+
+	// oidc-provider only introspects the tokens it stores, which JWT access tokens are not.
+	// Answer for JWTs the introspection client asks about here; everything else goes on to oidc-provider.
+	if ( INTROSPECTION_CLIENT_SECRET ) {
+		app.post( "/token/introspection", async ( req: Request, res: Response, next: NextFunction ) => {
+			const token = req.body?.token;
+			if ( typeof token !== "string" || !isJwt( token ) || !isIntrospectionClient( req ) ) return next();
+
+			try {
+				const result = await jwtAccessTokens.introspect( token );
+				logger.debug( { active: result.active, clientId: result.active ? result.client_id : undefined }, "POST /token/introspection - JWT introspected" );
+				res.set( "Cache-Control", "no-store" );
+				return res.json( result );
+			} catch ( err ) {
+				logError( logger, err, { context: "POST /token/introspection" } );
+				return res.status( 500 ).json( { error: "server_error" } );
+			}
+		} );
+		logger.info( `Token introspection enabled for client "${ INTROSPECTION_CLIENT_ID }"` );
+	}
+
 	// Log all OIDC provider requests for debugging
 	app.use( ( req: Request, res: Response, next ) => {
 		// Log token endpoint requests (POST /token)
@@ -0,0 +1,79 @@
+/**
+ * Introspection and revocation of JWT access tokens
+ *
+ * oidc-provider only introspects and revokes the tokens it stores, so it answers
+ * unsupported_token_type for JWT access tokens, which aren't stored. The OP handles them with
+ * these instead. A JWT is active while its signature, issuer and expiry check out, its jti wasn't
+ * revoked, and the grant it was issued under (its consent_id claim) still exists for the same
+ * client and user, so revoking the grant deactivates the JWTs issued under it just like the
+ * opaque tokens.
+ */
+
+import { createRemoteJWKSet, decodeProtectedHeader, jwtVerify, type JWTPayload } from "jose";
+import type { RevocationList } from "./revocations.js";
+
+export interface JwtAccessTokenOptions {
+	issuer: string;
+	jwksUrl: string;  // The provider's own JWKS, which signed the tokens
+	grantIdClaim: string;
+	revocations: RevocationList;
+}
+
+// RFC 7662 section 2.2
+export type IntrospectionResponse = { active: false } | ( JWTPayload & { active: true; token_type: string } );
+export interface JwtAccessTokens {
+	// The claims of a JWT access token the provider signed, or null when it didn't or the token expired
+	verify( token: string ): Promise<JWTPayload | null>;
+	introspect( token: string ): Promise<IntrospectionResponse>;
+}
+
+/**
+ * Check whether a token is a JWT rather than an opaque token
+ */
+export function isJwt( token: string ): boolean {
+	try {
+		return !!decodeProtectedHeader( token );
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Create the introspection and revocation helpers for the provider's JWT access tokens
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function createJwtAccessTokens( provider: any, options: JwtAccessTokenOptions ): JwtAccessTokens {
+	const jwks = createRemoteJWKSet( new URL( options.jwksUrl ) );
+
+	async function verify( token: string ): Promise<JWTPayload | null> {
+		try {
+			const { payload } = await jwtVerify( token, jwks, { issuer: options.issuer, typ: "at+jwt" } );
+			return payload;
+		} catch {
+			return null;
+		}
+	}
+
+	return {
+		verify,
+
+		async introspect( token ) {
+			const payload = await verify( token );
+			if ( !payload || ( payload.jti && await options.revocations.has( "token", payload.jti ) ) ) {
+				return { active: false };
+			}
+
+			const grantId = payload[options.grantIdClaim];
+			if ( typeof grantId === "string" ) {
+				const grant = await provider.Grant.find( grantId );
+				if ( !grant || grant.clientId !== payload.client_id || grant.accountId !== payload.sub ) {
+					return { active: false };
+				}
+			}
+
+			// A DPoP-bound token carries the thumbprint of the client's proof key in cnf.jkt (RFC 9449 section 6.1)
+			const cnf = payload.cnf as { jkt?: unknown } | undefined;
+			return { ...payload, active: true, token_type: typeof cnf?.jkt === "string" ? "DPoP" : "Bearer" };
+		}
+	};
+}
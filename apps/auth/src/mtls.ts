@@ -0,0 +1,98 @@
+/**
+ * Mutual TLS client authentication (RFC 8705) for oidc-provider
+ *
+ * TLS ends at the reverse proxy, which asks clients for a certificate without checking it and
+ * forwards the one presented in a header. A self_signed_tls_client_auth client is authenticated
+ * by oidc-provider comparing the certificate with the ones in the client's jwks. A tls_client_auth
+ * client's certificate must be issued by one of the trusted CAs here and have the subject or
+ * subject alternative name the client registered.
+ */
+
+import { readFileSync } from "fs";
+import { X509Certificate } from "crypto";
+import { parseClientCertificate } from "@apps/shared/clientCertificates";
+
+export interface MtlsOptions {
+	header: string;  // Header the reverse proxy forwards the client certificate in
+	trustedCertificates: X509Certificate[];  // CAs tls_client_auth certificates must be issued by
+}
+
+// The parts of the koa context the helpers need
+interface RequestContext {
+	get( field: string ): string;
+}
+
+// How subjectAltName lists each kind of name the tls_client_auth_san_* properties match
+const SAN_PREFIXES: Record<string, string> = {
+	tls_client_auth_san_dns: "DNS:",
+	tls_client_auth_san_uri: "URI:",
+	tls_client_auth_san_ip: "IP Address:",
+	tls_client_auth_san_email: "email:"
+};
+
+/**
+ * Read the trusted CA certificates from a PEM file, which may hold several
+ */
+export function loadTrustedCertificates( path: string ): X509Certificate[] {
+	const pem = readFileSync( path, "utf-8" );
+	const blocks = pem.match( /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g ) ?? [];
+	if ( blocks.length === 0 ) {
+		throw new Error( `No certificates found in ${ path }` );
+	}
+	return blocks.map( ( block ) => new X509Certificate( block ) );
+}
+
+// RFC 4514 lists the most significant RDN last and Node's subject lists it first, so compare as sets
+function normalizeDistinguishedName( names: string[] ): string {
+	return names
+		.map( ( name ) => {
+			const separator = name.indexOf( "=" );
+			return `${ name.slice( 0, separator ).trim().toUpperCase() }=${ name.slice( separator + 1 ).trim() }`;
+		} )
+		.sort()
+		.join( "," );
+}
+
+function isValidNow( certificate: X509Certificate ): boolean {
+	const now = Date.now();
+	return new Date( certificate.validFrom ).getTime() <= now && now <= new Date( certificate.validTo ).getTime();
+}
+
+/**
+ * Create the features.mTLS helpers, reading the client certificate from the proxy's header
+ */
+export function createMtlsHelpers( options: MtlsOptions ) {
+	function getCertificate( ctx: RequestContext ): X509Certificate | undefined {
+		return parseClientCertificate( ctx.get( options.header ) );
+	}
+
+	return {
+		getCertificate,
+
+		// Only certificates issued directly by a trusted CA count, intermediates aren't followed
+		certificateAuthorized( ctx: RequestContext ): boolean {
+			const certificate = getCertificate( ctx );
+			if ( !certificate || !isValidNow( certificate ) ) return false;
+			return options.trustedCertificates.some( ( ca ) =>
+				isValidNow( ca ) && certificate.checkIssued( ca ) && certificate.verify( ca.publicKey )
+			);
+		},
+
+		certificateSubjectMatches( ctx: RequestContext, property: string, expected: string ): boolean {
+			const certificate = getCertificate( ctx );
+			if ( !certificate ) return false;
+
+			if ( property === "tls_client_auth_subject_dn" ) {
+				// Commas escaped with a backslash are part of a value
+				return normalizeDistinguishedName( certificate.subject.split( "\n" ) ) ===
+					normalizeDistinguishedName( expected.split( /(?<!\\),/ ) );
+			}
+
+			const prefix = SAN_PREFIXES[property];
+			if ( !prefix || !certificate.subjectAltName ) return false;
+			return certificate.subjectAltName
+				.split( ", " )
+				.some( ( name ) => name.startsWith( prefix ) && name.slice( prefix.length ) === expected );
+		}
+	};
+}
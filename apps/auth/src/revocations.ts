@@ -0,0 +1,69 @@
+/**
+ * Revocations the API has to know about
+ *
+ * The API verifies JWT access tokens on its own, so revoking a grant or a JWT here would leave
+ * the tokens working until they expire. Every revocation is recorded in a log instead, which
+ * the API polls at /revocations: grants by ID, for as long as an access token issued under them
+ * can live, and JWT access tokens by jti, until they expire. The log lives in the storage the
+ * OIDC_ADAPTER selects (see ./adapters), so with SQLite it survives restarts and every OP sharing
+ * the database writes to and publishes the same log. A new logId tells the API the log was
+ * recreated and its sequence numbers started over.
+ */
+
+import { randomUUID } from "crypto";
+
+export type RevocationType = "grant" | "token";
+
+export interface Revocation {
+	sequence: number;  // Increases with every revocation, so the API can ask for the ones it hasn't seen
+	type: RevocationType;
+	id: string;  // Grant ID or access token jti
+	revokedAt: number;  // Seconds since the epoch
+	expiresAt: number;  // When no token it concerns can still be valid, in seconds since the epoch
+}
+export interface RevocationList {
+	readonly logId: string;
+	add( type: RevocationType, id: string, expiresAt: number ): Promise<Revocation>;
+	has( type: RevocationType, id: string ): Promise<boolean>;
+	// Revocations recorded after the given sequence number that still concern a valid token, oldest first
+	after( sequence: number ): Promise<Revocation[]>;
+}
+
+/**
+ * Create an empty revocation list kept in memory, for the memory adapter. It's lost when the OP
+ * stops and isn't shared with other instances, just like the tokens the adapter keeps.
+ */
+export function createMemoryRevocationList(): RevocationList {
+	const logId = randomUUID();
+	let revocations: Revocation[] = [];
+	let sequence = 0;
+
+	// Drop the revocations no token can be affected by anymore
+	function prune(): void {
+		const now = Math.floor( Date.now() / 1000 );
+		if ( revocations.some( ( revocation ) => revocation.expiresAt <= now ) ) {
+			revocations = revocations.filter( ( revocation ) => revocation.expiresAt > now );
+		}
+	}
+
+	return {
+		logId,
+
+		async add( type, id, expiresAt ) {
+			prune();
+			const revocation: Revocation = { sequence: ++sequence, type, id, revokedAt: Math.floor( Date.now() / 1000 ), expiresAt };
+			revocations.push( revocation );
+			return revocation;
+		},
+
+		async has( type, id ) {
+			prune();
+			return revocations.some( ( revocation ) => revocation.type === type && revocation.id === id );
+		},
+
+		async after( after ) {
+			prune();
+			return revocations.filter( ( revocation ) => revocation.sequence > after );
+		}
+	};
+}
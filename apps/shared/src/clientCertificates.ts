@@ -0,0 +1,39 @@
+/**
+ * @apps/shared - Client Certificates
+ *
+ * Mutual TLS (RFC 8705) behind a reverse proxy: the proxy terminates TLS, asks clients for a
+ * certificate and forwards the one presented to the authorization server and the API in a
+ * request header. Both read it from there, the authorization server to authenticate clients
+ * and bind access tokens to the certificate, the API to check that binding.
+ */
+
+import { createHash, X509Certificate } from "crypto";
+
+/**
+ * Header the reverse proxy forwards the client certificate in, unless MTLS_CLIENT_CERT_HEADER says otherwise
+ */
+export const DEFAULT_CLIENT_CERT_HEADER = "x-client-cert";
+
+/**
+ * Parse the client certificate forwarded by the reverse proxy: base64 DER (Caddy's
+ * certificate_der_base64 placeholder) or URL-encoded PEM (nginx's $ssl_client_escaped_cert).
+ * Returns undefined when no certificate was presented or the header can't be parsed.
+ */
+export function parseClientCertificate( header: string | string[] | undefined ): X509Certificate | undefined {
+	if ( typeof header !== "string" || !header.trim() ) return undefined;
+
+	try {
+		const value = decodeURIComponent( header.trim() );
+		return new X509Certificate( value.includes( "-----BEGIN" ) ? value : Buffer.from( value, "base64" ) );
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * The certificate's SHA-256 thumbprint, as carried in the x5t#S256 confirmation claim of
+ * certificate-bound access tokens (RFC 8705 section 3.1)
+ */
+export function getCertificateThumbprint( certificate: X509Certificate ): string {
+	return createHash( "sha256" ).update( certificate.raw ).digest( "base64url" );
+}
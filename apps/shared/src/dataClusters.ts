@@ -0,0 +1,148 @@
+/**
+ * @apps/shared - FDX Data Clusters
+ *
+ * Registry of the OAuth scopes the FDX API understands and the FDX data clusters each one
+ * grants. The authorization server offers, describes and issues scopes from it, and the API
+ * decides from it which endpoints an access token may call.
+ */
+
+// =============================================================================
+// DATA CLUSTERS
+// =============================================================================
+
+/**
+ * FDX data clusters served by the API
+ */
+export const DATA_CLUSTERS = [
+	"ACCOUNT_BASIC",
+	"ACCOUNT_DETAILED",
+	"CUSTOMER_CONTACT",
+	"CUSTOMER_PERSONAL",
+	"INVESTMENTS",
+	"PAYMENT_SUPPORT",
+	"STATEMENTS",
+	"TAX",
+	"TRANSACTIONS"
+] as const;
+
+export type DataCluster = typeof DATA_CLUSTERS[number];
+
+export interface DataClusterDefinition {
+	resourceType: "ACCOUNT" | "CUSTOMER";  // Shared for each consented account, or for the customer
+	description: string;  // What the user shares, as shown on the consent screen
+}
+
+export const DATA_CLUSTER_DEFINITIONS: Record<DataCluster, DataClusterDefinition> = {
+	ACCOUNT_BASIC: {
+		resourceType: "ACCOUNT",
+		description: "Account type, name, status and the last digits of the account number"
+	},
+	ACCOUNT_DETAILED: {
+		resourceType: "ACCOUNT",
+		description: "Balances, credit lines, interest rates and loan terms"
+	},
+	CUSTOMER_CONTACT: {
+		resourceType: "ACCOUNT",
+		description: "Account holder names, addresses, email addresses and phone numbers"
+	},
+	CUSTOMER_PERSONAL: {
+		resourceType: "CUSTOMER",
+		description: "Your name, email address and customer profile"
+	},
+	INVESTMENTS: {
+		resourceType: "ACCOUNT",
+		description: "Investment holdings"
+	},
+	PAYMENT_SUPPORT: {
+		resourceType: "ACCOUNT",
+		description: "Full account and routing numbers for payments and transfers"
+	},
+	STATEMENTS: {
+		resourceType: "ACCOUNT",
+		description: "Account statements"
+	},
+	TAX: {
+		resourceType: "ACCOUNT",
+		description: "Tax forms (1099)"
+	},
+	TRANSACTIONS: {
+		resourceType: "ACCOUNT",
+		description: "Transaction history"
+	}
+};
+
+// =============================================================================
+// SCOPES
+// =============================================================================
+
+/**
+ * OAuth scopes for the FDX API, as requested by clients and issued in access tokens
+ */
+export const API_SCOPES = [ "customers:read", "accounts:basic", "accounts:read", "contact:read", "tax:read" ] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+export interface ApiScopeDefinition {
+	description: string;  // Shown on the consent screen and in the OpenAPI document
+	dataClusters: readonly DataCluster[];
+}
+
+export const API_SCOPE_DEFINITIONS: Record<ApiScope, ApiScopeDefinition> = {
+	"customers:read": {
+		description: "Customer information",
+		dataClusters: [ "CUSTOMER_PERSONAL" ]
+	},
+	"accounts:basic": {
+		description: "Basic account information, without balances",
+		dataClusters: [ "ACCOUNT_BASIC" ]
+	},
+	"accounts:read": {
+		description: "Account data",
+		dataClusters: [ "ACCOUNT_BASIC", "ACCOUNT_DETAILED", "TRANSACTIONS", "STATEMENTS", "INVESTMENTS", "PAYMENT_SUPPORT" ]
+	},
+	"contact:read": {
+		description: "Account holder contact details",
+		dataClusters: [ "CUSTOMER_CONTACT" ]
+	},
+	"tax:read": {
+		description: "Tax forms (1099)",
+		dataClusters: [ "TAX" ]
+	}
+};
+
+/**
+ * Check whether a scope is one of the API scopes
+ */
+export function isApiScope( scope: string ): scope is ApiScope {
+	return ( API_SCOPES as readonly string[] ).includes( scope );
+}
+
+/**
+ * Get the data clusters granted by a set of scopes. Scopes that aren't API scopes grant none.
+ */
+export function getDataClusters( scopes: Iterable<string> ): Set<DataCluster> {
+	const clusters = new Set<DataCluster>();
+	for ( const scope of scopes ) {
+		if ( !isApiScope( scope ) ) continue;
+		for ( const cluster of API_SCOPE_DEFINITIONS[scope].dataClusters ) {
+			clusters.add( cluster );
+		}
+	}
+	return clusters;
+}
+
+/**
+ * Get the scopes that grant a data cluster, the one granting the fewest other clusters first
+ */
+export function getScopesGranting( cluster: DataCluster ): ApiScope[] {
+	return API_SCOPES
+		.filter( ( scope ) => API_SCOPE_DEFINITIONS[scope].dataClusters.includes( cluster ) )
+		.sort( ( a, b ) => API_SCOPE_DEFINITIONS[a].dataClusters.length - API_SCOPE_DEFINITIONS[b].dataClusters.length );
+}
+
+/**
+ * Check whether any of the scopes share account data, so the user has to pick the accounts to share
+ */
+export function requiresAccountSelection( scopes: Iterable<string> ): boolean {
+	return [ ...getDataClusters( scopes ) ].some( ( cluster ) => DATA_CLUSTER_DEFINITIONS[cluster].resourceType === "ACCOUNT" );
+}
@@ -12,6 +12,9 @@ export * from "./environment.js";
 export * from "./logging.js";
 export * from "./middleware.js";
 export * from "./validation.js";
+export * from "./dataClusters.js";
+export * from "./clientCertificates.js";
+export * from "./securityProfiles.js";
 
 // Version and metadata
 export const version = "0.1.0";
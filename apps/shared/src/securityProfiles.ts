@@ -0,0 +1,69 @@
+/**
+ * @apps/shared - Security Profiles
+ *
+ * SECURITY_PROFILE switches the authorization server, the API and the client app together between
+ * the permissive default setup and the FAPI 2.0 Security Profile
+ * (https://openid.net/specs/fapi-security-profile-2_0-final.html). In fapi2 mode each of them checks
+ * its configuration at startup and refuses to start when it isn't compliant.
+ */
+
+import type { JWKSConfig } from "./validation.js";
+
+export const SECURITY_PROFILES = [ "default", "fapi2" ] as const;
+
+export type SecurityProfile = typeof SECURITY_PROFILES[number];
+
+/**
+ * The JWS algorithms FAPI 2.0 mode allows for every signature: ID tokens, JWT access tokens,
+ * client assertions, request objects and DPoP proofs
+ */
+export const FAPI2_SIGNING_ALGORITHMS = [ "PS256", "ES256" ];
+
+// FAPI 2.0 section 5.4.1: RSA keys must have at least 2048 bits
+const MIN_RSA_KEY_BITS = 2048;
+
+/**
+ * Read the security profile from the SECURITY_PROFILE environment variable
+ */
+export function getSecurityProfile(): SecurityProfile {
+	const profile = ( process.env.SECURITY_PROFILE || "default" ) as SecurityProfile;
+	if ( !SECURITY_PROFILES.includes( profile ) ) {
+		throw new Error( `Invalid SECURITY_PROFILE "${ profile }": expected one of ${ SECURITY_PROFILES.join( ", " ) }` );
+	}
+	return profile;
+}
+
+/**
+ * The FAPI 2.0 algorithm a JWK can sign with, if any: PS256 for RSA keys of at least 2048 bits,
+ * ES256 for P-256 keys. A key that names another algorithm can't be used.
+ */
+export function getFapi2SigningAlgorithm( jwk: JWKSConfig["keys"][number] ): string | undefined {
+	if ( jwk.use === "enc" ) return undefined;
+
+	let alg: string | undefined;
+	if ( jwk.kty === "RSA" && jwk.n && Buffer.from( jwk.n, "base64url" ).length * 8 >= MIN_RSA_KEY_BITS ) {
+		alg = "PS256";
+	} else if ( jwk.kty === "EC" && jwk.crv === "P-256" ) {
+		alg = "ES256";
+	}
+	return alg && ( !jwk.alg || jwk.alg === alg ) ? alg : undefined;
+}
+
+/**
+ * Check a URL uses https, which FAPI 2.0 requires of every endpoint and redirect URI
+ */
+export function isHttpsUrl( url: string ): boolean {
+	try {
+		return new URL( url ).protocol === "https:";
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Refuse to start with a configuration that breaks the FAPI 2.0 profile, listing everything that does
+ */
+export function assertFapi2Compliance( component: string, violations: string[] ): void {
+	if ( violations.length === 0 ) return;
+	throw new Error( `${ component } configuration is not FAPI 2.0 compliant:\n${ violations.map( ( violation ) => `  - ${ violation }` ).join( "\n" ) }` );
+}
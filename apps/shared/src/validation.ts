@@ -5,6 +5,7 @@
  * approaches for expected format, length, and type per IOH-IV-01 requirements.
  */
 
+import { BlockList, isIP } from "net";
 import { z } from "zod";
 import type { Request, Response, NextFunction } from "express";
 
@@ -21,12 +22,27 @@ export const MAX_PAGINATION_LIMIT = 1000;
 /** Default pagination limit when not specified */
 export const DEFAULT_PAGINATION_LIMIT = 100;
 
+/** Maximum length for opaque page keys (pagination cursors) */
+export const MAX_PAGE_KEY_LENGTH = 512;
+
+/** Maximum length for the transaction text search */
+export const MAX_TRANSACTION_SEARCH_LENGTH = 100;
+
 /** Maximum length for account IDs */
 export const MAX_ACCOUNT_ID_LENGTH = 50;
 
 /** Maximum length for statement IDs */
 export const MAX_STATEMENT_ID_LENGTH = 50;
 
+/** Maximum length for tax form IDs */
+export const MAX_TAX_FORM_ID_LENGTH = 80;
+
+/** Maximum length for notification callback URLs */
+export const MAX_CALLBACK_URL_LENGTH = 2048;
+
+/** Maximum length for consent IDs */
+export const MAX_CONSENT_ID_LENGTH = 100;
+
 /** Maximum length for interaction UIDs */
 export const MAX_INTERACTION_UID_LENGTH = 100;
 
@@ -68,7 +84,14 @@ export const paginationSchema = z.object( {
 			const num = parseInt( val, 10 );
 			if ( isNaN( num ) || num < 1 ) return DEFAULT_PAGINATION_LIMIT;
 			return Math.min( num, MAX_PAGINATION_LIMIT );
-		} )
+		} ),
+	// Opaque cursor from a previous page's nextPageKey/prevPageKey; takes precedence over offset and limit.
+	// Only the character set is checked here, the signature is verified by the API.
+	pageKey: z
+		.string()
+		.max( MAX_PAGE_KEY_LENGTH, `Page key must not exceed ${ MAX_PAGE_KEY_LENGTH } characters` )
+		.regex( /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/, "Page key is malformed" )
+		.optional()
 } );
 
 export type PaginationParams = z.infer<typeof paginationSchema>;
@@ -99,14 +122,15 @@ export const accountIdSchema = z
 
 /**
  * Schema for validating statement IDs using allow-list approach.
+ * Accepts UUID, stmt-{number} or numeric IDs.
  */
 export const statementIdSchema = z
 	.string()
 	.min( 1, "Statement ID is required" )
 	.max( MAX_STATEMENT_ID_LENGTH, `Statement ID must not exceed ${ MAX_STATEMENT_ID_LENGTH } characters` )
 	.refine(
-		( val ) => UUID_PATTERN.test( val ) || /^stmt-[0-9]+$/.test( val ),
-		{ message: "Statement ID must be a valid UUID or match pattern 'stmt-{number}'" }
+		( val ) => UUID_PATTERN.test( val ) || /^stmt-[0-9]+$/.test( val ) || /^[0-9]+$/.test( val ),
+		{ message: "Statement ID must be a valid UUID, a number or match pattern 'stmt-{number}'" }
 	);
 
 /**
@@ -175,6 +199,241 @@ function isValidDateString( val: string ): boolean {
 	return date >= minDate && date <= maxDate;
 }
 
+// =============================================================================
+// TAX FORM SCHEMAS
+// =============================================================================
+
+/** FDX tax form types served by the /tax-forms endpoints */
+export const TAX_FORM_TYPES = [ "Tax1099Int", "Tax1099Div", "Tax1099B" ] as const;
+
+export type TaxFormType = typeof TAX_FORM_TYPES[number];
+
+/**
+ * Allow-list pattern for tax form IDs: {taxYear}-{lowercase form type}-{accountId}
+ * e.g. 2025-tax1099int-account-701
+ */
+const TAX_FORM_ID_PATTERN = /^([0-9]{4})-(tax1099int|tax1099div|tax1099b)-(.+)$/;
+
+/**
+ * Schema for validating tax form IDs.
+ * The embedded account ID must itself pass the account ID allow-list.
+ */
+export const taxFormIdSchema = z
+	.string()
+	.min( 1, "Tax form ID is required" )
+	.max( MAX_TAX_FORM_ID_LENGTH, `Tax form ID must not exceed ${ MAX_TAX_FORM_ID_LENGTH } characters` )
+	.refine(
+		( val ) => {
+			const match = TAX_FORM_ID_PATTERN.exec( val );
+			return !!match && accountIdSchema.safeParse( match[3] ).success;
+		},
+		{ message: "Tax form ID must match pattern '{taxYear}-{formType}-{accountId}'" }
+	);
+
+/**
+ * Schema for the taxYear query parameter: a four digit year within the supported range.
+ */
+export const taxYearSchema = z
+	.string()
+	.regex( /^[0-9]{4}$/, "Tax year must be a four digit year" )
+	.transform( ( val ) => parseInt( val, 10 ) )
+	.refine(
+		( val ) => {
+			const currentYear = new Date().getFullYear();
+			return val >= currentYear - MAX_DATE_RANGE_YEARS && val <= currentYear;
+		},
+		{ message: `Tax year must be within the last ${ MAX_DATE_RANGE_YEARS } years` }
+	);
+
+/**
+ * Schema for the taxForms query parameter: a comma-separated list of FDX tax form types.
+ */
+export const taxFormTypesSchema = z
+	.string()
+	.transform( ( val ) => val.split( "," ).map( ( type ) => type.trim() ).filter( Boolean ) )
+	.pipe( z.array( z.enum( TAX_FORM_TYPES ) ).min( 1, "At least one tax form type is required" ) );
+
+// =============================================================================
+// TRANSACTION FILTER SCHEMAS
+// =============================================================================
+
+/** FDX transaction statuses accepted by the status filter */
+export const TRANSACTION_STATUSES = [ "AUTHORIZATION", "MEMO", "PENDING", "POSTED" ] as const;
+
+/** FDX debitCreditMemo values */
+export const DEBIT_CREDIT_MEMOS = [ "CREDIT", "DEBIT", "MEMO" ] as const;
+
+/** Transaction sort orders: a field name, prefixed with "-" for descending */
+export const TRANSACTION_SORT_ORDERS = [ "postedTimestamp", "-postedTimestamp", "amount", "-amount" ] as const;
+
+export type TransactionSortOrder = typeof TRANSACTION_SORT_ORDERS[number];
+
+/**
+ * Schema for amount filters: a non-negative decimal with up to two decimal places.
+ * FDX amounts are unsigned, the direction is in debitCreditMemo.
+ */
+export const amountSchema = z
+	.string()
+	.regex( /^[0-9]{1,12}(\.[0-9]{1,2})?$/, "Amount must be a non-negative number with up to two decimal places" )
+	.transform( Number );
+
+/**
+ * Schema for a comma-separated list of transaction types, e.g. "DEBITCARD,CHECK".
+ * Types differ per account category, so only the format is checked.
+ */
+export const transactionTypesSchema = z
+	.string()
+	.transform( ( val ) => val.split( "," ).map( ( type ) => type.trim().toUpperCase() ).filter( Boolean ) )
+	.pipe( z.array( z.string().regex( /^[A-Z_]{1,40}$/, "Invalid transaction type" ) ).min( 1, "At least one transaction type is required" ).max( 20 ) );
+
+/**
+ * Schema for a comma-separated list of transaction statuses, e.g. "PENDING,POSTED"
+ */
+export const transactionStatusesSchema = z
+	.string()
+	.transform( ( val ) => val.split( "," ).map( ( status ) => status.trim().toUpperCase() ).filter( Boolean ) )
+	.pipe( z.array( z.enum( TRANSACTION_STATUSES ) ).min( 1, "At least one status is required" ) );
+
+/**
+ * Schema for the payee/description text search. Control characters are rejected.
+ */
+export const transactionSearchSchema = z
+	.string()
+	.trim()
+	.min( 1, "Search text is required" )
+	.max( MAX_TRANSACTION_SEARCH_LENGTH, `Search text must not exceed ${ MAX_TRANSACTION_SEARCH_LENGTH } characters` )
+	// eslint-disable-next-line no-control-regex
+	.refine( ( val ) => !/[\x00-\x1F\x7F]/.test( val ), { message: "Search text must not contain control characters" } );
+
+// =============================================================================
+// NOTIFICATION SUBSCRIPTION SCHEMAS
+// =============================================================================
+
+/** Notification types a data recipient can subscribe to */
+export const NOTIFICATION_TYPES = [ "BALANCE", "STATEMENT", "CONSENT_REVOKED" ] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+/**
+ * Schema for notification subscription IDs (UUIDs assigned by the API)
+ */
+export const subscriptionIdSchema = z
+	.string()
+	.regex( UUID_PATTERN, "Subscription ID must be a valid UUID" );
+
+/** Loopback, link-local, private and other non-public address ranges */
+const internalAddresses = new BlockList();
+internalAddresses.addSubnet( "0.0.0.0", 8, "ipv4" );
+internalAddresses.addSubnet( "10.0.0.0", 8, "ipv4" );
+internalAddresses.addSubnet( "100.64.0.0", 10, "ipv4" );
+internalAddresses.addSubnet( "127.0.0.0", 8, "ipv4" );
+internalAddresses.addSubnet( "169.254.0.0", 16, "ipv4" );
+internalAddresses.addSubnet( "172.16.0.0", 12, "ipv4" );
+internalAddresses.addSubnet( "192.168.0.0", 16, "ipv4" );
+internalAddresses.addSubnet( "224.0.0.0", 3, "ipv4" );
+internalAddresses.addAddress( "::", "ipv6" );
+internalAddresses.addAddress( "::1", "ipv6" );
+internalAddresses.addSubnet( "fc00::", 7, "ipv6" );
+internalAddresses.addSubnet( "fe80::", 10, "ipv6" );
+internalAddresses.addSubnet( "ff00::", 8, "ipv6" );
+
+/**
+ * Whether an IP address is loopback, link-local, private, multicast or otherwise not a public
+ * unicast address. IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry.
+ * Anything that isn't an IP address, such as a hostname, returns false.
+ */
+export function isInternalAddress( address: string ): boolean {
+	const version = isIP( address );
+	if ( version === 0 ) return false;
+	return internalAddresses.check( address, version === 4 ? "ipv4" : "ipv6" );
+}
+
+/**
+ * Schema for notification callback URLs.
+ * Must be HTTPS, except that plain HTTP is accepted for localhost outside production. In
+ * production the host must not be localhost or a loopback, link-local or private IP address, so
+ * a subscription can't make the API POST to services on its own network. The dispatcher also
+ * checks what the hostname resolves to before every delivery.
+ */
+export const callbackUrlSchema = z
+	.string()
+	.max( MAX_CALLBACK_URL_LENGTH, `Callback URL must not exceed ${ MAX_CALLBACK_URL_LENGTH } characters` )
+	.url( "Callback URL must be an absolute URL" )
+	// Refinements run even when the URL check failed, so they skip what it already reports
+	.refine(
+		( val ) => {
+			if ( !URL.canParse( val ) ) return true;
+			const url = new URL( val );
+			const isLocalhost = [ "localhost", "127.0.0.1", "[::1]" ].includes( url.hostname );
+			return url.protocol === "https:" || ( url.protocol === "http:" && isLocalhost && process.env.NODE_ENV !== "production" );
+		},
+		{ message: "Callback URL must use https (http is only allowed for localhost outside production)" }
+	)
+	.refine(
+		( val ) => {
+			if ( !URL.canParse( val ) || process.env.NODE_ENV !== "production" ) return true;
+			// The URL parser has already normalized IP addresses, e.g. 0x7f.1 to 127.0.0.1
+			const hostname = new URL( val ).hostname.replace( /^\[(.*)\]$/, "$1" ).toLowerCase();
+			return hostname !== "localhost" && !hostname.endsWith( ".localhost" ) && !isInternalAddress( hostname );
+		},
+		{ message: "Callback URL must not point to a loopback, link-local or private address" }
+	)
+	.refine(
+		( val ) => !URL.canParse( val ) || ( !new URL( val ).username && !new URL( val ).password ),
+		{ message: "Callback URL must not contain credentials" }
+	);
+
+/**
+ * Schema for the body of a notification subscription request
+ */
+export const notificationSubscriptionRequestSchema = z.object( {
+	type: z.enum( NOTIFICATION_TYPES ),
+	callbackUrl: callbackUrlSchema
+} );
+
+export type NotificationSubscriptionRequest = z.infer<typeof notificationSubscriptionRequestSchema>;
+
+// =============================================================================
+// CONSENT SCHEMAS
+// =============================================================================
+
+/**
+ * Reasons a consent can be revoked for
+ */
+export const CONSENT_REVOCATION_REASONS = [ "BUSINESS_RULE", "USER_ACTION" ] as const;
+
+/**
+ * Parties that can initiate a consent revocation
+ */
+export const CONSENT_REVOCATION_INITIATORS = [
+	"DATA_ACCESS_PLATFORM",
+	"DATA_PROVIDER",
+	"DATA_RECIPIENT",
+	"INDIVIDUAL",
+	"MERCHANT",
+	"VENDOR"
+] as const;
+
+/**
+ * Schema for consent IDs (the authorization server's grant IDs).
+ * Allow-list: alphanumeric with hyphens and underscores.
+ */
+export const consentIdSchema = z
+	.string()
+	.min( 1, "Consent ID is required" )
+	.max( MAX_CONSENT_ID_LENGTH, `Consent ID must not exceed ${ MAX_CONSENT_ID_LENGTH } characters` )
+	.regex( /^[a-zA-Z0-9_-]+$/, "Consent ID contains invalid characters" );
+
+/**
+ * Schema for the body of a consent revocation request
+ */
+export const consentRevocationRequestSchema = z.object( {
+	reason: z.enum( CONSENT_REVOCATION_REASONS ),
+	initiator: z.enum( CONSENT_REVOCATION_INITIATORS )
+} );
+
+export type ConsentRevocationRequest = z.infer<typeof consentRevocationRequestSchema>;
+
 // =============================================================================
 // AUTHENTICATION SCHEMAS
 // =============================================================================
@@ -209,6 +468,23 @@ export const loginSchema = z.object( {
 
 export type LoginInput = z.infer<typeof loginSchema>;
 
+/**
+ * Schema for the consent form submission.
+ * A checkbox group posts a single string for one selection and an array for several,
+ * so the selected account IDs are normalized to an array.
+ */
+export const consentSchema = z.object( {
+	accounts: z
+		.union( [ accountIdSchema, z.array( accountIdSchema ) ] )
+		.optional()
+		.transform( ( val ) => {
+			if ( !val ) return [];
+			return Array.isArray( val ) ? val : [ val ];
+		} )
+} );
+
+export type ConsentInput = z.infer<typeof consentSchema>;
+
 // =============================================================================
 // API ENDPOINT ALLOW-LIST
 // =============================================================================
@@ -225,8 +501,14 @@ export const ALLOWED_API_ENDPOINTS: RegExp[] = [
 	/^\/api\/fdx\/v6\/accounts\/[a-zA-Z0-9_-]+\/statements$/,
 	/^\/api\/fdx\/v6\/accounts\/[a-zA-Z0-9_-]+\/statements\/[a-zA-Z0-9_-]+$/,
 	/^\/api\/fdx\/v6\/accounts\/[a-zA-Z0-9_-]+\/transactions$/,
+	/^\/api\/fdx\/v6\/accounts\/[a-zA-Z0-9_-]+\/holdings$/,
 	/^\/api\/fdx\/v6\/accounts\/[a-zA-Z0-9_-]+\/payment-networks$/,
-	/^\/api\/fdx\/v6\/accounts\/[a-zA-Z0-9_-]+\/asset-transfer-networks$/
+	/^\/api\/fdx\/v6\/accounts\/[a-zA-Z0-9_-]+\/asset-transfer-networks$/,
+	/^\/api\/fdx\/v6\/tax-forms$/,
+	/^\/api\/fdx\/v6\/tax-forms\/[a-zA-Z0-9_-]+$/,
+	/^\/api\/fdx\/v6\/notification-subscriptions\/[a-zA-Z0-9_-]+$/,
+	/^\/api\/fdx\/v6\/notification-subscriptions\/[a-zA-Z0-9_-]+\/deliveries$/,
+	/^\/api\/fdx\/v6\/consents\/[a-zA-Z0-9_-]+$/
 ];
 
 /**
@@ -268,29 +550,6 @@ export type ApiCallInput = z.infer<typeof apiCallSchema>;
 // CONFIGURATION SCHEMAS
 // =============================================================================
 
-/**
- * Schema for OIDC client configuration with allow-list validation.
- */
-export const oidcClientSchema = z.object( {
-	client_id: z.string().min( 1 ).max( 100 ),
-	client_secret: z.string().min( 1 ).max( 500 ),
-	redirect_uris: z.array( z.string().url() ).min( 1 ),
-	post_logout_redirect_uris: z.array( z.string().url() ).optional(),
-	grant_types: z.array(
-		z.enum( [ "authorization_code", "refresh_token", "client_credentials" ] )
-	),
-	response_types: z.array( z.enum( [ "code", "token", "id_token" ] ) ),
-	token_endpoint_auth_method: z.enum( [
-		"client_secret_basic",
-		"client_secret_post",
-		"none"
-	] ).optional()
-} );
-
-export const oidcClientsSchema = z.array( oidcClientSchema );
-
-export type OIDCClientConfig = z.infer<typeof oidcClientSchema>;
-
 /**
  * Schema for JWKS (JSON Web Key Set) configuration.
  * Validates structure according to RFC 7517.
@@ -301,6 +560,8 @@ export const jwkSchema = z.object( {
 	key_ops: z.array( z.string() ).optional(),
 	alg: z.string().optional(),
 	kid: z.string().optional(),
+	// X.509 certificate chain, e.g. the certificate of a self_signed_tls_client_auth client
+	x5c: z.array( z.string() ).optional(),
 	// RSA specific
 	n: z.string().optional(),
 	e: z.string().optional(),
@@ -320,6 +581,63 @@ export const jwksSchema = z.object( {
 	keys: z.array( jwkSchema ).min( 1, "JWKS must contain at least one key" )
 } );
 
+/**
+ * Client authentication methods that need a client_secret
+ */
+const CLIENT_SECRET_AUTH_METHODS = [ "client_secret_basic", "client_secret_post" ];
+
+/**
+ * Schema for OIDC client configuration with allow-list validation.
+ */
+export const oidcClientSchema = z.object( {
+	client_id: z.string().min( 1 ).max( 100 ),
+	client_secret: z.string().min( 1 ).max( 500 ).optional(),
+	redirect_uris: z.array( z.string().url() ).min( 1 ),
+	post_logout_redirect_uris: z.array( z.string().url() ).optional(),
+	grant_types: z.array(
+		z.enum( [ "authorization_code", "refresh_token", "client_credentials" ] )
+	),
+	response_types: z.array( z.enum( [ "code", "token", "id_token" ] ) ),
+	token_endpoint_auth_method: z.enum( [
+		"client_secret_basic",
+		"client_secret_post",
+		"private_key_jwt",
+		"tls_client_auth",
+		"self_signed_tls_client_auth",
+		"none"
+	] ).optional(),
+	// RFC 8705 - the certificate a tls_client_auth client presents must match one of these
+	tls_client_auth_subject_dn: z.string().optional(),
+	tls_client_auth_san_dns: z.string().optional(),
+	tls_client_auth_san_uri: z.string().optional(),
+	tls_client_auth_san_ip: z.string().optional(),
+	tls_client_auth_san_email: z.string().optional(),
+	// RFC 8705 - bind this client's access tokens to its certificate
+	tls_client_certificate_bound_access_tokens: z.boolean().optional(),
+	// The client's public keys, which private_key_jwt clients sign their assertions with and
+	// self_signed_tls_client_auth clients register their certificate in (x5c). Give them here or
+	// publish them at jwks_uri, not both.
+	jwks: jwksSchema.optional(),
+	jwks_uri: z.string().url().optional(),
+	// RFC 9449 - only issue DPoP-bound access tokens to this client
+	dpop_bound_access_tokens: z.boolean().optional(),
+	// RFC 9126 - only accept authorization requests this client pushed to the PAR endpoint first
+	require_pushed_authorization_requests: z.boolean().optional()
+} ).refine(
+	( data ) => data.client_secret || !CLIENT_SECRET_AUTH_METHODS.includes( data.token_endpoint_auth_method ?? "client_secret_basic" ),
+	{ message: "client_secret is required for client_secret_basic and client_secret_post authentication", path: [ "client_secret" ] }
+).refine(
+	( data ) => data.token_endpoint_auth_method !== "private_key_jwt" || data.jwks || data.jwks_uri,
+	{ message: "jwks or jwks_uri is required for private_key_jwt authentication", path: [ "jwks" ] }
+).refine(
+	( data ) => !( data.jwks && data.jwks_uri ),
+	{ message: "jwks and jwks_uri can't both be set", path: [ "jwks_uri" ] }
+);
+
+export const oidcClientsSchema = z.array( oidcClientSchema );
+
+export type OIDCClientConfig = z.infer<typeof oidcClientSchema>;
+
 export type JWKSConfig = z.infer<typeof jwksSchema>;
 
 // =============================================================================
@@ -355,7 +673,7 @@ export function safeJsonParse<T>(
  */
 export function formatZodError( error: z.ZodError ): string {
 	return error.issues
-		.map( ( issue ) => `${ issue.path.join( "." ) }: ${ issue.message }` )
+		.map( ( issue ) => issue.path.length > 0 ? `${ issue.path.join( "." ) }: ${ issue.message }` : issue.message )
 		.join( "; " );
 }
 
@@ -482,23 +800,67 @@ export const accountsQuerySchema = paginationSchema;
 export const dateRangePaginationSchema = z.object( {
 	offset: paginationSchema.shape.offset,
 	limit: paginationSchema.shape.limit,
+	pageKey: paginationSchema.shape.pageKey,
 	startTime: z.string().optional(),
 	endTime: z.string().optional()
-} ).refine(
-	( data ) => {
-		if ( !data.startTime && !data.endTime ) return true;
-		if ( data.startTime && !isValidDateString( data.startTime ) ) return false;
-		if ( data.endTime && !isValidDateString( data.endTime ) ) return false;
-		if ( data.startTime && data.endTime ) {
-			return new Date( data.startTime ) <= new Date( data.endTime );
-		}
-		return true;
-	},
-	{ message: "Invalid date range: dates must be valid and startTime must be before or equal to endTime" }
-);
+} ).superRefine( refineDateRange );
 
 export type DateRangePaginationParams = z.infer<typeof dateRangePaginationSchema>;
 
+/**
+ * Schema for /transactions query parameters: date range and pagination plus amount, type,
+ * status and text filters and a sort order.
+ */
+export const transactionsQuerySchema = z.object( {
+	...dateRangePaginationSchema.shape,
+	minAmount: amountSchema.optional(),
+	maxAmount: amountSchema.optional(),
+	debitCreditMemo: z.enum( DEBIT_CREDIT_MEMOS ).optional(),
+	transactionType: transactionTypesSchema.optional(),
+	status: transactionStatusesSchema.optional(),
+	search: transactionSearchSchema.optional(),
+	sort: z.enum( TRANSACTION_SORT_ORDERS ).optional()
+} ).superRefine( ( data, ctx ) => {
+	refineDateRange( data, ctx );
+	if ( data.minAmount !== undefined && data.maxAmount !== undefined && data.minAmount > data.maxAmount ) {
+		ctx.addIssue( { code: "custom", path: [ "maxAmount" ], message: "maxAmount must be greater than or equal to minAmount" } );
+	}
+} );
+
+export type TransactionsQueryParams = z.infer<typeof transactionsQuerySchema>;
+
+/**
+ * Check the startTime/endTime pair of a query.
+ * Invalid dates are reported on their own field and an inverted range on the object,
+ * so callers can tell a bad date from a bad range.
+ */
+function refineDateRange( data: { startTime?: string; endTime?: string }, ctx: z.RefinementCtx ): void {
+	let datesValid = true;
+	for ( const field of [ "startTime", "endTime" ] as const ) {
+		const value = data[field];
+		if ( value && !isValidDateString( value ) ) {
+			datesValid = false;
+			ctx.addIssue( { code: "custom", path: [ field ], message: "Invalid date: use ISO 8601 format within a reasonable range" } );
+		}
+	}
+	if ( datesValid && data.startTime && data.endTime && new Date( data.startTime ) > new Date( data.endTime ) ) {
+		ctx.addIssue( { code: "custom", path: [], message: "Invalid date range: startTime must be before or equal to endTime" } );
+	}
+}
+
+/**
+ * Schema for /tax-forms query parameters (pagination plus optional tax year and form type filters).
+ */
+export const taxFormsQuerySchema = z.object( {
+	offset: paginationSchema.shape.offset,
+	limit: paginationSchema.shape.limit,
+	pageKey: paginationSchema.shape.pageKey,
+	taxYear: taxYearSchema.optional(),
+	taxForms: taxFormTypesSchema.optional()
+} );
+
+export type TaxFormsQueryParams = z.infer<typeof taxFormsQuerySchema>;
+
 /**
  * Schema for account path parameter.
  */
@@ -514,6 +876,13 @@ export const statementParamsSchema = z.object( {
 	statementId: statementIdSchema
 } );
 
+/**
+ * Schema for tax form path parameter.
+ */
+export const taxFormParamsSchema = z.object( {
+	taxFormId: taxFormIdSchema
+} );
+
 /**
  * Schema for interaction path parameter.
  */
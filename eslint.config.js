@@ -45,6 +45,8 @@ const commonStylisticRules = {
 
 // TypeScript-specific rules
 const typeScriptRules = {
+	// The core rule doesn't understand types and flags parameter names in function types
+	"no-unused-vars": "off",
 	"@typescript-eslint/no-unused-vars": "error",
 	"@typescript-eslint/no-explicit-any": "warn",
 	"@typescript-eslint/no-inferrable-types": "error"
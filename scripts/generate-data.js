@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+
+/**
+ * Data Generator CLI
+ *
+ * Generates a seeded synthetic dataset of customers, accounts, statements and transactions
+ * for the API. The generator lives in apps/api/src/data/generator.ts; this runs it through
+ * the API workspace so it can be used from the repository root.
+ *
+ * Usage:
+ *   node scripts/generate-data.js [--seed N] [--customers N] [--years N] [--end-date YYYY-MM-DD] [output.json]
+ *   node scripts/generate-data.js --help
+ */
+
+import { spawnSync } from "child_process";
+
+/**
+ * Show help message
+ */
+function showHelp() {
+	console.log( `
+Data Generator CLI
+
+Generate a synthetic dataset for the API: customers with contact details, an account of
+every supported accountType, years of transactions (paychecks, bills, card spending at
+merchants, loan payments, trades and dividends) and a statement for every month.
+The same options always produce the same dataset.
+
+USAGE:
+  node scripts/generate-data.js [OPTIONS] [OUTPUT]
+
+ARGUMENTS:
+  OUTPUT                      File to write the JSON dataset to (default: stdout)
+
+OPTIONS:
+  --seed N                    Seed for the random generator (default: 1)
+  --customers N               Number of customers, 1-1000 (default: 10)
+  --years N                   Years of history, 1-10 (default: 2)
+  --end-date YYYY-MM-DD       Last day of history (default: 2025-12-31)
+  --help, -h                  Show this help message
+
+EXAMPLES:
+  # Generate the default dataset
+  node scripts/generate-data.js dataset.json
+
+  # Generate a larger dataset with a different seed
+  node scripts/generate-data.js --seed 42 --customers 100 --years 5 dataset.json
+
+  # Serve a generated file from the API (in apps/api/.env)
+  API_DATA_SOURCE=file
+  API_DATA_FILE=dataset.json
+
+NOTES:
+  • The first customer signs in as user_123 and the second as user_456
+  • The first customer's account IDs match the accounts on the consent screen
+  • Relative output paths are resolved from the apps/api directory
+` );
+}
+
+const args = process.argv.slice( 2 );
+
+if ( args.includes( "--help" ) || args.includes( "-h" ) || args[0] === "help" ) {
+	showHelp();
+	process.exit( 0 );
+}
+
+const result = spawnSync( "pnpm", [ "--filter", "@apps/api", "--silent", "generate-data", ...args ], { stdio: "inherit" } );
+if ( result.error ) {
+	console.error( `Error: Could not run pnpm: ${ result.error.message }` );
+	process.exit( 1 );
+}
+process.exit( result.status ?? 1 );
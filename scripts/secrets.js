@@ -8,8 +8,9 @@
  *
  * Usage:
  *   node scripts/secrets.js client [--prefix PREFIX]
+ *   node scripts/secrets.js client-keys
  *   node scripts/secrets.js secrets
- *   node scripts/secrets.js jwks
+ *   node scripts/secrets.js jwks [--alg ALG]
  *   node scripts/secrets.js all [--prefix PREFIX]
  *   node scripts/secrets.js --help
  */
@@ -68,6 +69,8 @@ function generateClientCredentials( prefix = null ) {
  */
 function generateSecrets() {
 	const cookieSecret = generateHexToken( 64 );
+	const consentApiSecret = generateHexToken( 64 );
+	const introspectionClientSecret = generateHexToken( 64 );
 
 	console.log( "═══════════════════════════════════════════════════════════════" );
 	console.log( "Application Secrets" );
@@ -76,25 +79,47 @@ function generateSecrets() {
 	console.log( "# Cookie Secret (64 characters)" );
 	console.log( `COOKIE_SECRET=${ cookieSecret }` );
 	console.log();
+	console.log( "# Consent API Secret, shared by the authorization server and the API (64 characters)" );
+	console.log( `CONSENT_API_SECRET=${ consentApiSecret }` );
+	console.log();
+	console.log( "# Introspection client secret, shared by the authorization server and the API (64 characters)" );
+	console.log( `API_INTROSPECTION_CLIENT_SECRET=${ introspectionClientSecret }` );
+	console.log();
 
-	return { cookieSecret };
+	return { cookieSecret, consentApiSecret, introspectionClientSecret };
 }
 
+/**
+ * Key types for the token signing algorithms the jwks command supports. FAPI 2.0 mode
+ * (SECURITY_PROFILE=fapi2) only signs with PS256 or ES256.
+ */
+const SIGNING_KEY_TYPES = {
+	RS256: { type: "rsa", options: { modulusLength: 2048 }, description: "RSA key pair (RS256, 2048 bits)" },
+	PS256: { type: "rsa", options: { modulusLength: 2048 }, description: "RSA key pair (PS256, 2048 bits)" },
+	ES256: { type: "ec", options: { namedCurve: "P-256" }, description: "EC key pair (ES256, P-256)" }
+};
+
 /**
  * Generate JWKS (JSON Web Key Set) for token signing
- * Creates an RS256 key pair and formats it as a JWKS
+ * Creates a key pair for the algorithm (RS256 by default) and formats it as a JWKS
+ * @param {string} alg - Signing algorithm: RS256, PS256 or ES256
  */
-function generateJWKS() {
+function generateJWKS( alg = "RS256" ) {
+	const keyType = SIGNING_KEY_TYPES[alg];
+	if ( !keyType ) {
+		console.error( `Error: Unsupported algorithm "${ alg }", expected one of ${ Object.keys( SIGNING_KEY_TYPES ).join( ", " ) }\n` );
+		process.exit( 1 );
+	}
+
 	console.log( "═══════════════════════════════════════════════════════════════" );
 	console.log( "JWKS (JSON Web Key Set) for Token Signing" );
 	console.log( "═══════════════════════════════════════════════════════════════" );
 	console.log();
-	console.log( "Generating RSA key pair (RS256, 2048 bits)..." );
+	console.log( `Generating ${ keyType.description }...` );
 	console.log();
 
-	// Generate RSA key pair for RS256 signing
-	const { privateKey } = generateKeyPairSync( "rsa", {
-		modulusLength: 2048,
+	const { privateKey } = generateKeyPairSync( keyType.type, {
+		...keyType.options,
 		publicKeyEncoding: {
 			type: "spki",
 			format: "jwk"
@@ -112,7 +137,7 @@ function generateJWKS() {
 	const jwk = {
 		...privateKey,
 		kid,
-		alg: "RS256",
+		alg,
 		use: "sig"
 	};
 
@@ -138,6 +163,64 @@ function generateJWKS() {
 	return { jwks, jwksString };
 }
 
+/**
+ * Generate a key pair for private_key_jwt client authentication
+ * Creates an ES256 key pair: the client signs its assertions with the private key and
+ * registers the public key with the authorization server
+ */
+function generateClientKeys() {
+	console.log( "═══════════════════════════════════════════════════════════════" );
+	console.log( "Client Key Pair for private_key_jwt Authentication" );
+	console.log( "═══════════════════════════════════════════════════════════════" );
+	console.log();
+	console.log( "Generating EC key pair (ES256, P-256)..." );
+	console.log();
+
+	const { privateKey } = generateKeyPairSync( "ec", {
+		namedCurve: "P-256",
+		publicKeyEncoding: {
+			type: "spki",
+			format: "jwk"
+		},
+		privateKeyEncoding: {
+			type: "pkcs8",
+			format: "jwk"
+		}
+	} );
+
+	const kid = `client-key-${ generateUrlSafeToken( 16 ) }`;
+	const privateJwk = {
+		...privateKey,
+		kid,
+		alg: "ES256",
+		use: "sig"
+	};
+
+	// The public key is the private one without the private exponent
+	// eslint-disable-next-line no-unused-vars
+	const { d, ...publicJwk } = privateJwk;
+
+	const privateJwksString = JSON.stringify( { keys: [ privateJwk ] } );
+	const publicJwksString = JSON.stringify( { keys: [ publicJwk ] } );
+
+	console.log( "# Private key for the client application (RP)" );
+	console.log( "# Add this to apps/app/.env:" );
+	console.log( `CLIENT_PRIVATE_JWKS='${ privateJwksString }'` );
+	console.log();
+	console.log( "# Public key for the authorization server (OP)" );
+	console.log( "# Use it as the client's \"jwks\" in .env.clients.json, with" );
+	console.log( "# \"token_endpoint_auth_method\": \"private_key_jwt\", or add this to apps/auth/.env:" );
+	console.log( `CLIENT_JWKS='${ publicJwksString }'` );
+	console.log();
+	console.log( "IMPORTANT:" );
+	console.log( "• CLIENT_PRIVATE_JWKS contains PRIVATE KEY material - keep it secret!" );
+	console.log( "• CLIENT_JWKS is public and safe to share with the authorization server" );
+	console.log( "• Key ID (kid): " + kid );
+	console.log();
+
+	return { privateJwksString, publicJwksString };
+}
+
 /**
  * Generate all credentials and secrets
  * @param {string|null} prefix - Optional prefix for client ID
@@ -156,6 +239,8 @@ function generateAll( prefix = null ) {
 	console.log( `CLIENT_ID=${ client.clientId }` );
 	console.log( `CLIENT_SECRET=${ client.clientSecret }` );
 	console.log( `COOKIE_SECRET=${ secrets.cookieSecret }` );
+	console.log( `CONSENT_API_SECRET=${ secrets.consentApiSecret }` );
+	console.log( `API_INTROSPECTION_CLIENT_SECRET=${ secrets.introspectionClientSecret }` );
 	console.log( `JWKS='${ jwks.jwksString }'` );
 	console.log();
 }
@@ -174,13 +259,18 @@ USAGE:
 
 COMMANDS:
   client [--prefix PREFIX]    Generate OAuth client credentials (CLIENT_ID, CLIENT_SECRET)
-  secrets                     Generate application secrets (COOKIE_SECRET, etc.)
-  jwks                        Generate JWKS (JSON Web Key Set) for token signing
+  client-keys                 Generate a client key pair for private_key_jwt authentication
+                              (CLIENT_PRIVATE_JWKS, CLIENT_JWKS)
+  secrets                     Generate application secrets (COOKIE_SECRET, CONSENT_API_SECRET,
+                              API_INTROSPECTION_CLIENT_SECRET)
+  jwks [--alg ALG]            Generate JWKS (JSON Web Key Set) for token signing
   all [--prefix PREFIX]       Generate client credentials, secrets, and JWKS
   --help, -h                  Show this help message
 
 OPTIONS:
   --prefix PREFIX             Add a prefix to the generated CLIENT_ID (e.g., "myapp")
+  --alg ALG                   Token signing algorithm for jwks: RS256 (default), PS256 or ES256.
+                              SECURITY_PROFILE=fapi2 needs PS256 or ES256
 
 EXAMPLES:
   # Generate only client credentials
@@ -189,12 +279,18 @@ EXAMPLES:
   # Generate client credentials with a custom prefix
   node scripts/secrets.js client --prefix myapp
 
+  # Generate a key pair for private_key_jwt client authentication
+  node scripts/secrets.js client-keys
+
   # Generate only application secrets
   node scripts/secrets.js secrets
 
   # Generate only JWKS for token signing
   node scripts/secrets.js jwks
 
+  # Generate JWKS for the FAPI 2.0 profile
+  node scripts/secrets.js jwks --alg ES256
+
   # Generate everything at once
   node scripts/secrets.js all
 
@@ -233,6 +329,10 @@ const prefixIndex = args.indexOf( "--prefix" );
 const prefix = prefixIndex !== -1 && args[prefixIndex + 1]
 	? args[prefixIndex + 1]
 	: null;
+const algIndex = args.indexOf( "--alg" );
+const alg = algIndex !== -1 && args[algIndex + 1]
+	? args[algIndex + 1]
+	: undefined;
 
 // Route to appropriate command
 switch ( command ) {
@@ -241,13 +341,18 @@ switch ( command ) {
 		showSecurityWarning();
 		break;
 
+	case "client-keys":
+		generateClientKeys();
+		showSecurityWarning();
+		break;
+
 	case "secrets":
 		generateSecrets();
 		showSecurityWarning();
 		break;
 
 	case "jwks":
-		generateJWKS();
+		generateJWKS( alg );
 		showSecurityWarning();
 		break;
 